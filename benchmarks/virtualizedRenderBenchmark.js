@@ -0,0 +1,83 @@
+const fs = require('fs');
+const path = require('path');
+const { performance } = require('perf_hooks');
+const ts = require('typescript');
+
+// Transpiles the shipped src/virtualLines.ts, so the benchmark measures the code the editor actually runs.
+function loadVirtualLines() {
+  const file = path.join(__dirname, '../src/virtualLines.ts');
+  const { outputText } = ts.transpileModule(fs.readFileSync(file, 'utf8'), {
+    compilerOptions: { module: ts.ModuleKind.CommonJS, target: ts.ScriptTarget.ES2019 },
+  });
+  const loaded = { exports: {} };
+  new Function('module', 'exports', outputText)(loaded, loaded.exports);
+  return loaded.exports;
+}
+
+const { buildLineOffsets, getVirtualRange } = loadVirtualLines();
+
+const PREFIX_REGEX = /^(\s*(?:#{1,6}\s|[-*]\s\[[ xX]\]\s|[-*]\s|\d+\.\s|>\s))/;
+const BOLD_REGEX = /\*\*([^*]+)\*\*/g;
+
+// Stand-in for the per-line preview work: prefix stripping plus inline tokenizing.
+function renderLine(line, index) {
+  const content = line.replace(PREFIX_REGEX, "");
+  const parts = [];
+  let cursor = 0;
+  BOLD_REGEX.lastIndex = 0;
+  let match;
+  while ((match = BOLD_REGEX.exec(content))) {
+    if (match.index > cursor) parts.push(content.slice(cursor, match.index));
+    parts.push({ type: "strong", children: match[1] });
+    cursor = match.index + match[0].length;
+  }
+  if (cursor < content.length) parts.push(content.slice(cursor));
+  return { key: index, parts };
+}
+
+const templates = [
+  "# Meeting log",
+  "- [ ] follow up with **ops**",
+  "- discussed **latency** budget",
+  "1. action item",
+  "> quoted from chat",
+  "Regular note line with some **bold** words and plain text after it. ".repeat(3),
+];
+const lines = Array.from({ length: 20000 }, (_, i) => templates[i % templates.length]);
+const ids = lines.map((_, i) => `line-${i}`);
+const heights = new Map();
+const viewportHeight = 900;
+const overscan = 20;
+const iterations = 200;
+
+function renderAll() {
+  return lines.map(renderLine);
+}
+
+function renderVirtual(scrollTop) {
+  const offsets = buildLineOffsets(ids, heights, 24);
+  const { start, end } = getVirtualRange(offsets, scrollTop, scrollTop + viewportHeight, overscan);
+  const rendered = [];
+  for (let i = start; i <= end; i++) rendered.push(renderLine(lines[i], i));
+  return rendered;
+}
+
+function runBenchmark(fn, name) {
+    // Warm up
+    for (let i = 0; i < 10; i++) fn(i * 240);
+
+    const start = performance.now();
+    for (let i = 0; i < iterations; i++) {
+        fn((i * 2400) % (lines.length * 24));
+    }
+    const end = performance.now();
+    console.log(`${name}: ${(end - start).toFixed(4)}ms`);
+    return end - start;
+}
+
+console.log(`Rendering ${lines.length} lines, ${iterations} renders...`);
+const fullTime = runBenchmark(renderAll, "Mount every line");
+const virtualTime = runBenchmark(renderVirtual, "Virtualized window");
+
+const improvement = ((fullTime - virtualTime) / fullTime) * 100;
+console.log(`Improvement: ${improvement.toFixed(2)}%`);
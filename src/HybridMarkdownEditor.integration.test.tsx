@@ -1,12 +1,20 @@
-import React, { useState } from "react";
-import { act, fireEvent, render, screen } from "@testing-library/react";
+import React, { useEffect, useState } from "react";
+import { act, createEvent, fireEvent, render, screen, within } from "@testing-library/react";
 import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
 import {
+  EditorChangeSet,
   EditorExtension,
+  ExtensionApi,
   HybridMarkdownEditor,
+  HybridMarkdownEditorHandle,
   mapDisplayOffsetToSourceIndex,
   parseBold,
 } from "./HybridMarkdownEditor";
+import HybridMarkdownToolbar, { HybridMarkdownToolbarProps } from "./HybridMarkdownToolbar";
+import HybridMarkdownOutline from "./HybridMarkdownOutline";
+import { createSlashCommandExtension } from "./slashCommands";
+import { AutocompleteSource, AutocompleteSuggestion } from "./autocomplete";
+import { createWikiLinkExtension } from "./wikiLinks";
 
 const activateLine = (text: string) => {
   fireEvent.mouseUp(screen.getByText(text));
@@ -418,8 +426,2403 @@ describe("HybridMarkdownEditor rendering and mapping", () => {
     expect(mapDisplayOffsetToSourceIndex("**hello", 2)).toBe(2);
   });
 
+  it("renders built-in inline syntax and extension inline rules in the preview", () => {
+    const extension: EditorExtension = {
+      inlineRules: [
+        {
+          name: "shout",
+          match: (source, from) => {
+            const start = source.indexOf("!!", from);
+            const end = start === -1 ? -1 : source.indexOf("!!", start + 2);
+            if (end === -1) return null;
+            return { start, end: end + 2, contentStart: start + 2, contentEnd: end };
+          },
+          render: (_token, children) => <b data-testid="shout">{children}</b>,
+        },
+      ],
+    };
+    const { container } = render(
+      <HybridMarkdownEditor value="*soft* and !!loud!!" extensions={[extension]} readOnly />
+    );
+    const source = container.querySelector('[data-role="source-content"]') as HTMLElement;
+    expect(source.querySelector("em")?.textContent).toBe("soft");
+    expect(screen.getByTestId("shout").textContent).toBe("loud");
+    expect(source.textContent).toBe("soft and loud");
+  });
+
+  it("deletes a rendered selection inside extension-formatted text using its source mapping", () => {
+    const onChange = vi.fn();
+    const extension: EditorExtension = {
+      inlineRules: [
+        {
+          name: "wrap",
+          match: (source, from) => {
+            const start = source.indexOf("<<", from);
+            const end = start === -1 ? -1 : source.indexOf(">>", start + 2);
+            if (end === -1) return null;
+            return { start, end: end + 2, contentStart: start + 2, contentEnd: end };
+          },
+          render: (_token, children) => <u>{children}</u>,
+        },
+      ],
+    };
+    const { container } = render(
+      <HybridMarkdownEditor value="a <<bcd>> e" onChange={onChange} extensions={[extension]} />
+    );
+    const text = container.querySelector("u")!.firstChild as Text;
+    const selection = window.getSelection()!;
+    const range = document.createRange();
+    range.setStart(text, 1);
+    range.setEnd(text, 2);
+    selection.removeAllRanges();
+    selection.addRange(range);
+    fireEvent.keyDown(window, { key: "Delete" });
+    expect(onChange).toHaveBeenLastCalledWith("a <<bd>> e");
+  });
+
   it("treats four asterisks as literal text rather than empty bold", () => {
     expect(parseBold("****")).toEqual(["****"]);
     expect(mapDisplayOffsetToSourceIndex("****", 4)).toBe(4);
   });
 });
+
+describe("HybridMarkdownEditor history", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.clearAllTimers();
+    vi.useRealTimers();
+  });
+
+  it("undoes and redoes an Enter split with Ctrl+Z / Ctrl+Shift+Z", () => {
+    const onChange = vi.fn();
+    render(<HybridMarkdownEditor value="hello world" onChange={onChange} />);
+    activateLine("hello world");
+    let textarea = screen.getByRole("textbox") as HTMLTextAreaElement;
+    setCaret(textarea, 5);
+    fireEvent.keyDown(textarea, { key: "Enter" });
+    expect(onChange).toHaveBeenLastCalledWith("hello\n world");
+
+    textarea = screen.getByRole("textbox") as HTMLTextAreaElement;
+    setCaret(textarea, 0);
+    fireEvent.keyDown(textarea, { key: "z", ctrlKey: true });
+    expect(onChange).toHaveBeenLastCalledWith("hello world");
+    textarea = screen.getByLabelText("Markdown line 1") as HTMLTextAreaElement;
+    expect(textarea.selectionStart).toBe(5);
+
+    fireEvent.keyDown(textarea, { key: "z", ctrlKey: true, shiftKey: true });
+    expect(onChange).toHaveBeenLastCalledWith("hello\n world");
+    expect(screen.getByLabelText("Markdown line 2")).toBeTruthy();
+  });
+
+  it("reverts a multi-line paste in a single step", () => {
+    const onChange = vi.fn();
+    render(<HybridMarkdownEditor value="start" onChange={onChange} />);
+    activateLine("start");
+    const textarea = screen.getByRole("textbox") as HTMLTextAreaElement;
+    setCaret(textarea, 5);
+    fireEvent.paste(textarea, { clipboardData: { getData: () => "\none\ntwo\nthree" } });
+    expect(onChange).toHaveBeenLastCalledWith("start\none\ntwo\nthree");
+
+    fireEvent.keyDown(screen.getByRole("textbox"), { key: "z", metaKey: true });
+    expect(onChange).toHaveBeenLastCalledWith("start");
+  });
+
+  it("groups consecutive typing into one transaction and splits after a pause", () => {
+    const onChange = vi.fn();
+    render(<HybridMarkdownEditor value="a" onChange={onChange} options={{ historyGroupDelay: 500 }} />);
+    activateLine("a");
+    const textarea = screen.getByRole("textbox") as HTMLTextAreaElement;
+    fireEvent.change(textarea, { target: { value: "ab" } });
+    fireEvent.change(textarea, { target: { value: "abc" } });
+    act(() => vi.advanceTimersByTime(501));
+    fireEvent.change(textarea, { target: { value: "abcd" } });
+
+    fireEvent.keyDown(textarea, { key: "z", ctrlKey: true });
+    expect(onChange).toHaveBeenLastCalledWith("abc");
+    fireEvent.keyDown(screen.getByRole("textbox"), { key: "z", ctrlKey: true });
+    expect(onChange).toHaveBeenLastCalledWith("a");
+  });
+
+  it("exposes undo/redo on the extension API and clears redo after a new edit", () => {
+    const onChange = vi.fn();
+    let capturedApi: Parameters<NonNullable<EditorExtension["onKeyDown"]>>[1] | null = null;
+    const extension: EditorExtension = {
+      onKeyDown: (event, api) => {
+        capturedApi = api;
+        return event.key === "F2";
+      },
+    };
+    render(<HybridMarkdownEditor value="a" onChange={onChange} extensions={[extension]} />);
+    activateLine("a");
+    fireEvent.keyDown(screen.getByRole("textbox"), { key: "F2" });
+    expect(capturedApi!.canUndo()).toBe(false);
+
+    act(() => capturedApi!.setLine(0, "b"));
+    expect(capturedApi!.canUndo()).toBe(true);
+    act(() => capturedApi!.undo());
+    expect(onChange).toHaveBeenLastCalledWith("a");
+    expect(capturedApi!.canRedo()).toBe(true);
+
+    act(() => capturedApi!.setLine(0, "c"));
+    expect(capturedApi!.canRedo()).toBe(false);
+  });
+
+  it("drops history when an external value replaces the document", () => {
+    const onChange = vi.fn();
+    const { rerender } = render(<HybridMarkdownEditor value="local" onChange={onChange} />);
+    activateLine("local");
+    fireEvent.change(screen.getByRole("textbox"), { target: { value: "local edit" } });
+    rerender(<HybridMarkdownEditor value="server" onChange={onChange} />);
+    activateLine("server");
+    onChange.mockClear();
+    fireEvent.keyDown(screen.getByRole("textbox"), { key: "z", ctrlKey: true });
+    expect(onChange).not.toHaveBeenCalled();
+  });
+});
+
+describe("HybridMarkdownEditor code blocks", () => {
+  it("renders fenced code lines verbatim without list or inline styling", () => {
+    const { container } = render(
+      <HybridMarkdownEditor value={"```md\n- **raw**\n# not heading\n```"} readOnly />
+    );
+    const lines = Array.from(container.querySelectorAll("[data-line-index]")) as HTMLElement[];
+    expect(lines.map((line) => line.dataset.blockRole)).toEqual(["open", "body", "body", "close"]);
+    expect(container.querySelector('[data-role="line-marker"]')).toBeNull();
+    expect(container.querySelector("strong")).toBeNull();
+    const sources = container.querySelectorAll('[data-role="source-content"]');
+    expect(sources[1].textContent).toBe("- **raw**");
+    expect(lines[1].style.fontFamily).toBe("monospace");
+  });
+
+  it("applies code block class and style hooks", () => {
+    const { container } = render(
+      <HybridMarkdownEditor
+        value={"```\ncode\n```"}
+        readOnly
+        classNames={{ codeBlock: "code-line", lineTypes: { code: "typed-code" } }}
+        styles={{ codeBlock: { background: "black" } }}
+      />
+    );
+    const body = container.querySelector('[data-line-index="1"]') as HTMLElement;
+    expect(body.className).toContain("code-line");
+    expect(body.className).toContain("typed-code");
+    expect(body.style.background).toBe("black");
+  });
+
+  it("keeps indentation instead of continuing list markers on Enter", () => {
+    const onChange = vi.fn();
+    render(<HybridMarkdownEditor value={"```\n  - item\n```"} onChange={onChange} />);
+    activateLine("- item");
+    const textarea = screen.getByRole("textbox") as HTMLTextAreaElement;
+    setCaret(textarea, textarea.value.length);
+    fireEvent.keyDown(textarea, { key: "Enter" });
+    expect(onChange).toHaveBeenLastCalledWith("```\n  - item\n  \n```");
+    expect((screen.getByRole("textbox") as HTMLTextAreaElement).selectionStart).toBe(2);
+  });
+
+  it("closes an unclosed fence when Enter is pressed at the end of the opening line", () => {
+    const onChange = vi.fn();
+    render(<HybridMarkdownEditor value={"```js"} onChange={onChange} />);
+    activateLine("```js");
+    const textarea = screen.getByRole("textbox") as HTMLTextAreaElement;
+    setCaret(textarea, textarea.value.length);
+    fireEvent.keyDown(textarea, { key: "Enter" });
+    expect(onChange).toHaveBeenLastCalledWith("```js\n\n```");
+    expect(screen.getByLabelText("Markdown line 2")).toBeTruthy();
+  });
+
+  it("does not strip list markers with Backspace inside code", () => {
+    render(<HybridMarkdownEditor value={"```\n- item\n```"} />);
+    activateLine("- item");
+    const textarea = screen.getByRole("textbox") as HTMLTextAreaElement;
+    setCaret(textarea, 2);
+    const allowed = fireEvent.keyDown(textarea, { key: "Backspace" });
+    expect(allowed).toBe(true);
+  });
+
+  it("maps rendered selections in code lines one-to-one with the source", () => {
+    const onChange = vi.fn();
+    const { container } = render(<HybridMarkdownEditor value={"```\n# **x**\n```"} onChange={onChange} />);
+    const text = container.querySelectorAll('[data-role="source-content"]')[1].firstChild as Text;
+    const selection = window.getSelection()!;
+    const range = document.createRange();
+    range.setStart(text, 0);
+    range.setEnd(text, 2);
+    selection.removeAllRanges();
+    selection.addRange(range);
+    fireEvent.keyDown(window, { key: "Delete" });
+    expect(onChange).toHaveBeenLastCalledWith("```\n**x**\n```");
+  });
+});
+
+describe("HybridMarkdownEditor tables", () => {
+  const table = "| Name | Qty |\n| :--- | --: |\n| apples | 12 |\n| pears | 3 |";
+
+  it("renders a table preview with alignment from the delimiter row", () => {
+    const { container } = render(<HybridMarkdownEditor value={table} readOnly />);
+    const preview = container.querySelector('[data-role="table-preview"]') as HTMLTableElement;
+    expect(preview).toBeTruthy();
+    expect(Array.from(preview.querySelectorAll("th")).map((cell) => cell.textContent)).toEqual(["Name", "Qty"]);
+    expect(preview.querySelectorAll("tbody tr")).toHaveLength(2);
+    expect((preview.querySelector("td:nth-child(2)") as HTMLElement).style.textAlign).toBe("right");
+    expect(container.querySelectorAll('[data-line-index][hidden]')).toHaveLength(3);
+  });
+
+  it("activates the clicked cell's source line and shows the table as source", () => {
+    const { container } = render(<HybridMarkdownEditor value={table} />);
+    activateLine("pears");
+    const textarea = screen.getByLabelText("Markdown line 4") as HTMLTextAreaElement;
+    expect(textarea.value).toBe("| pears | 3 |");
+    expect(container.querySelector('[data-role="table-preview"]')).toBeNull();
+  });
+
+  it("moves between cells with Tab and Shift+Tab, skipping the delimiter row", () => {
+    render(<HybridMarkdownEditor value={table} />);
+    activateLine("apples");
+    let textarea = screen.getByLabelText("Markdown line 3") as HTMLTextAreaElement;
+    setCaret(textarea, 3);
+    fireEvent.keyDown(textarea, { key: "Tab" });
+    expect([textarea.selectionStart, textarea.selectionEnd]).toEqual([11, 13]);
+
+    setCaret(textarea, 11, 13);
+    fireEvent.keyDown(textarea, { key: "Tab" });
+    textarea = screen.getByLabelText("Markdown line 4") as HTMLTextAreaElement;
+    expect(screen.getByRole("textbox")).toBe(textarea);
+    expect(textarea.selectionStart).toBe(2);
+
+    setCaret(textarea, 2);
+    fireEvent.keyDown(textarea, { key: "Tab", shiftKey: true });
+    textarea = screen.getByLabelText("Markdown line 3") as HTMLTextAreaElement;
+    expect(textarea.selectionStart).toBe(11);
+
+    setCaret(textarea, 2);
+    fireEvent.keyDown(textarea, { key: "Tab", shiftKey: true });
+    expect(screen.getByLabelText("Markdown line 1")).toBeTruthy();
+  });
+
+  it("appends a row when tabbing past the last cell", () => {
+    const onChange = vi.fn();
+    render(<HybridMarkdownEditor value={table} onChange={onChange} />);
+    activateLine("pears");
+    const textarea = screen.getByRole("textbox") as HTMLTextAreaElement;
+    setCaret(textarea, 11);
+    fireEvent.keyDown(textarea, { key: "Tab" });
+    expect(onChange).toHaveBeenLastCalledWith(`${table}\n|  |  |`);
+    expect(screen.getByLabelText("Markdown line 5")).toBeTruthy();
+  });
+
+  it("adds a row on Enter and leaves the table from an empty last row", () => {
+    const onChange = vi.fn();
+    render(<HybridMarkdownEditor value={table} onChange={onChange} />);
+    activateLine("pears");
+    let textarea = screen.getByRole("textbox") as HTMLTextAreaElement;
+    setCaret(textarea, 4);
+    fireEvent.keyDown(textarea, { key: "Enter" });
+    expect(onChange).toHaveBeenLastCalledWith(`${table}\n|  |  |`);
+
+    textarea = screen.getByLabelText("Markdown line 5") as HTMLTextAreaElement;
+    setCaret(textarea, 2);
+    fireEvent.keyDown(textarea, { key: "Enter" });
+    expect(onChange).toHaveBeenLastCalledWith(`${table}\n`);
+    expect((screen.getByLabelText("Markdown line 5") as HTMLTextAreaElement).value).toBe("");
+  });
+
+  it("formats a table through the extension API as a single commit", () => {
+    const onChange = vi.fn();
+    let capturedApi: Parameters<NonNullable<EditorExtension["onKeyDown"]>>[1] | null = null;
+    const extension: EditorExtension = {
+      onKeyDown: (event, api) => {
+        capturedApi = api;
+        return event.key === "F2";
+      },
+    };
+    render(<HybridMarkdownEditor value={"intro\n|a|b|\n|-|:-:|\n|long cell|x|"} onChange={onChange} extensions={[extension]} />);
+    activateLine("intro");
+    fireEvent.keyDown(screen.getByRole("textbox"), { key: "F2" });
+    act(() => capturedApi!.formatTable(3));
+    expect(onChange).toHaveBeenCalledTimes(1);
+    expect(onChange).toHaveBeenLastCalledWith(
+      "intro\n| a         |  b  |\n| --------- | :-: |\n| long cell |  x  |"
+    );
+  });
+
+  it("deletes a rendered selection inside a table cell", () => {
+    const onChange = vi.fn();
+    render(<HybridMarkdownEditor value={table} onChange={onChange} />);
+    const text = screen.getByText("apples").firstChild as Text;
+    const selection = window.getSelection()!;
+    const range = document.createRange();
+    range.setStart(text, 1);
+    range.setEnd(text, 3);
+    selection.removeAllRanges();
+    selection.addRange(range);
+    fireEvent.keyDown(window, { key: "Delete" });
+    expect(onChange).toHaveBeenLastCalledWith(table.replace("apples", "ales"));
+  });
+});
+
+describe("HybridMarkdownEditor task checkboxes", () => {
+  it("toggles a task through the commit pipeline without activating the line", () => {
+    const onChange = vi.fn();
+    render(<HybridMarkdownEditor value={"- [ ] todo\n  * [X] done"} onChange={onChange} />);
+    const [todo, done] = screen.getAllByRole("checkbox");
+    expect(todo.getAttribute("aria-checked")).toBe("false");
+    expect(done.getAttribute("aria-checked")).toBe("true");
+
+    fireEvent.mouseUp(todo);
+    fireEvent.click(todo);
+    expect(onChange).toHaveBeenLastCalledWith("- [x] todo\n  * [X] done");
+    expect(screen.queryByRole("textbox")).toBeNull();
+
+    fireEvent.keyDown(screen.getAllByRole("checkbox")[1], { key: " " });
+    expect(onChange).toHaveBeenLastCalledWith("- [x] todo\n  * [ ] done");
+  });
+
+  it("keeps the active line while toggling another task", () => {
+    const onChange = vi.fn();
+    render(<HybridMarkdownEditor value={"notes\n- [ ] todo"} onChange={onChange} />);
+    activateLine("notes");
+    fireEvent.click(screen.getByRole("checkbox"));
+    expect(onChange).toHaveBeenLastCalledWith("notes\n- [x] todo");
+    expect(screen.getByLabelText("Markdown line 1")).toBeTruthy();
+  });
+
+  it("only toggles in readOnly mode when allowTaskToggleInReadOnly is set", () => {
+    const onChange = vi.fn();
+    const { rerender } = render(<HybridMarkdownEditor value="- [ ] todo" onChange={onChange} readOnly />);
+    expect(screen.getByRole("checkbox").getAttribute("aria-disabled")).toBe("true");
+    fireEvent.click(screen.getByRole("checkbox"));
+    expect(onChange).not.toHaveBeenCalled();
+
+    rerender(
+      <HybridMarkdownEditor value="- [ ] todo" onChange={onChange} readOnly options={{ allowTaskToggleInReadOnly: true }} />
+    );
+    fireEvent.click(screen.getByRole("checkbox"));
+    expect(onChange).toHaveBeenLastCalledWith("- [x] todo");
+    expect(screen.queryByRole("textbox")).toBeNull();
+  });
+});
+
+describe("HybridMarkdownEditor ref handle", () => {
+  const renderWithRef = (value: string, onChange = vi.fn()) => {
+    const ref = React.createRef<HybridMarkdownEditorHandle>();
+    render(<HybridMarkdownEditor ref={ref} value={value} onChange={onChange} />);
+    return { ref, onChange };
+  };
+
+  it("focuses a line at a caret and blurs it again", () => {
+    const { ref } = renderWithRef("one\ntwo");
+    act(() => ref.current!.focus(1, 1));
+    const textarea = screen.getByLabelText("Markdown line 2") as HTMLTextAreaElement;
+    expect(document.activeElement).toBe(textarea);
+    expect(textarea.selectionStart).toBe(1);
+
+    act(() => ref.current!.blur());
+    expect(screen.queryByRole("textbox")).toBeNull();
+  });
+
+  it("inserts multi-line text at the active selection through onChange", () => {
+    const { ref, onChange } = renderWithRef("hello world");
+    act(() => ref.current!.focus(0, 6));
+    setCaret(screen.getByRole("textbox") as HTMLTextAreaElement, 6, 11);
+    act(() => ref.current!.insertText("big\nnew world"));
+    expect(onChange).toHaveBeenLastCalledWith("hello big\nnew world");
+    expect(ref.current!.getValue()).toBe("hello big\nnew world");
+    const textarea = screen.getByLabelText("Markdown line 2") as HTMLTextAreaElement;
+    expect(textarea.selectionStart).toBe(9);
+  });
+
+  it("appends inserted text at the end of the document when nothing is selected", () => {
+    const { ref, onChange } = renderWithRef("a\nb");
+    act(() => ref.current!.insertText("!"));
+    expect(onChange).toHaveBeenLastCalledWith("a\nb!");
+  });
+
+  it("replaces a cross-line source range, clamping out-of-range positions", () => {
+    const { ref, onChange } = renderWithRef("alpha\nbeta\ngamma");
+    act(() => ref.current!.replaceRange({ line: 2, column: 2 }, { line: 0, column: 3 }, "-"));
+    expect(onChange).toHaveBeenLastCalledWith("alp-mma");
+    act(() => ref.current!.replaceRange({ line: 5, column: 99 }, { line: 9, column: 99 }, "!"));
+    expect(onChange).toHaveBeenLastCalledWith("alp-mma!");
+  });
+
+  it("reports the textarea selection and rendered selections in source coordinates", () => {
+    const { ref } = renderWithRef("**bold** text\nnext");
+    const text = screen.getByText("bold").firstChild as Text;
+    const range = document.createRange();
+    range.setStart(text, 1);
+    range.setEnd(screen.getByText("next").firstChild as Text, 2);
+    window.getSelection()!.removeAllRanges();
+    window.getSelection()!.addRange(range);
+    expect(ref.current!.getSelection()).toEqual({
+      start: { line: 0, column: 3 },
+      end: { line: 1, column: 2 },
+      text: "old** text\nne",
+    });
+    window.getSelection()!.removeAllRanges();
+
+    act(() => ref.current!.focus(1, 0));
+    setCaret(screen.getByRole("textbox") as HTMLTextAreaElement, 1, 3);
+    expect(ref.current!.getSelection()).toEqual({
+      start: { line: 1, column: 1 },
+      end: { line: 1, column: 3 },
+      text: "ex",
+    });
+  });
+
+  it("scrolls a line into view", () => {
+    const { ref } = renderWithRef("one\ntwo");
+    const scroll = vi.fn();
+    const lineEl = document.querySelector('[data-line-index="1"]') as HTMLElement;
+    lineEl.scrollIntoView = scroll;
+    ref.current!.scrollToLine(1);
+    expect(scroll).toHaveBeenCalledWith({ block: "nearest" });
+  });
+});
+
+describe("HybridMarkdownEditor virtualization", () => {
+  const longValue = Array.from({ length: 1000 }, (_, i) => `line ${i}`).join("\n");
+  const mountedIndices = (container: HTMLElement) =>
+    Array.from(container.querySelectorAll("[data-line-index]")).map((el) => Number((el as HTMLElement).dataset.lineIndex));
+
+  it("mounts only the viewport plus overscan and reserves the rest with spacers", () => {
+    const { container } = render(
+      <HybridMarkdownEditor value={longValue} options={{ virtualize: true, estimatedLineHeight: 24, overscan: 10 }} />
+    );
+    const mounted = mountedIndices(container);
+    expect(mounted.length).toBeLessThan(100);
+    expect(mounted[0]).toBe(0);
+    const spacers = container.querySelectorAll('[data-role="virtual-spacer"]');
+    expect(spacers).toHaveLength(1);
+    expect((spacers[0] as HTMLElement).style.height).toBe(`${(1000 - mounted.length) * 24}px`);
+  });
+
+  it("sizes the viewport from the nearest scroll container", () => {
+    const { container } = render(
+      <div data-testid="scroller" style={{ overflowY: "auto", height: 240 }}>
+        <HybridMarkdownEditor value={longValue} options={{ virtualize: true, estimatedLineHeight: 24, overscan: 0 }} />
+      </div>
+    );
+    const scroller = screen.getByTestId("scroller");
+    const content = container.querySelector('[data-role="virtual-spacer"]')!.parentElement!;
+    vi.spyOn(scroller, "getBoundingClientRect").mockReturnValue({ top: 0, bottom: 240 } as DOMRect);
+    vi.spyOn(content, "getBoundingClientRect").mockReturnValue({ top: -2400 } as DOMRect);
+    fireEvent.scroll(scroller);
+    expect(mountedIndices(container)).toEqual([100, 101, 102, 103, 104, 105, 106, 107, 108, 109]);
+  });
+
+  it("keeps the active textarea mounted outside the viewport", () => {
+    const ref = React.createRef<HybridMarkdownEditorHandle>();
+    const { container } = render(<HybridMarkdownEditor ref={ref} value={longValue} options={{ virtualize: true }} />);
+    act(() => ref.current!.focus(900, 2));
+    expect((screen.getByLabelText("Markdown line 901") as HTMLTextAreaElement).selectionStart).toBe(2);
+    expect(mountedIndices(container)).not.toContain(899);
+  });
+
+  it("mounts an unrendered line before scrolling it into view", () => {
+    const ref = React.createRef<HybridMarkdownEditorHandle>();
+    const scrollSpy = vi.spyOn(HTMLElement.prototype, "scrollIntoView").mockImplementation(() => {});
+    render(<HybridMarkdownEditor ref={ref} value={longValue} options={{ virtualize: true }} />);
+    act(() => ref.current!.scrollToLine(700));
+    expect(scrollSpy).toHaveBeenCalledTimes(1);
+    expect((scrollSpy.mock.contexts[0] as HTMLElement).dataset.lineIndex).toBe("700");
+  });
+
+  it("deletes a rendered selection whose endpoints are far apart", () => {
+    const onChange = vi.fn();
+    const { container } = render(
+      <HybridMarkdownEditor value={longValue} onChange={onChange} options={{ virtualize: true, estimatedLineHeight: 24 }} />
+    );
+    const selection = window.getSelection()!;
+    const startText = screen.getByText("line 1").firstChild as Text;
+    const range = document.createRange();
+    range.setStart(startText, 4);
+    range.setEnd(startText, 6);
+    selection.removeAllRanges();
+    selection.addRange(range);
+    act(() => {
+      document.dispatchEvent(new Event("selectionchange"));
+    });
+
+    const content = container.querySelector("[data-line-index]")!.parentElement as HTMLElement;
+    vi.spyOn(content, "getBoundingClientRect").mockReturnValue({ top: -900 * 24 } as DOMRect);
+    act(() => {
+      window.dispatchEvent(new Event("scroll"));
+    });
+    expect(mountedIndices(container)).toContain(1);
+    expect(mountedIndices(container)).toContain(900);
+
+    selection.extend(screen.getByText("line 900").firstChild as Text, 5);
+    fireEvent.keyDown(window, { key: "Delete" });
+    const expected = longValue.split("\n");
+    expected.splice(1, 900, "line900");
+    expect(onChange).toHaveBeenLastCalledWith(expected.join("\n"));
+  });
+});
+
+describe("HybridMarkdownEditor line identities", () => {
+  it("keeps line IDs and per-line React state when a line is inserted above", () => {
+    const mounts = vi.fn();
+    const Counter: React.FC<{ label: string }> = ({ label }) => {
+      const [count, setCount] = useState(0);
+      useEffect(() => mounts(label), []);
+      return <button onClick={() => setCount((c) => c + 1)}>{`${label}:${count}`}</button>;
+    };
+    const ids: Record<string, string> = {};
+    render(
+      <HybridMarkdownEditor
+        value={"first\nsecond"}
+        renderLine={({ id, line, defaultContent }) => {
+          ids[line] = id;
+          return (
+            <>
+              {defaultContent}
+              <Counter label={line} />
+            </>
+          );
+        }}
+      />
+    );
+    fireEvent.click(screen.getByText("second:0"));
+    const secondId = ids.second;
+    mounts.mockClear();
+
+    activateLine("first");
+    const textarea = screen.getByRole("textbox") as HTMLTextAreaElement;
+    setCaret(textarea, 0);
+    fireEvent.keyDown(textarea, { key: "Enter" });
+
+    expect(ids.second).toBe(secondId);
+    expect(screen.getByText("second:1")).toBeTruthy();
+    expect(mounts).not.toHaveBeenCalledWith("second");
+  });
+
+  it("passes the line ID to extension decorations and reconciles external values", () => {
+    const seen: Array<{ line: string; id: string }> = [];
+    const extension: EditorExtension = {
+      renderLinePrefix: ({ line, id }) => {
+        seen.push({ line, id });
+        return null;
+      },
+    };
+    const { rerender } = render(<HybridMarkdownEditor value={"a\nb"} extensions={[extension]} readOnly />);
+    const idOf = (line: string) => seen.filter((entry) => entry.line === line).pop()!.id;
+    const before = { a: idOf("a"), b: idOf("b") };
+    expect(before.a).not.toBe(before.b);
+
+    rerender(<HybridMarkdownEditor value={"intro\na\nb"} extensions={[extension]} readOnly />);
+    expect(idOf("a")).toBe(before.a);
+    expect(idOf("b")).toBe(before.b);
+    expect([before.a, before.b]).not.toContain(idOf("intro"));
+  });
+});
+
+describe("HybridMarkdownEditor clipboard", () => {
+  const selectRendered = (startNode: Node, startOffset: number, endNode: Node, endOffset: number) => {
+    const range = document.createRange();
+    range.setStart(startNode, startOffset);
+    range.setEnd(endNode, endOffset);
+    const selection = window.getSelection()!;
+    selection.removeAllRanges();
+    selection.addRange(range);
+  };
+  const clipboard = () => {
+    const data: Record<string, string> = {};
+    return { data, clipboardData: { setData: (type: string, value: string) => (data[type] = value) } };
+  };
+
+  it("copies a multi-line rendered selection as Markdown source with an HTML flavor", () => {
+    const onChange = vi.fn();
+    const { container } = render(<HybridMarkdownEditor value={"# Title\n- **bold** item\nplain"} onChange={onChange} />);
+    const sources = container.querySelectorAll('[data-role="source-content"]');
+    selectRendered(sources[0].firstChild!, 0, sources[1].lastChild!, 3);
+
+    const { data, clipboardData } = clipboard();
+    const allowed = fireEvent.copy(document, { clipboardData });
+    expect(allowed).toBe(false);
+    expect(data["text/plain"]).toBe("# Title\n- **bold** it");
+    expect(data["text/html"]).toContain("<strong>bold</strong>");
+    expect(onChange).not.toHaveBeenCalled();
+  });
+
+  it("copies from the middle of a line without its prefix and works in readOnly", () => {
+    const { container } = render(<HybridMarkdownEditor value={"> quoted **text**"} readOnly />);
+    const strong = container.querySelector("strong")!;
+    const source = container.querySelector('[data-role="source-content"]')!;
+    selectRendered(source.firstChild!, 2, strong.firstChild!, 4);
+    const { data, clipboardData } = clipboard();
+    fireEvent.copy(document, { clipboardData });
+    expect(data["text/plain"]).toBe("oted **text**");
+  });
+
+  it("cuts the copied source range through the commit pipeline", () => {
+    const onChange = vi.fn();
+    const { container } = render(<HybridMarkdownEditor value={"## Head\nbody text"} onChange={onChange} />);
+    const sources = container.querySelectorAll('[data-role="source-content"]');
+    selectRendered(sources[0].firstChild!, 0, sources[1].firstChild!, 5);
+    const { data, clipboardData } = clipboard();
+    fireEvent.cut(document, { clipboardData });
+    expect(data["text/plain"]).toBe("## Head\nbody ");
+    expect(onChange).toHaveBeenLastCalledWith("text");
+    expect((screen.getByLabelText("Markdown line 1") as HTMLTextAreaElement).selectionStart).toBe(0);
+  });
+
+  it("leaves textarea and outside selections to the browser", () => {
+    render(
+      <>
+        <p>outside</p>
+        <HybridMarkdownEditor value="line" />
+      </>
+    );
+    const outside = screen.getByText("outside").firstChild!;
+    selectRendered(outside, 0, outside, 3);
+    expect(fireEvent.copy(document, clipboard())).toBe(true);
+  });
+});
+
+describe("HybridMarkdownEditor HTML paste", () => {
+  const pasteData = (data: Record<string, string>) => ({
+    clipboardData: { getData: (type: string) => data[type] ?? (type === "text" ? data["text/plain"] ?? "" : "") },
+  });
+
+  it("converts pasted HTML to Markdown lines through the paste pipeline", () => {
+    const onChange = vi.fn();
+    render(<HybridMarkdownEditor value="ab" onChange={onChange} />);
+    activateLine("ab");
+    const textarea = screen.getByRole("textbox") as HTMLTextAreaElement;
+    setCaret(textarea, 1);
+    fireEvent.paste(
+      textarea,
+      pasteData({
+        "text/html": "<h1>Doc</h1><ul><li><b>one</b></li><li>two</li></ul>",
+        "text/plain": "Doc\none\ntwo",
+      })
+    );
+    expect(onChange).toHaveBeenLastCalledWith("a# Doc\n\n- **one**\n- twob");
+    expect((screen.getByLabelText("Markdown line 4") as HTMLTextAreaElement).selectionStart).toBe(5);
+  });
+
+  it("inserts single-line conversions at the caret", () => {
+    const onChange = vi.fn();
+    render(<HybridMarkdownEditor value="ab" onChange={onChange} />);
+    activateLine("ab");
+    const textarea = screen.getByRole("textbox") as HTMLTextAreaElement;
+    setCaret(textarea, 1);
+    fireEvent.paste(textarea, pasteData({ "text/html": '<a href="/x">link</a>', "text/plain": "link" }));
+    expect(onChange).toHaveBeenLastCalledWith("a[link](/x)b");
+    expect((screen.getByRole("textbox") as HTMLTextAreaElement).selectionStart).toBe(11);
+  });
+
+  it("pastes the plain-text flavor exactly when the HTML only wraps plain text", () => {
+    const onChange = vi.fn();
+    render(<HybridMarkdownEditor value="x" onChange={onChange} />);
+    activateLine("x");
+    const textarea = screen.getByRole("textbox") as HTMLTextAreaElement;
+    setCaret(textarea, 0);
+    fireEvent.paste(
+      textarea,
+      pasteData({
+        "text/html":
+          '<div style="white-space: pre;"><div><span>def f(a_b, c):</span></div><div><span>    return a_b * c;</span></div></div>',
+        "text/plain": "def f(a_b, c):\n    return a_b * c;",
+      })
+    );
+    expect(onChange).toHaveBeenLastCalledWith("def f(a_b, c):\n    return a_b * c;x");
+
+    // A single plain-text line is left to the textarea's native paste.
+    expect(
+      fireEvent.paste(
+        screen.getByRole("textbox"),
+        pasteData({ "text/html": "<span>use *args</span>", "text/plain": "use *args" })
+      )
+    ).toBe(true);
+    expect(onChange).toHaveBeenCalledTimes(1);
+  });
+
+  it("can be disabled or customized", () => {
+    const onChange = vi.fn();
+    const html = { "text/html": "<p><em>x</em></p><p>y</p>", "text/plain": "x\ny" };
+    const { rerender } = render(
+      <HybridMarkdownEditor value="z" onChange={onChange} options={{ pasteHtmlAsMarkdown: false }} />
+    );
+    activateLine("z");
+    setCaret(screen.getByRole("textbox") as HTMLTextAreaElement, 1);
+    fireEvent.paste(screen.getByRole("textbox"), pasteData(html));
+    expect(onChange).toHaveBeenLastCalledWith("zx\ny");
+
+    rerender(
+      <HybridMarkdownEditor
+        value={"zx\ny"}
+        onChange={onChange}
+        options={{ htmlToMarkdown: (source, convert) => convert(source).toUpperCase() }}
+      />
+    );
+    const textarea = screen.getByLabelText("Markdown line 2") as HTMLTextAreaElement;
+    setCaret(textarea, 1);
+    fireEvent.paste(textarea, pasteData(html));
+    expect(onChange).toHaveBeenLastCalledWith("zx\ny*X*\n\nY");
+  });
+
+  it("pastes the editor's own copied HTML as its exact Markdown source", () => {
+    const onChange = vi.fn();
+    const { container } = render(<HybridMarkdownEditor value={"# Title\n- item\nend"} onChange={onChange} />);
+    const sources = container.querySelectorAll('[data-role="source-content"]');
+    const range = document.createRange();
+    range.setStart(sources[0].firstChild!, 0);
+    range.setEnd(sources[1].firstChild!, 4);
+    window.getSelection()!.removeAllRanges();
+    window.getSelection()!.addRange(range);
+    const data: Record<string, string> = {};
+    fireEvent.copy(document, { clipboardData: { setData: (type: string, value: string) => (data[type] = value) } });
+    window.getSelection()!.removeAllRanges();
+
+    activateLine("end");
+    const textarea = screen.getByRole("textbox") as HTMLTextAreaElement;
+    setCaret(textarea, 0);
+    fireEvent.paste(textarea, pasteData(data));
+    expect(onChange).toHaveBeenLastCalledWith("# Title\n- item\n# Title\n- itemend");
+  });
+});
+
+describe("HybridMarkdownEditor image uploads", () => {
+  const imageFile = (name: string) => new File(["data"], name, { type: "image/png" });
+  const deferred = () => {
+    let resolve!: (url: string) => void;
+    let reject!: (error: Error) => void;
+    const promise = new Promise<string>((res, rej) => {
+      resolve = res;
+      reject = rej;
+    });
+    return { promise, resolve, reject };
+  };
+
+  it("inserts a placeholder on paste and replaces it with the uploaded image", async () => {
+    const onChange = vi.fn();
+    const upload = deferred();
+    const onUploadFile = vi.fn(() => upload.promise);
+    const { container } = render(<HybridMarkdownEditor value="intro" onChange={onChange} onUploadFile={onUploadFile} />);
+    activateLine("intro");
+    fireEvent.paste(screen.getByRole("textbox"), {
+      clipboardData: { files: [imageFile("my photo.png")], getData: () => "" },
+    });
+    expect(onChange).toHaveBeenLastCalledWith("intro\n![Uploading…]()");
+
+    await act(async () => {
+      upload.resolve("https://cdn.test/my photo.png");
+      await upload.promise;
+    });
+    expect(onUploadFile).toHaveBeenCalledTimes(1);
+    expect(onChange).toHaveBeenLastCalledWith("intro\n![my photo](https://cdn.test/my%20photo.png)");
+    act(() => {
+      fireEvent.mouseUp(screen.getByText("intro"));
+    });
+    const img = container.querySelector('img[data-role="inline-image"]') as HTMLImageElement;
+    expect(img.getAttribute("src")).toBe("https://cdn.test/my%20photo.png");
+    expect(img.alt).toBe("my photo");
+  });
+
+  it("removes the placeholder when the upload fails", async () => {
+    const onChange = vi.fn();
+    const upload = deferred();
+    render(<HybridMarkdownEditor value={"a\nb"} onChange={onChange} onUploadFile={() => upload.promise} />);
+    fireEvent.drop(screen.getByText("a"), { dataTransfer: { files: [imageFile("x.png")], types: ["Files"] } });
+    expect(onChange).toHaveBeenLastCalledWith("a\n![Uploading…]()\nb");
+    expect(screen.getByText("Uploading…")).toBeTruthy();
+
+    await act(async () => {
+      upload.reject(new Error("offline"));
+      await upload.promise.catch(() => undefined);
+    });
+    expect(onChange).toHaveBeenLastCalledWith("a\nb");
+  });
+
+  it("finds each placeholder by line identity after edits above it", async () => {
+    const onChange = vi.fn();
+    const first = deferred();
+    const second = deferred();
+    const uploads = [first.promise, second.promise];
+    const ref = React.createRef<HybridMarkdownEditorHandle>();
+    render(
+      <HybridMarkdownEditor ref={ref} value="" onChange={onChange} onUploadFile={() => uploads.shift()!} />
+    );
+    const line = document.querySelector('[data-line-index="0"]')!;
+    fireEvent.drop(line, { dataTransfer: { files: [imageFile("one.png"), imageFile("two.png")], types: ["Files"] } });
+    expect(onChange).toHaveBeenLastCalledWith("![Uploading…]()\n![Uploading…]()");
+
+    act(() => ref.current!.replaceRange({ line: 0, column: 0 }, { line: 0, column: 0 }, "title\n"));
+    await act(async () => {
+      second.resolve("/two.png");
+      await second.promise;
+    });
+    expect(onChange).toHaveBeenLastCalledWith("title\n![Uploading…]()\n![two](/two.png)");
+    await act(async () => {
+      first.resolve("/one.png");
+      await first.promise;
+    });
+    expect(onChange).toHaveBeenLastCalledWith("title\n![one](/one.png)\n![two](/two.png)");
+  });
+
+  it("settles into the insert's undo step instead of adding its own", async () => {
+    const onChange = vi.fn();
+    const upload = deferred();
+    const ref = React.createRef<HybridMarkdownEditorHandle>();
+    render(<HybridMarkdownEditor ref={ref} value="intro" onChange={onChange} onUploadFile={() => upload.promise} />);
+    activateLine("intro");
+    fireEvent.paste(screen.getByRole("textbox"), { clipboardData: { files: [imageFile("a.png")], getData: () => "" } });
+    await act(async () => {
+      upload.resolve("/a.png");
+      await upload.promise;
+    });
+    expect(onChange).toHaveBeenLastCalledWith("intro\n![a](/a.png)");
+
+    act(() => {
+      ref.current!.executeCommand("undo");
+    });
+    expect(onChange).toHaveBeenLastCalledWith("intro");
+    act(() => {
+      ref.current!.executeCommand("redo");
+    });
+    expect(onChange).toHaveBeenLastCalledWith("intro\n![a](/a.png)");
+  });
+
+  it("settles an upload that was undone into the redo step", async () => {
+    const onChange = vi.fn();
+    const upload = deferred();
+    const ref = React.createRef<HybridMarkdownEditorHandle>();
+    render(<HybridMarkdownEditor ref={ref} value="intro" onChange={onChange} onUploadFile={() => upload.promise} />);
+    fireEvent.drop(screen.getByText("intro"), { dataTransfer: { files: [imageFile("a.png")], types: ["Files"] } });
+    act(() => {
+      ref.current!.executeCommand("undo");
+    });
+    await act(async () => {
+      upload.resolve("/a.png");
+      await upload.promise;
+    });
+    expect(onChange).toHaveBeenLastCalledWith("intro");
+    act(() => {
+      ref.current!.executeCommand("redo");
+    });
+    expect(onChange).toHaveBeenLastCalledWith("intro\n![a](/a.png)");
+  });
+
+  it("drops onto the line under the pointer when it lands on a virtual spacer", () => {
+    const onChange = vi.fn();
+    const value = Array.from({ length: 1000 }, (_, i) => `line ${i}`).join("\n");
+    const { container } = render(
+      <HybridMarkdownEditor
+        value={value}
+        onChange={onChange}
+        onUploadFile={() => new Promise<string>(() => {})}
+        options={{ virtualize: true, estimatedLineHeight: 24 }}
+      />
+    );
+    const spacer = container.querySelector('[data-role="virtual-spacer"]')!;
+    const drop = createEvent.drop(spacer, { dataTransfer: { files: [imageFile("x.png")], types: ["Files"] } });
+    // jsdom has no DragEvent, so the generic event it creates lacks clientY.
+    Object.defineProperty(drop, "clientY", { value: 500 * 24 + 5 });
+    fireEvent(spacer, drop);
+    expect((onChange.mock.calls[0][0] as string).split("\n").slice(499, 503)).toEqual([
+      "line 499",
+      "line 500",
+      "![Uploading…]()",
+      "line 501",
+    ]);
+  });
+
+  it("ignores non-image files and editors without an upload handler", () => {
+    const onChange = vi.fn();
+    const { rerender } = render(<HybridMarkdownEditor value="a" onChange={onChange} />);
+    fireEvent.drop(screen.getByText("a"), { dataTransfer: { files: [imageFile("x.png")], types: ["Files"] } });
+    rerender(<HybridMarkdownEditor value="a" onChange={onChange} onUploadFile={async () => "/x"} />);
+    fireEvent.drop(screen.getByText("a"), {
+      dataTransfer: { files: [new File(["x"], "notes.txt", { type: "text/plain" })], types: ["Files"] },
+    });
+    expect(onChange).not.toHaveBeenCalled();
+  });
+});
+
+describe("HybridMarkdownEditor line moves", () => {
+  const dragData = (id: string) => ({
+    types: ["application/x-hybrid-markdown-line"],
+    getData: (type: string) => (type === "application/x-hybrid-markdown-line" ? id : ""),
+    setData: vi.fn(),
+    dropEffect: "none",
+  });
+
+  it("moves the active line with Alt+Arrow keys and keeps the caret on it", () => {
+    const onChange = vi.fn();
+    render(<HybridMarkdownEditor value={"one\ntwo\nthree"} onChange={onChange} />);
+    activateLine("two");
+    const textarea = screen.getByRole("textbox") as HTMLTextAreaElement;
+    setCaret(textarea, 2);
+    fireEvent.keyDown(textarea, { key: "ArrowUp", altKey: true });
+    expect(onChange).toHaveBeenLastCalledWith("two\none\nthree");
+
+    const moved = screen.getByLabelText("Markdown line 1") as HTMLTextAreaElement;
+    expect(moved.value).toBe("two");
+    expect(moved.selectionStart).toBe(2);
+    setCaret(moved, 2);
+    fireEvent.keyDown(moved, { key: "ArrowDown", altKey: true });
+    fireEvent.keyDown(screen.getByLabelText("Markdown line 2"), { key: "ArrowDown", altKey: true });
+    expect(onChange).toHaveBeenLastCalledWith("one\nthree\ntwo");
+    expect((screen.getByLabelText("Markdown line 3") as HTMLTextAreaElement).value).toBe("two");
+  });
+
+  it("moves a list item together with its nested subtree as one undo step", () => {
+    const onChange = vi.fn();
+    render(<HybridMarkdownEditor value={"- a\n  - a1\n- b\n  - b1"} onChange={onChange} />);
+    activateLine("b");
+    const textarea = screen.getByRole("textbox");
+    fireEvent.keyDown(textarea, { key: "ArrowUp", altKey: true });
+    expect(onChange).toHaveBeenLastCalledWith("- b\n  - b1\n- a\n  - a1");
+    expect((screen.getByLabelText("Markdown line 1") as HTMLTextAreaElement).value).toBe("- b");
+
+    fireEvent.keyDown(screen.getByLabelText("Markdown line 1"), { key: "z", ctrlKey: true });
+    expect(onChange).toHaveBeenLastCalledWith("- a\n  - a1\n- b\n  - b1");
+  });
+
+  it("renders drag handles only when enabled and reorders lines on drop", () => {
+    const onChange = vi.fn();
+    const { container, rerender } = render(<HybridMarkdownEditor value={"- a\n  - a1\nb\nc"} onChange={onChange} />);
+    expect(container.querySelector('[data-role="drag-handle"]')).toBeNull();
+
+    rerender(
+      <HybridMarkdownEditor value={"- a\n  - a1\nb\nc"} onChange={onChange} options={{ dragHandles: true }} />
+    );
+    const handles = container.querySelectorAll('[data-role="drag-handle"]');
+    expect(handles).toHaveLength(4);
+    const dataTransfer = dragData("");
+    fireEvent.dragStart(handles[0], { dataTransfer });
+    const [, draggedId] = dataTransfer.setData.mock.calls[0];
+
+    // jsdom rects are empty, so a drop at clientY 0 lands after the target line.
+    fireEvent.dragOver(screen.getByText("b"), { dataTransfer: dragData(draggedId) });
+    fireEvent.drop(screen.getByText("b"), { dataTransfer: dragData(draggedId), clientY: 0 });
+    expect(onChange).toHaveBeenLastCalledWith("b\n- a\n  - a1\nc");
+    expect((screen.getByLabelText("Markdown line 2") as HTMLTextAreaElement).value).toBe("- a");
+  });
+
+  it("hides drag handles in readOnly mode", () => {
+    const { container } = render(<HybridMarkdownEditor value={"a\nb"} readOnly options={{ dragHandles: true }} />);
+    expect(container.querySelector('[data-role="drag-handle"]')).toBeNull();
+  });
+});
+
+describe("HybridMarkdownEditor find and replace", () => {
+  const marks = (container: HTMLElement) =>
+    Array.from(container.querySelectorAll('[data-role="line-preview"] mark[data-role="search-match"]'));
+
+  it("highlights matches in the preview without changing the rendered text", () => {
+    const ref = React.createRef<HybridMarkdownEditorHandle>();
+    const { container } = render(
+      <HybridMarkdownEditor ref={ref} value={"- a **cat** here\ncatalog"} />
+    );
+    let matches: ReturnType<HybridMarkdownEditorHandle["find"]> = [];
+    act(() => {
+      matches = ref.current!.find({ text: "cat" });
+    });
+    expect(matches).toEqual([
+      { line: 0, start: 6, end: 9 },
+      { line: 1, start: 0, end: 3 },
+    ]);
+    expect(marks(container).map((mark) => mark.textContent)).toEqual(["cat", "cat"]);
+    expect(container.querySelector("strong mark")).toBeTruthy();
+    expect(screen.getByText("here", { exact: false }).closest('[data-role="source-content"]')!.textContent).toBe(
+      "a cat here"
+    );
+
+    act(() => {
+      ref.current!.find(null);
+    });
+    expect(marks(container)).toHaveLength(0);
+  });
+
+  it("lays out the textarea highlights with the textarea's computed font metrics", () => {
+    const style = document.createElement("style");
+    style.textContent = ".big-textarea { font-size: 22px; line-height: 30px; letter-spacing: 1px; }";
+    document.head.appendChild(style);
+    try {
+      const ref = React.createRef<HybridMarkdownEditorHandle>();
+      const { container } = render(
+        <HybridMarkdownEditor ref={ref} value={"one cat"} classNames={{ textarea: "big-textarea" }} />
+      );
+      act(() => {
+        ref.current!.find({ text: "cat" });
+      });
+      act(() => {
+        ref.current!.findNext();
+      });
+      const overlay = container.querySelector('[data-role="search-highlights"]') as HTMLElement;
+      expect([overlay.style.fontSize, overlay.style.lineHeight, overlay.style.letterSpacing]).toEqual([
+        "22px",
+        "30px",
+        "1px",
+      ]);
+    } finally {
+      style.remove();
+    }
+  });
+
+  it("selects each hit in its activated line and wraps around", () => {
+    const ref = React.createRef<HybridMarkdownEditorHandle>();
+    const { container } = render(<HybridMarkdownEditor ref={ref} value={"one cat\ntwo\ncat three"} />);
+    act(() => {
+      ref.current!.find({ text: "cat" });
+    });
+    act(() => {
+      ref.current!.findNext();
+    });
+    let textarea = screen.getByRole("textbox") as HTMLTextAreaElement;
+    expect(textarea.value).toBe("one cat");
+    expect([textarea.selectionStart, textarea.selectionEnd]).toEqual([4, 7]);
+    expect(container.querySelector('[data-role="search-highlights"] mark')?.getAttribute("data-active")).toBe("true");
+
+    act(() => {
+      ref.current!.findNext();
+    });
+    textarea = screen.getByRole("textbox") as HTMLTextAreaElement;
+    expect(textarea.value).toBe("cat three");
+    expect([textarea.selectionStart, textarea.selectionEnd]).toEqual([0, 3]);
+
+    act(() => {
+      ref.current!.findNext();
+    });
+    expect((screen.getByRole("textbox") as HTMLTextAreaElement).value).toBe("one cat");
+    act(() => {
+      ref.current!.findPrevious();
+    });
+    expect((screen.getByRole("textbox") as HTMLTextAreaElement).value).toBe("cat three");
+  });
+
+  it("replaces the current match and replaces all matches as one undo step", () => {
+    const onChange = vi.fn();
+    const ref = React.createRef<HybridMarkdownEditorHandle>();
+    render(<HybridMarkdownEditor ref={ref} value={"cat cat\ncat"} onChange={onChange} />);
+    act(() => {
+      ref.current!.find({ text: "cat" });
+    });
+    act(() => {
+      expect(ref.current!.replace("dog")).toBe(false);
+    });
+    expect(onChange).not.toHaveBeenCalled();
+    act(() => {
+      expect(ref.current!.replace("cats")).toBe(true);
+    });
+    expect(onChange).toHaveBeenLastCalledWith("cats cat\ncat");
+    const textarea = screen.getByRole("textbox") as HTMLTextAreaElement;
+    expect([textarea.selectionStart, textarea.selectionEnd]).toEqual([5, 8]);
+
+    act(() => {
+      expect(ref.current!.replaceAll("dog")).toBe(3);
+    });
+    expect(onChange).toHaveBeenCalledTimes(2);
+    expect(onChange).toHaveBeenLastCalledWith("dogs dog\ndog");
+    fireEvent.keyDown(screen.getByRole("textbox"), { key: "z", ctrlKey: true });
+    expect(onChange).toHaveBeenLastCalledWith("cats cat\ncat");
+  });
+
+  it("opens the find panel with Ctrl/Cmd+F and keeps focus in it while stepping", () => {
+    const onChange = vi.fn();
+    const { container } = render(
+      <HybridMarkdownEditor value={"alpha beta\nBeta gamma"} onChange={onChange} options={{ findPanel: true }} />
+    );
+    activateLine("alpha beta");
+    const textarea = screen.getByRole("textbox", { name: "Markdown line 1" }) as HTMLTextAreaElement;
+    textarea.setSelectionRange(6, 10);
+    fireEvent.keyDown(textarea, { key: "f", ctrlKey: true });
+
+    const findInput = screen.getByRole("textbox", { name: "Find" }) as HTMLInputElement;
+    expect(findInput.value).toBe("beta");
+    expect(document.activeElement).toBe(findInput);
+    expect(screen.getByText("2 results")).toBeTruthy();
+
+    fireEvent.click(screen.getByRole("button", { name: "Match case" }));
+    expect(screen.getByRole("button", { name: "Match case" }).getAttribute("aria-pressed")).toBe("true");
+    expect(screen.getByText("1 result")).toBeTruthy();
+    fireEvent.click(screen.getByRole("button", { name: "Match case" }));
+
+    fireEvent.keyDown(findInput, { key: "Enter" });
+    fireEvent.keyDown(findInput, { key: "Enter" });
+    expect(screen.getByText("2 of 2")).toBeTruthy();
+    const active = screen.getByRole("textbox", { name: "Markdown line 2" }) as HTMLTextAreaElement;
+    expect([active.selectionStart, active.selectionEnd]).toEqual([0, 4]);
+    expect(document.activeElement).toBe(findInput);
+
+    fireEvent.change(screen.getByRole("textbox", { name: "Replace" }), { target: { value: "delta" } });
+    fireEvent.click(screen.getByRole("button", { name: "Replace all" }));
+    expect(onChange).toHaveBeenLastCalledWith("alpha delta\ndelta gamma");
+    expect(screen.getByText("No results")).toBeTruthy();
+
+    fireEvent.change(findInput, { target: { value: "(" } });
+    fireEvent.click(screen.getByRole("button", { name: "Use regular expression" }));
+    expect(screen.getByText("Invalid pattern")).toBeTruthy();
+
+    fireEvent.keyDown(findInput, { key: "Escape" });
+    expect(container.querySelector('[data-role="find-panel"]')).toBeNull();
+  });
+
+  it("does not open the panel unless enabled and hides replace in readOnly mode", () => {
+    const ref = React.createRef<HybridMarkdownEditorHandle>();
+    const { container, rerender } = render(<HybridMarkdownEditor ref={ref} value="text" />);
+    act(() => ref.current!.openFindPanel());
+    expect(container.querySelector('[data-role="find-panel"]')).toBeNull();
+
+    rerender(<HybridMarkdownEditor ref={ref} value="text" readOnly options={{ findPanel: true }} />);
+    act(() => ref.current!.openFindPanel());
+    expect(container.querySelector('[data-role="find-panel"]')).toBeTruthy();
+    expect(screen.queryByRole("textbox", { name: "Replace" })).toBeNull();
+    fireEvent.change(screen.getByRole("textbox", { name: "Find" }), { target: { value: "ex" } });
+    expect(marks(container).map((mark) => mark.textContent)).toEqual(["ex"]);
+  });
+});
+
+describe("HybridMarkdownEditor commands and keymap", () => {
+  it("toggles inline marks around the selection with the default bindings", () => {
+    const onChange = vi.fn();
+    render(<HybridMarkdownEditor value="- make this bold" onChange={onChange} />);
+    activateLine("make this bold");
+    let textarea = screen.getByRole("textbox") as HTMLTextAreaElement;
+    setCaret(textarea, 12, 16);
+    fireEvent.keyDown(textarea, { key: "b", ctrlKey: true });
+    expect(onChange).toHaveBeenLastCalledWith("- make this **bold**");
+    textarea = screen.getByRole("textbox") as HTMLTextAreaElement;
+    expect([textarea.selectionStart, textarea.selectionEnd]).toEqual([14, 18]);
+
+    setCaret(textarea, 15);
+    fireEvent.keyDown(textarea, { key: "b", metaKey: true });
+    expect(onChange).toHaveBeenLastCalledWith("- make this bold");
+    expect((screen.getByRole("textbox") as HTMLTextAreaElement).selectionStart).toBe(13);
+
+    setCaret(screen.getByRole("textbox") as HTMLTextAreaElement, 7);
+    fireEvent.keyDown(screen.getByRole("textbox"), { key: "i", ctrlKey: true });
+    expect(onChange).toHaveBeenLastCalledWith("- make **this bold");
+  });
+
+  it("remaps and unbinds built-in keys through the keymap prop", () => {
+    const onChange = vi.fn();
+    render(
+      <HybridMarkdownEditor
+        value={"- item"}
+        onChange={onChange}
+        keymap={{ Tab: null, "Mod-]": "indentList", "Mod-[": "dedentList" }}
+      />
+    );
+    activateLine("item");
+    const textarea = screen.getByRole("textbox") as HTMLTextAreaElement;
+    setCaret(textarea, 6);
+    expect(fireEvent.keyDown(textarea, { key: "Tab" })).toBe(true);
+    expect(onChange).not.toHaveBeenCalled();
+
+    fireEvent.keyDown(textarea, { key: "]", ctrlKey: true });
+    expect(onChange).toHaveBeenLastCalledWith("  - item");
+    fireEvent.keyDown(screen.getByRole("textbox"), { key: "[", ctrlKey: true });
+    expect(onChange).toHaveBeenLastCalledWith("- item");
+  });
+
+  it("runs extension commands from keymaps, falls through unhandled ones, and overrides built-ins", () => {
+    const onChange = vi.fn();
+    const calls: string[] = [];
+    const extension: EditorExtension = {
+      commands: {
+        stamp: ({ api, active }) => {
+          if (!active) return false;
+          api.setLine(active.index, `${active.line} ✓`);
+          return true;
+        },
+        maybe: () => {
+          calls.push("maybe");
+          return false;
+        },
+        splitLine: ({ active }) => {
+          calls.push(`split ${active?.index}`);
+          return true;
+        },
+      },
+      keymap: { "Mod-k": ["maybe", "stamp"] },
+    };
+    render(<HybridMarkdownEditor value="task" onChange={onChange} extensions={[extension]} />);
+    activateLine("task");
+    const textarea = screen.getByRole("textbox");
+    fireEvent.keyDown(textarea, { key: "k", ctrlKey: true });
+    expect(onChange).toHaveBeenLastCalledWith("task ✓");
+
+    fireEvent.keyDown(screen.getByRole("textbox"), { key: "Enter" });
+    expect(calls).toEqual(["maybe", "split 0"]);
+    expect(onChange).toHaveBeenCalledTimes(1);
+  });
+
+  it("never lets an unhandled Enter chord or a pasted newline leave a newline inside a line", () => {
+    const onChange = vi.fn();
+    render(<HybridMarkdownEditor value="abcdef" onChange={onChange} keymap={{ Enter: null }} />);
+    activateLine("abcdef");
+    const textarea = screen.getByRole("textbox") as HTMLTextAreaElement;
+    setCaret(textarea, 3);
+    expect(fireEvent.keyDown(textarea, { key: "Enter", altKey: true })).toBe(false);
+    expect(fireEvent.keyDown(textarea, { key: "Enter", altKey: true, shiftKey: true })).toBe(false);
+    expect(fireEvent.keyDown(textarea, { key: "Enter", ctrlKey: true, shiftKey: true })).toBe(false);
+    expect(fireEvent.keyDown(textarea, { key: "Enter" })).toBe(false);
+    expect(onChange).not.toHaveBeenCalled();
+
+    fireEvent.change(textarea, { target: { value: "abc\ndef" } });
+    expect(onChange).toHaveBeenLastCalledWith("abc\ndef");
+    const active = screen.getByRole("textbox") as HTMLTextAreaElement;
+    expect(active.value).toBe("def");
+    expect(active.selectionStart).toBe(3);
+  });
+
+  it("executes commands through the ref handle and the extension API", () => {
+    const onChange = vi.fn();
+    const ref = React.createRef<HybridMarkdownEditorHandle>();
+    let api: ExtensionApi | null = null;
+    const extension: EditorExtension = {
+      onKeyDown: (_event, extensionApi) => {
+        api = extensionApi;
+      },
+    };
+    render(<HybridMarkdownEditor ref={ref} value={"a\nb"} onChange={onChange} extensions={[extension]} />);
+    expect(ref.current!.executeCommand("moveLineDown")).toBe(false);
+    expect(ref.current!.executeCommand("unknown")).toBe(false);
+
+    act(() => ref.current!.focus(0, 1));
+    act(() => {
+      expect(ref.current!.executeCommand("moveLineDown")).toBe(true);
+    });
+    expect(onChange).toHaveBeenLastCalledWith("b\na");
+
+    fireEvent.keyDown(screen.getByRole("textbox"), { key: "x" });
+    act(() => {
+      expect(api!.executeCommand("undo")).toBe(true);
+    });
+    expect(onChange).toHaveBeenLastCalledWith("a\nb");
+  });
+});
+
+describe("HybridMarkdownEditor toolbar", () => {
+  const ToolbarHarness = ({
+    initialValue,
+    onChange,
+    toolbarProps,
+  }: {
+    initialValue: string;
+    onChange?: (value: string) => void;
+    toolbarProps?: Partial<HybridMarkdownToolbarProps>;
+  }) => {
+    const [value, setValue] = useState(initialValue);
+    const ref = React.useRef<HybridMarkdownEditorHandle>(null);
+    return (
+      <>
+        <HybridMarkdownToolbar editor={ref} {...toolbarProps} />
+        <HybridMarkdownEditor
+          ref={ref}
+          value={value}
+          onChange={(next) => {
+            setValue(next);
+            onChange?.(next);
+          }}
+        />
+      </>
+    );
+  };
+
+  it("disables buttons until a line is active and reflects the active line's format", () => {
+    render(<ToolbarHarness initialValue={"## Title\nplain"} />);
+    const h2 = screen.getByRole("button", { name: "Heading 2" });
+    expect((h2 as HTMLButtonElement).disabled).toBe(true);
+
+    activateLine("Title");
+    expect((h2 as HTMLButtonElement).disabled).toBe(false);
+    expect(h2.getAttribute("aria-pressed")).toBe("true");
+    expect(screen.getByRole("button", { name: "Heading 1" }).getAttribute("aria-pressed")).toBe("false");
+
+    activateLine("plain");
+    expect(h2.getAttribute("aria-pressed")).toBe("false");
+  });
+
+  it("subscribes to an editor that mounts after the toolbar", () => {
+    const LateHarness = () => {
+      const [showEditor, setShowEditor] = useState(false);
+      const ref = React.useRef<HybridMarkdownEditorHandle>(null);
+      return (
+        <>
+          <HybridMarkdownToolbar editor={ref} />
+          <button type="button" onClick={() => setShowEditor(true)}>
+            Show editor
+          </button>
+          {showEditor ? <HybridMarkdownEditor ref={ref} value={"## Title"} onChange={() => {}} /> : null}
+        </>
+      );
+    };
+    render(<LateHarness />);
+    fireEvent.click(screen.getByRole("button", { name: "Show editor" }));
+    const h2 = screen.getByRole("button", { name: "Heading 2" });
+    expect((h2 as HTMLButtonElement).disabled).toBe(true);
+
+    activateLine("Title");
+    expect((h2 as HTMLButtonElement).disabled).toBe(false);
+    expect(h2.getAttribute("aria-pressed")).toBe("true");
+  });
+
+  it("applies block formats to the active line and keeps the caret on the content", () => {
+    const onChange = vi.fn();
+    render(<ToolbarHarness initialValue={"1. first\nsecond"} onChange={onChange} />);
+    activateLine("second");
+    setCaret(screen.getByRole("textbox") as HTMLTextAreaElement, 3);
+
+    fireEvent.click(screen.getByRole("button", { name: "Numbered list" }));
+    expect(onChange).toHaveBeenLastCalledWith("1. first\n2. second");
+    const textarea = screen.getByRole("textbox") as HTMLTextAreaElement;
+    expect(textarea.selectionStart).toBe(6);
+    expect(screen.getByRole("button", { name: "Numbered list" }).getAttribute("aria-pressed")).toBe("true");
+
+    fireEvent.click(screen.getByRole("button", { name: "Heading 1" }));
+    expect(onChange).toHaveBeenLastCalledWith("1. first\n# second");
+    fireEvent.click(screen.getByRole("button", { name: "Heading 1" }));
+    expect(onChange).toHaveBeenLastCalledWith("1. first\nsecond");
+  });
+
+  it("wraps the textarea selection and shows inline marks as active", () => {
+    const onChange = vi.fn();
+    render(<ToolbarHarness initialValue="make this bold" onChange={onChange} />);
+    activateLine("make this bold");
+    setCaret(screen.getByRole("textbox") as HTMLTextAreaElement, 5, 9);
+
+    const bold = screen.getByRole("button", { name: "Bold" });
+    expect(bold.getAttribute("aria-pressed")).toBe("false");
+    fireEvent.click(bold);
+    expect(onChange).toHaveBeenLastCalledWith("make **this** bold");
+    expect(bold.getAttribute("aria-pressed")).toBe("true");
+    expect(screen.getByRole("button", { name: "Italic" }).getAttribute("aria-pressed")).toBe("false");
+  });
+
+  it("accepts custom items, classNames and styles", () => {
+    const onChange = vi.fn();
+    render(
+      <ToolbarHarness
+        initialValue="# Title"
+        onChange={onChange}
+        toolbarProps={{
+          items: [
+            { command: "toggleHeading1", label: "Big", isActive: (state) => !state.active },
+            "separator",
+            { command: "undo", label: "Undo" },
+          ],
+          className: "bar",
+          classNames: { root: "toolbar-root", button: "tb", activeButton: "tb-on", separator: "tb-sep" },
+          styles: { button: { color: "red" }, activeButton: { fontWeight: "bold" } },
+        }}
+      />
+    );
+    const toolbar = screen.getByRole("toolbar");
+    expect(toolbar.className).toBe("bar toolbar-root");
+    expect(screen.getByRole("separator").className).toBe("tb-sep");
+
+    activateLine("Title");
+    const big = screen.getByRole("button", { name: "Big" });
+    const undo = screen.getByRole("button", { name: "Undo" });
+    expect(big.getAttribute("aria-pressed")).toBe("false");
+    expect(big.className).toBe("tb");
+        expect((undo as HTMLButtonElement).disabled).toBe(true);
+
+    fireEvent.click(big);
+    expect(onChange).toHaveBeenLastCalledWith("Title");
+    expect(big.className).toBe("tb tb-on");
+    expect(big.style.fontWeight).toBe("bold");
+    expect(big.style.color).toBe("red");
+    expect((undo as HTMLButtonElement).disabled).toBe(false);
+  });
+});
+
+describe("HybridMarkdownEditor slash commands", () => {
+  const SlashHarness = ({
+    initialValue,
+    onChange,
+    extensions = [createSlashCommandExtension()],
+  }: {
+    initialValue: string;
+    onChange?: (value: string) => void;
+    extensions?: EditorExtension[];
+  }) => {
+    const [value, setValue] = useState(initialValue);
+    return (
+      <HybridMarkdownEditor
+        value={value}
+        onChange={(next) => {
+          setValue(next);
+          onChange?.(next);
+        }}
+        extensions={extensions}
+      />
+    );
+  };
+
+  const typeSlash = (text: string) => {
+    const textarea = screen.getByRole("textbox") as HTMLTextAreaElement;
+    fireEvent.change(textarea, { target: { value: text } });
+    return screen.getByRole("textbox") as HTMLTextAreaElement;
+  };
+
+  const activateEmptyLine = (container: HTMLElement, index: number) => {
+    fireEvent.mouseUp(container.querySelector(`[data-line-index="${index}"] [data-role="line-preview"]`)!);
+  };
+
+  it("opens a filterable listbox when / is typed into an empty line", () => {
+    const { container } = render(<SlashHarness initialValue={"intro\n"} />);
+    activateEmptyLine(container, 1);
+    const textarea = typeSlash("/");
+
+    const menu = screen.getByRole("listbox", { name: "Insert block" });
+    expect(screen.getAllByRole("option").map((option) => option.textContent)).toContain("Code block");
+    expect(textarea.getAttribute("aria-controls")).toBe(menu.id);
+    expect(textarea.getAttribute("aria-activedescendant")).toBe(screen.getAllByRole("option")[0].id);
+
+    typeSlash("/head");
+    expect(screen.getAllByRole("option").map((option) => option.textContent)).toEqual([
+      "Heading 1",
+      "Heading 2",
+      "Heading 3",
+      "Heading 4",
+    ]);
+
+    typeSlash("/nothing matches");
+    expect(screen.queryByRole("listbox")).toBeNull();
+    expect(screen.getByRole("textbox").getAttribute("aria-controls")).toBeNull();
+  });
+
+  it("picks items with the arrow keys and Enter and transforms the line", () => {
+    const onChange = vi.fn();
+    const { container } = render(<SlashHarness initialValue={"intro\n"} onChange={onChange} />);
+    activateEmptyLine(container, 1);
+    typeSlash("/");
+    typeSlash("/head");
+
+    const textarea = screen.getByRole("textbox");
+    fireEvent.keyDown(textarea, { key: "ArrowDown" });
+    fireEvent.keyDown(textarea, { key: "ArrowDown" });
+    fireEvent.keyDown(textarea, { key: "ArrowUp" });
+    expect(screen.getAllByRole("option")[1].getAttribute("aria-selected")).toBe("true");
+    fireEvent.keyDown(textarea, { key: "Enter" });
+
+    expect(onChange).toHaveBeenLastCalledWith("intro\n## ");
+    expect(screen.queryByRole("listbox")).toBeNull();
+    expect((screen.getByRole("textbox") as HTMLTextAreaElement).selectionStart).toBe(3);
+  });
+
+  it("inserts multi-line blocks with the caret inside and supports mouse picks", () => {
+    const onChange = vi.fn();
+    const { container } = render(<SlashHarness initialValue={"intro\n"} onChange={onChange} />);
+    activateEmptyLine(container, 1);
+    typeSlash("/");
+    typeSlash("/code");
+    fireEvent.click(screen.getByRole("option", { name: "Code block" }));
+
+    expect(onChange).toHaveBeenLastCalledWith("intro\n```\n\n```");
+    const textarea = screen.getByRole("textbox") as HTMLTextAreaElement;
+    expect(textarea.getAttribute("aria-label")).toBe("Markdown line 3");
+    expect(textarea.value).toBe("");
+  });
+
+  it("closes on Escape and stays closed while typing", () => {
+    const onChange = vi.fn();
+    const { container } = render(<SlashHarness initialValue={"intro\n"} onChange={onChange} />);
+    activateEmptyLine(container, 1);
+    const textarea = typeSlash("/");
+    fireEvent.keyDown(textarea, { key: "Escape" });
+    expect(screen.queryByRole("listbox")).toBeNull();
+
+    typeSlash("/h");
+    expect(screen.queryByRole("listbox")).toBeNull();
+    fireEvent.keyDown(screen.getByRole("textbox"), { key: "Enter" });
+    expect(onChange).toHaveBeenLastCalledWith("intro\n/h\n");
+  });
+
+  it("only opens for / typed into an empty line and offers custom items", () => {
+    const onChange = vi.fn();
+    const extension = createSlashCommandExtension({
+      items: [{ id: "date", label: "Today", lines: ["2024-01-01"] }],
+      includeDefaults: false,
+    });
+    const { container } = render(<SlashHarness initialValue={"intro\n"} onChange={onChange} extensions={[extension]} />);
+    activateLine("intro");
+    typeSlash("intro/");
+    expect(screen.queryByRole("listbox")).toBeNull();
+
+    activateEmptyLine(container, 1);
+    typeSlash("/");
+    expect(screen.getAllByRole("option").map((option) => option.textContent)).toEqual(["Today"]);
+    fireEvent.keyDown(screen.getByRole("textbox"), { key: "Tab" });
+    expect(onChange).toHaveBeenLastCalledWith("intro/\n2024-01-01");
+  });
+});
+
+describe("HybridMarkdownEditor autocomplete", () => {
+  const people = ["alice", "albert", "bob"];
+  const mentionSource: AutocompleteSource = {
+    trigger: /@(\w*)/,
+    label: "People",
+    getSuggestions: async (query) =>
+      people
+        .filter((name) => name.startsWith(query))
+        .map((name) => ({ label: name, description: `${name}@example.com`, insertText: `@${name} ` })),
+  };
+
+  const AutocompleteHarness = ({
+    initialValue,
+    onChange,
+    sources = [mentionSource],
+  }: {
+    initialValue: string;
+    onChange?: (value: string) => void;
+    sources?: AutocompleteSource[];
+  }) => {
+    const [value, setValue] = useState(initialValue);
+    return (
+      <HybridMarkdownEditor
+        value={value}
+        onChange={(next) => {
+          setValue(next);
+          onChange?.(next);
+        }}
+        extensions={[{ autocomplete: sources }]}
+      />
+    );
+  };
+
+  const type = async (text: string) => {
+    fireEvent.change(screen.getByRole("textbox"), { target: { value: text } });
+    await act(async () => {});
+    return screen.getByRole("textbox") as HTMLTextAreaElement;
+  };
+
+  it("shows resolved suggestions at the caret and inserts the picked one over the trigger", async () => {
+    const onChange = vi.fn();
+    render(<AutocompleteHarness initialValue="hi" onChange={onChange} />);
+    activateLine("hi");
+    await type("hi @al");
+
+    const listbox = screen.getByRole("listbox", { name: "People" });
+    expect(screen.getAllByRole("option").map((option) => option.textContent)).toEqual([
+      "alicealice@example.com",
+      "albertalbert@example.com",
+    ]);
+    const textarea = screen.getByRole("textbox");
+    expect(textarea.getAttribute("aria-controls")).toBe(listbox.id);
+
+    fireEvent.keyDown(textarea, { key: "ArrowDown" });
+    expect(textarea.getAttribute("aria-activedescendant")).toBe(screen.getAllByRole("option")[1].id);
+    fireEvent.keyDown(textarea, { key: "Enter" });
+
+    expect(onChange).toHaveBeenLastCalledWith("hi @albert ");
+    expect(screen.queryByRole("listbox")).toBeNull();
+    expect((screen.getByRole("textbox") as HTMLTextAreaElement).selectionStart).toBe(11);
+  });
+
+  it("ignores results for queries that have since changed and aborts their requests", async () => {
+    const requests: Array<{ query: string; signal: AbortSignal; resolve: (items: AutocompleteSuggestion[]) => void }> = [];
+    const source: AutocompleteSource = {
+      trigger: /#(\w*)/,
+      getSuggestions: (query, { signal }) =>
+        new Promise((resolve) => {
+          requests.push({ query, signal, resolve });
+        }),
+    };
+    render(<AutocompleteHarness initialValue="x" sources={[source]} />);
+    activateLine("x");
+    await type("#a");
+    await type("#ab");
+    expect(requests.map((request) => request.query)).toEqual(["a", "ab"]);
+    expect(requests[0].signal.aborted).toBe(true);
+
+    await act(async () => requests[0].resolve([{ label: "stale" }]));
+    expect(screen.queryByRole("listbox")).toBeNull();
+    await act(async () => requests[1].resolve([{ label: "abc", id: "tag-abc" }]));
+    expect(screen.getByRole("option").textContent).toBe("abc");
+
+    fireEvent.click(screen.getByRole("option"));
+    expect((screen.getByRole("textbox") as HTMLTextAreaElement).value).toBe("abc");
+  });
+
+  it("closes on Escape until a new trigger starts", async () => {
+    const onChange = vi.fn();
+    render(<AutocompleteHarness initialValue="x" onChange={onChange} />);
+    activateLine("x");
+    const textarea = await type("@a");
+    expect(screen.getByRole("listbox")).toBeTruthy();
+
+    fireEvent.keyDown(textarea, { key: "Escape" });
+    expect(screen.queryByRole("listbox")).toBeNull();
+    await type("@al");
+    expect(screen.queryByRole("listbox")).toBeNull();
+    fireEvent.keyDown(screen.getByRole("textbox"), { key: "Enter" });
+    expect(onChange).toHaveBeenLastCalledWith("@al\n");
+
+    await type("@b");
+    expect(screen.getByRole("option").textContent).toBe("bobbob@example.com");
+  });
+
+  it("closes when the caret moves away from the trigger", async () => {
+    render(<AutocompleteHarness initialValue="x" />);
+    activateLine("x");
+    const textarea = await type("hey @b");
+    expect(screen.getByRole("listbox")).toBeTruthy();
+    setCaret(textarea, 2);
+    expect(screen.queryByRole("listbox")).toBeNull();
+  });
+});
+
+describe("HybridMarkdownEditor wikilinks", () => {
+  it("renders links with their alias and marks missing pages from the resolver", () => {
+    const pages = new Set(["Home"]);
+    const extension = createWikiLinkExtension({ resolveWikiLink: (target) => pages.has(target) });
+    const { container } = render(
+      <HybridMarkdownEditor value="go [[Home|start]] or [[Nowhere]]" onChange={() => {}} extensions={[extension]} />
+    );
+    const [home, nowhere] = Array.from(container.querySelectorAll('[data-role="wiki-link"]')) as HTMLElement[];
+    expect(home.textContent).toBe("start");
+    expect(home.dataset.target).toBe("Home");
+    expect(home.dataset.missing).toBeUndefined();
+    expect(nowhere.textContent).toBe("Nowhere");
+    expect(nowhere.dataset.missing).toBe("true");
+    expect(container.querySelector('[data-role="line-preview"]')!.textContent).toBe("go start or Nowhere");
+  });
+
+  it("navigates on Ctrl/Cmd+click without activating the line, and edits on a plain click", () => {
+    const onNavigate = vi.fn();
+    const extension = createWikiLinkExtension({ onNavigate, resolveWikiLink: (target) => target === "Home" });
+    render(<HybridMarkdownEditor value="go [[Home|start]]" onChange={() => {}} extensions={[extension]} />);
+
+    const link = screen.getByText("start");
+    fireEvent.mouseUp(link, { metaKey: true });
+    fireEvent.click(link, { metaKey: true });
+    expect(onNavigate).toHaveBeenCalledWith("Home", { exists: true, alias: "start" });
+    expect(screen.queryByRole("textbox")).toBeNull();
+
+    fireEvent.mouseUp(link);
+    fireEvent.click(link);
+    expect(onNavigate).toHaveBeenCalledTimes(1);
+    expect((screen.getByRole("textbox") as HTMLTextAreaElement).value).toBe("go [[Home|start]]");
+  });
+
+  it("completes page names after [[", async () => {
+    const onChange = vi.fn();
+    const extension = createWikiLinkExtension({ pageNames: ["Roadmap", "Reading list", "Notes"] });
+    const Harness = () => {
+      const [value, setValue] = useState("see");
+      return (
+        <HybridMarkdownEditor
+          value={value}
+          onChange={(next) => {
+            setValue(next);
+            onChange(next);
+          }}
+          extensions={[extension]}
+        />
+      );
+    };
+    render(<Harness />);
+    activateLine("see");
+    fireEvent.change(screen.getByRole("textbox"), { target: { value: "see [[r" } });
+    await act(async () => {});
+
+    expect(screen.getByRole("listbox", { name: "Pages" })).toBeTruthy();
+    expect(screen.getAllByRole("option").map((option) => option.textContent)).toEqual(["Roadmap", "Reading list"]);
+    fireEvent.keyDown(screen.getByRole("textbox"), { key: "ArrowDown" });
+    fireEvent.keyDown(screen.getByRole("textbox"), { key: "Enter" });
+    expect(onChange).toHaveBeenLastCalledWith("see [[Reading list]]");
+  });
+});
+
+describe("HybridMarkdownEditor frontmatter", () => {
+  const source = "---\ntitle: Notes\ntags:\n  - one\n  - two\n---\n# Body";
+
+  it("renders frontmatter as a collapsible properties panel", () => {
+    const { container } = render(<HybridMarkdownEditor value={source} onChange={() => {}} />);
+    const panel = container.querySelector('[data-role="frontmatter"]') as HTMLElement;
+    const rows = Array.from(panel.querySelectorAll("[data-frontmatter-row]")) as HTMLElement[];
+    expect(rows.map((row) => row.textContent)).toEqual(["titleNotes", "tagsone, two"]);
+    expect(rows.map((row) => row.dataset.frontmatterRow)).toEqual(["1", "2"]);
+    expect(container.querySelectorAll('[data-block="frontmatter"][hidden]')).toHaveLength(5);
+
+    const toggle = screen.getByRole("button", { name: /Properties/ });
+    expect(toggle.getAttribute("aria-expanded")).toBe("true");
+    fireEvent.mouseUp(toggle);
+    fireEvent.click(toggle);
+    expect(toggle.getAttribute("aria-expanded")).toBe("false");
+    expect(panel.querySelector("table")).toBeNull();
+    expect(screen.queryByRole("textbox")).toBeNull();
+  });
+
+  it("edits the source line of a clicked property and keeps YAML out of list handling", () => {
+    const onChange = vi.fn();
+    render(<HybridMarkdownEditor value={source} onChange={onChange} />);
+    fireEvent.mouseUp(screen.getByText("one, two"));
+    const textarea = screen.getByRole("textbox") as HTMLTextAreaElement;
+    expect(textarea.value).toBe("tags:");
+    expect(screen.queryByRole("button", { name: /Properties/ })).toBeNull();
+
+    fireEvent.mouseUp(screen.getByText("- one"));
+    const item = screen.getByRole("textbox") as HTMLTextAreaElement;
+    setCaret(item, item.value.length);
+    fireEvent.keyDown(item, { key: "Enter" });
+    expect(onChange).toHaveBeenLastCalledWith("---\ntitle: Notes\ntags:\n  - one\n  \n  - two\n---\n# Body");
+  });
+
+  it("can hide frontmatter entirely", () => {
+    const ref = React.createRef<HybridMarkdownEditorHandle>();
+    const { container } = render(
+      <HybridMarkdownEditor ref={ref} value={source} onChange={() => {}} options={{ frontmatter: "hidden" }} />
+    );
+    expect(container.querySelector('[data-role="frontmatter"]')).toBeNull();
+    expect(container.querySelectorAll('[data-block="frontmatter"][hidden]')).toHaveLength(6);
+    act(() => ref.current!.focus());
+    expect((screen.getByRole("textbox") as HTMLTextAreaElement).value).toBe("# Body");
+  });
+
+  it("reads and writes frontmatter as an object in one undoable edit", () => {
+    const ref = React.createRef<HybridMarkdownEditorHandle>();
+    const onChange = vi.fn();
+    render(<HybridMarkdownEditor ref={ref} value={source} onChange={onChange} />);
+    expect(ref.current!.getFrontmatter()).toEqual({ title: "Notes", tags: ["one", "two"] });
+
+    act(() => ref.current!.setFrontmatter({ title: "Notes", tags: ["one", "three"], draft: true }));
+    expect(onChange).toHaveBeenLastCalledWith("---\ntitle: Notes\ntags:\n  - one\n  - three\ndraft: true\n---\n# Body");
+    expect(screen.getByText("one, three")).toBeTruthy();
+
+    act(() => {
+      ref.current!.executeCommand("undo");
+    });
+    expect(ref.current!.getValue()).toBe(source);
+  });
+});
+
+describe("HybridMarkdownEditor block renderers", () => {
+  const extension: EditorExtension = {
+    blockRenderers: {
+      mermaid: (source) => <svg data-testid="diagram" data-source={source} />,
+      $$: (source) => <span data-testid="display-math">{`[${source}]`}</span>,
+      $: (source) => <span data-testid="inline-math">{`<${source}>`}</span>,
+    },
+  };
+
+  it("shows renderer output for fenced languages and $$ blocks until a block line is edited", () => {
+    const { container } = render(
+      <HybridMarkdownEditor
+        value={"```mermaid\ngraph TD\n```\n$$\nx^2\n$$\n```ts\nlet a\n```"}
+        onChange={() => {}}
+        extensions={[extension]}
+      />
+    );
+    expect(screen.getByTestId("diagram").getAttribute("data-source")).toBe("graph TD");
+    expect(screen.getByTestId("display-math").textContent).toBe("[x^2]");
+    expect(container.querySelectorAll('[data-role="block-render"]')).toHaveLength(2);
+    expect(container.querySelectorAll("[data-line-index][hidden]")).toHaveLength(4);
+    expect(screen.getByText("let a")).toBeTruthy();
+
+    fireEvent.mouseUp(screen.getByTestId("display-math"));
+    expect((screen.getByRole("textbox") as HTMLTextAreaElement).value).toBe("x^2");
+    expect(screen.queryByTestId("display-math")).toBeNull();
+    expect(screen.getByText("$$", { selector: '[data-line-index="3"] [data-role="source-content"]' })).toBeTruthy();
+    expect(screen.getByTestId("diagram")).toBeTruthy();
+  });
+
+  it("renders inline $…$ and edits its source when the output is clicked", () => {
+    const { container } = render(
+      <HybridMarkdownEditor value="- area $\pi r^2$ m" onChange={() => {}} extensions={[extension]} />
+    );
+    expect(screen.getByTestId("inline-math").textContent).toBe("<\\pi r^2>");
+    expect(container.querySelector('[data-role="source-content"]')!.textContent).toBe("area <\\pi r^2> m");
+
+    fireEvent.mouseUp(screen.getByTestId("inline-math"));
+    const textarea = screen.getByRole("textbox") as HTMLTextAreaElement;
+    expect(textarea.value).toBe("- area $\\pi r^2$ m");
+    expect(textarea.selectionStart).toBe(8);
+  });
+
+  it("falls back to the source when a renderer throws", () => {
+    const failing: EditorExtension = {
+      blockRenderers: {
+        $$: () => {
+          throw new Error("bad TeX");
+        },
+      },
+    };
+    const { container } = render(<HybridMarkdownEditor value={"$$\n\\frac{\n$$"} onChange={() => {}} extensions={[failing]} />);
+    expect(container.querySelector('[data-role="block-render"]')!.textContent).toBe("\\frac{");
+  });
+
+  it("falls back to the source when a rendered component throws", () => {
+    const Broken = (): React.ReactElement => {
+      throw new Error("bad diagram");
+    };
+    const failing: EditorExtension = { blockRenderers: { mermaid: () => <Broken /> } };
+    const consoleError = vi.spyOn(console, "error").mockImplementation(() => {});
+    const { container } = render(
+      <HybridMarkdownEditor value={"```mermaid\ngraph\n```\nafter"} onChange={() => {}} extensions={[failing]} />
+    );
+    consoleError.mockRestore();
+    expect(container.querySelector('[data-role="block-render"]')!.textContent).toBe("graph");
+    expect(screen.getByText("after")).toBeTruthy();
+  });
+
+  it("reruns a renderer only when its block's source changes", () => {
+    const mermaid = vi.fn((source: string) => <svg data-testid="diagram" data-source={source} />);
+    render(
+      <HybridMarkdownEditor
+        value={"```mermaid\ngraph\n```\ntext"}
+        onChange={() => {}}
+        extensions={[{ blockRenderers: { mermaid } }]}
+      />
+    );
+    expect(mermaid).toHaveBeenCalledTimes(1);
+    activateLine("text");
+    fireEvent.change(screen.getByRole("textbox"), { target: { value: "text!" } });
+    expect(mermaid).toHaveBeenCalledTimes(1);
+  });
+
+  it("treats $$ lines as text when no $$ renderer is registered", () => {
+    const { container } = render(
+      <HybridMarkdownEditor value={"$$\n# Title\n$$"} onChange={() => {}} classNames={{ lineTypes: { h1: "heading" } }} />
+    );
+    expect(container.querySelector('[data-block="math"]')).toBeNull();
+    expect(container.querySelector('[data-line-index="1"]')!.className).toBe("heading");
+  });
+});
+
+describe("HybridMarkdownEditor footnotes and reference links", () => {
+  it("renders references from document definitions with hover text", () => {
+    const { container } = render(
+      <HybridMarkdownEditor
+        value={"Read [the guide][guide] first[^1] and [^2].\n\n[guide]: https://example.com/guide\n[^1]: Only once."}
+        onChange={() => {}}
+      />
+    );
+    const link = screen.getByText("the guide") as HTMLAnchorElement;
+    expect(link.getAttribute("href")).toBe("https://example.com/guide");
+    expect(link.title).toBe("https://example.com/guide");
+    const [first, second] = Array.from(container.querySelectorAll('[data-role="footnote-ref"]')) as HTMLElement[];
+    expect(first.tagName).toBe("SUP");
+    expect(first.textContent).toBe("1");
+    expect(first.title).toBe("Only once.");
+    expect(second.dataset.missing).toBe("true");
+    expect(container.querySelector('[data-role="line-preview"]')!.textContent).toBe("Read the guide first1 and 2.");
+  });
+
+  it("updates references when a definition is added", () => {
+    const Harness = () => {
+      const [value, setValue] = useState("see [spec]\n");
+      return <HybridMarkdownEditor value={value} onChange={setValue} />;
+    };
+    const { container } = render(<Harness />);
+    expect(container.querySelector('[data-reference="spec"]')).toBeNull();
+    fireEvent.mouseUp(container.querySelector('[data-line-index="1"] [data-role="line-preview"]')!);
+    fireEvent.change(screen.getByRole("textbox"), { target: { value: "[spec]: https://spec.test" } });
+    expect(container.querySelector('[data-reference="spec"]')!.getAttribute("href")).toBe("https://spec.test");
+  });
+
+  it("inserts a numbered footnote and its definition as one undoable edit", () => {
+    const onChange = vi.fn();
+    const ref = React.createRef<HybridMarkdownEditorHandle>();
+    const { container } = render(
+      <HybridMarkdownEditor ref={ref} value={"Claim[^1] again\n\n[^1]: Source."} onChange={onChange} />
+    );
+    fireEvent.mouseUp(container.querySelector('[data-line-index="0"] [data-role="line-preview"]')!);
+    setCaret(screen.getByRole("textbox") as HTMLTextAreaElement, 15);
+    act(() => {
+      expect(ref.current!.executeCommand("insertFootnote")).toBe(true);
+    });
+    expect(onChange).toHaveBeenCalledTimes(1);
+    expect(onChange).toHaveBeenLastCalledWith("Claim[^1] again[^2]\n\n[^1]: Source.\n[^2]: ");
+    const textarea = screen.getByRole("textbox") as HTMLTextAreaElement;
+    expect(textarea.value).toBe("[^2]: ");
+    expect(textarea.selectionStart).toBe(6);
+
+    act(() => {
+      ref.current!.executeCommand("undo");
+    });
+    expect(ref.current!.getValue()).toBe("Claim[^1] again\n\n[^1]: Source.");
+  });
+});
+
+describe("HybridMarkdownEditor ordered list renumbering", () => {
+  const renderList = (value: string, renumber = true) => {
+    const onChange = vi.fn();
+    const ref = React.createRef<HybridMarkdownEditorHandle>();
+    const utils = render(
+      <HybridMarkdownEditor
+        ref={ref}
+        value={value}
+        onChange={onChange}
+        options={{ indentSize: 3, renumberOrderedLists: renumber }}
+      />
+    );
+    const activate = (index: number) =>
+      fireEvent.mouseUp(utils.container.querySelector(`[data-line-index="${index}"] [data-role="line-preview"]`)!);
+    return { ...utils, onChange, ref, activate };
+  };
+
+  it("renumbers the following items when Enter inserts one", () => {
+    const { onChange, activate } = renderList("1. a\n2. b\n3. c");
+    activate(0);
+    const textarea = screen.getByRole("textbox") as HTMLTextAreaElement;
+    setCaret(textarea, textarea.value.length);
+    fireEvent.keyDown(textarea, { key: "Enter" });
+    expect(onChange).toHaveBeenLastCalledWith("1. a\n2. \n3. b\n4. c");
+  });
+
+  it("leaves numbering alone unless enabled", () => {
+    const { onChange, activate } = renderList("1. a\n2. b", false);
+    activate(0);
+    const textarea = screen.getByRole("textbox") as HTMLTextAreaElement;
+    setCaret(textarea, textarea.value.length);
+    fireEvent.keyDown(textarea, { key: "Enter" });
+    expect(onChange).toHaveBeenLastCalledWith("1. a\n2. \n2. b");
+  });
+
+  it("closes the gap when an item is deleted, keeping the start number", () => {
+    const { onChange, ref } = renderList("5. a\n6. b\n7. c\n8. d");
+    act(() => {
+      ref.current!.replaceRange({ line: 1, column: 0 }, { line: 2, column: 0 }, "");
+    });
+    expect(onChange).toHaveBeenLastCalledWith("5. a\n6. c\n7. d");
+  });
+
+  it("starts a nested list at 1 on Tab and renumbers both levels", () => {
+    const { onChange, activate } = renderList("1. a\n   1. a1\n2. b\n3. c");
+    activate(2);
+    let textarea = screen.getByRole("textbox") as HTMLTextAreaElement;
+    setCaret(textarea, 4);
+    fireEvent.keyDown(textarea, { key: "Tab" });
+    expect(onChange).toHaveBeenLastCalledWith("1. a\n   1. a1\n   2. b\n2. c");
+    textarea = screen.getByRole("textbox") as HTMLTextAreaElement;
+    expect(textarea.selectionStart).toBe(7);
+
+    fireEvent.keyDown(textarea, { key: "Tab", shiftKey: true });
+    expect(onChange).toHaveBeenLastCalledWith("1. a\n   1. a1\n2. b\n3. c");
+  });
+
+  it("renumbers pasted items and the ones after them", () => {
+    const { onChange, activate } = renderList("1. a\n2. b\n3. c");
+    activate(1);
+    const textarea = screen.getByRole("textbox") as HTMLTextAreaElement;
+    setCaret(textarea, 0, textarea.value.length);
+    fireEvent.paste(textarea, { clipboardData: { getData: () => "1. x\n1. y\n1. z" } });
+    expect(onChange).toHaveBeenLastCalledWith("1. a\n2. x\n3. y\n4. z\n5. c");
+  });
+
+  it("undoes the edit and its renumbering together", () => {
+    const { ref, activate } = renderList("1. a\n2. b");
+    activate(0);
+    const textarea = screen.getByRole("textbox") as HTMLTextAreaElement;
+    setCaret(textarea, textarea.value.length);
+    fireEvent.keyDown(textarea, { key: "Enter" });
+    act(() => {
+      ref.current!.executeCommand("undo");
+    });
+    expect(ref.current!.getValue()).toBe("1. a\n2. b");
+  });
+});
+
+describe("HybridMarkdownEditor outline", () => {
+  const OutlineHarness = ({ initialValue }: { initialValue: string }) => {
+    const [value, setValue] = useState(initialValue);
+    const ref = React.useRef<HybridMarkdownEditorHandle>(null);
+    return (
+      <>
+        <HybridMarkdownOutline editor={ref} />
+        <HybridMarkdownEditor ref={ref} value={value} onChange={setValue} />
+      </>
+    );
+  };
+
+  const getItems = () =>
+    Array.from(screen.getByRole("navigation", { name: "Outline" }).querySelectorAll("button")) as HTMLButtonElement[];
+
+  it("lists headings and follows edits", () => {
+    render(<OutlineHarness initialValue={"# Guide\nintro\n## Setup\nsteps"} />);
+    expect(getItems().map((item) => [item.textContent, item.dataset.slug, item.parentElement!.dataset.level])).toEqual([
+      ["Guide", "guide", "1"],
+      ["Setup", "setup", "2"],
+    ]);
+
+    activateLine("steps");
+    fireEvent.change(screen.getByRole("textbox"), { target: { value: "### Usage" } });
+    expect(getItems().map((item) => item.textContent)).toEqual(["Guide", "Setup", "Usage"]);
+  });
+
+  it("scrolls to and activates the chosen heading", () => {
+    const scrollSpy = vi.spyOn(HTMLElement.prototype, "scrollIntoView");
+    const { container } = render(<OutlineHarness initialValue={"# Guide\nintro\n## Setup\nsteps"} />);
+    fireEvent.click(screen.getByRole("button", { name: "Setup" }));
+    expect(scrollSpy.mock.contexts).toContain(container.querySelector('[data-line-index="2"]'));
+    const textarea = screen.getByRole("textbox") as HTMLTextAreaElement;
+    expect(textarea.value).toBe("## Setup");
+    expect(document.activeElement).toBe(textarea);
+    scrollSpy.mockRestore();
+  });
+
+  it("highlights the section containing the active line", () => {
+    render(<OutlineHarness initialValue={"preamble\n# Guide\nintro\n## Setup\nsteps"} />);
+    expect(getItems().some((item) => item.getAttribute("aria-current"))).toBe(false);
+
+    activateLine("intro");
+    expect(getItems().map((item) => item.getAttribute("aria-current"))).toEqual(["location", null]);
+
+    activateLine("steps");
+    expect(getItems().map((item) => item.getAttribute("aria-current"))).toEqual([null, "location"]);
+
+    activateLine("preamble");
+    expect(getItems().some((item) => item.getAttribute("aria-current"))).toBe(false);
+  });
+
+  it("accepts the editor handle itself", () => {
+    const HandleHarness = () => {
+      const [value, setValue] = useState("# Guide\nintro");
+      const [handle, setHandle] = useState<HybridMarkdownEditorHandle | null>(null);
+      return (
+        <>
+          <HybridMarkdownOutline editor={handle} />
+          <HybridMarkdownEditor ref={setHandle} value={value} onChange={setValue} />
+        </>
+      );
+    };
+    render(<HandleHarness />);
+    expect(getItems().map((item) => item.textContent)).toEqual(["Guide"]);
+    activateLine("intro");
+    expect(getItems()[0].getAttribute("aria-current")).toBe("location");
+  });
+
+  it("reads headings the way the editor renders them", () => {
+    const extensions = [createWikiLinkExtension()];
+    const ExtensionHarness = () => {
+      const ref = React.useRef<HybridMarkdownEditorHandle>(null);
+      return (
+        <>
+          <HybridMarkdownOutline editor={ref} />
+          <HybridMarkdownEditor ref={ref} value={"$$\n# Inside\n$$\n## See [[Page|docs]]"} extensions={extensions} />
+        </>
+      );
+    };
+    render(<ExtensionHarness />);
+    // Without a `$$` renderer the `$$` lines are text, so the heading between them counts.
+    expect(getItems().map((item) => [item.textContent, item.dataset.line])).toEqual([
+      ["Inside", "1"],
+      ["See docs", "3"],
+    ]);
+  });
+});
+
+describe("HybridMarkdownEditor folding", () => {
+  const doc = "# Intro\nintro text\n## Setup\nsteps\n# Usage\n- item\n  - child\n- leaf";
+  const isHidden = (container: HTMLElement, index: number) =>
+    (container.querySelector(`[data-line-index="${index}"]`) as HTMLElement).hidden;
+  const hiddenLines = (container: HTMLElement) =>
+    Array.from(container.querySelectorAll("[data-line-index]"))
+      .filter((el) => (el as HTMLElement).hidden)
+      .map((el) => Number((el as HTMLElement).dataset.lineIndex));
+
+  it("folds a heading section and a list subtree from their toggles", () => {
+    const onToggleFold = vi.fn();
+    const { container } = render(
+      <HybridMarkdownEditor value={doc} onChange={() => {}} options={{ folding: true }} onToggleFold={onToggleFold} />
+    );
+    const toggles = Array.from(container.querySelectorAll('[data-role="fold-toggle"]')) as HTMLElement[];
+    expect(toggles.map((toggle) => toggle.closest("[data-line-index]")!.getAttribute("data-line-index"))).toEqual([
+      "0",
+      "2",
+      "4",
+      "5",
+    ]);
+
+    fireEvent.click(screen.getByRole("button", { name: "Fold line 1" }));
+    expect(hiddenLines(container)).toEqual([1, 2, 3]);
+    expect(onToggleFold).toHaveBeenLastCalledWith(0, true);
+    const header = container.querySelector('[data-line-index="0"]') as HTMLElement;
+    expect(header.dataset.folded).toBe("true");
+    expect(screen.getByRole("button", { name: "Unfold line 1" }).getAttribute("aria-expanded")).toBe("false");
+
+    fireEvent.click(screen.getByRole("button", { name: "Fold line 6" }));
+    expect(hiddenLines(container)).toEqual([1, 2, 3, 6]);
+
+    fireEvent.click(screen.getByRole("button", { name: "Unfold line 1" }));
+    expect(hiddenLines(container)).toEqual([6]);
+    expect(onToggleFold).toHaveBeenLastCalledWith(0, false);
+  });
+
+  it("applies the controlled folded prop and keeps folds on their line through edits", () => {
+    const onFoldedChange = vi.fn();
+    const Harness = () => {
+      const [value, setValue] = useState(doc);
+      const [folded, setFolded] = useState<number[]>([2]);
+      return (
+        <HybridMarkdownEditor
+          value={value}
+          onChange={setValue}
+          folded={folded}
+          onFoldedChange={(next) => {
+            onFoldedChange(next);
+            setFolded(next);
+          }}
+        />
+      );
+    };
+    const { container } = render(<Harness />);
+    expect(hiddenLines(container)).toEqual([3]);
+    expect(onFoldedChange).not.toHaveBeenCalled();
+
+    activateLine("intro text");
+    const textarea = screen.getByRole("textbox") as HTMLTextAreaElement;
+    setCaret(textarea, textarea.value.length);
+    fireEvent.keyDown(textarea, { key: "Enter" });
+    expect(onFoldedChange).toHaveBeenLastCalledWith([3]);
+    expect(hiddenLines(container)).toEqual([4]);
+    expect(screen.getByText("Setup").closest("[data-line-index]")!.getAttribute("data-folded")).toBe("true");
+  });
+
+  it("follows a new folded prop and drops folds whose line can no longer fold", () => {
+    const onFoldedChange = vi.fn();
+    const { container, rerender } = render(
+      <HybridMarkdownEditor value={doc} onChange={() => {}} folded={[]} onFoldedChange={onFoldedChange} />
+    );
+    expect(hiddenLines(container)).toEqual([]);
+    rerender(<HybridMarkdownEditor value={doc} onChange={() => {}} folded={[5, 1]} onFoldedChange={onFoldedChange} />);
+    expect(hiddenLines(container)).toEqual([6]);
+    expect(onFoldedChange).toHaveBeenLastCalledWith([5]);
+  });
+
+  it("skips folded lines with ArrowUp and ArrowDown", () => {
+    const { container } = render(<HybridMarkdownEditor value={doc} onChange={() => {}} folded={[0]} />);
+    activateLine("Intro");
+    let textarea = screen.getByRole("textbox") as HTMLTextAreaElement;
+    setCaret(textarea, textarea.value.length);
+    fireEvent.keyDown(textarea, { key: "ArrowDown" });
+    textarea = screen.getByRole("textbox") as HTMLTextAreaElement;
+    expect(textarea.value).toBe("# Usage");
+
+    setCaret(textarea, 0);
+    fireEvent.keyDown(textarea, { key: "ArrowUp" });
+    expect((screen.getByRole("textbox") as HTMLTextAreaElement).value).toBe("# Intro");
+    expect(hiddenLines(container)).toEqual([1, 2, 3]);
+  });
+
+  it("only changes controlled folds through onFoldedChange", () => {
+    const onFoldedChange = vi.fn();
+    const { container, rerender } = render(
+      <HybridMarkdownEditor value={doc} onChange={() => {}} folded={[]} onFoldedChange={onFoldedChange} options={{ folding: true }} />
+    );
+    fireEvent.click(screen.getByRole("button", { name: "Fold line 1" }));
+    expect(onFoldedChange).toHaveBeenLastCalledWith([0]);
+    expect(hiddenLines(container)).toEqual([]);
+
+    fireEvent.click(screen.getByRole("button", { name: "Fold line 1" }));
+    expect(onFoldedChange).toHaveBeenCalledTimes(2);
+    rerender(
+      <HybridMarkdownEditor value={doc} onChange={() => {}} folded={[0]} onFoldedChange={onFoldedChange} options={{ folding: true }} />
+    );
+    expect(hiddenLines(container)).toEqual([1, 2, 3]);
+    expect(onFoldedChange).toHaveBeenCalledTimes(2);
+  });
+
+  it("unfolds around a line that becomes active and moves the caret out of a new fold", () => {
+    const ref = React.createRef<HybridMarkdownEditorHandle>();
+    const Harness = () => {
+      const [folded, setFolded] = useState<number[]>([0]);
+      return <HybridMarkdownEditor ref={ref} value={doc} onChange={() => {}} folded={folded} onFoldedChange={setFolded} />;
+    };
+    const { container } = render(<Harness />);
+    act(() => {
+      ref.current!.focus(3);
+    });
+    expect(hiddenLines(container)).toEqual([]);
+    expect((screen.getByRole("textbox") as HTMLTextAreaElement).value).toBe("steps");
+
+    act(() => {
+      expect(ref.current!.executeCommand("toggleFold")).toBe(false);
+    });
+    act(() => {
+      ref.current!.focus(2);
+    });
+    act(() => {
+      expect(ref.current!.executeCommand("toggleFold")).toBe(true);
+    });
+    expect(isHidden(container, 3)).toBe(true);
+    act(() => {
+      ref.current!.focus(1);
+    });
+    act(() => {
+      ref.current!.executeCommand("toggleFold");
+    });
+    expect((screen.getByRole("textbox") as HTMLTextAreaElement).value).toBe("intro text");
+  });
+
+  it("keeps a folded section of a virtualized document unmounted", () => {
+    const section = Array.from({ length: 3000 }, (_, i) => `line ${i}`);
+    const value = ["# Big", ...section, "# After"].join("\n");
+    const { container } = render(
+      <HybridMarkdownEditor value={value} onChange={() => {}} folded={[0]} options={{ virtualize: true, estimatedLineHeight: 24 }} />
+    );
+    const mounted = Array.from(container.querySelectorAll("[data-line-index]")).map((el) =>
+      Number((el as HTMLElement).dataset.lineIndex)
+    );
+    expect(mounted).toEqual([0, 3001]);
+    const spacers = Array.from(container.querySelectorAll('[data-role="virtual-spacer"]')) as HTMLElement[];
+    expect(spacers.map((spacer) => spacer.style.height)).toEqual(["0px"]);
+  });
+});
+
+describe("HybridMarkdownEditor change sets", () => {
+  it("reports each commit as a line splice tagged with its origin", () => {
+    const changeSets: EditorChangeSet[] = [];
+    const ref = React.createRef<HybridMarkdownEditorHandle>();
+    const Harness = () => {
+      const [value, setValue] = useState("hello\nworld");
+      return (
+        <HybridMarkdownEditor
+          ref={ref}
+          value={value}
+          onChange={setValue}
+          onChangeSet={(changeSet) => changeSets.push(changeSet)}
+        />
+      );
+    };
+    render(<Harness />);
+    activateLine("hello");
+    let textarea = screen.getByRole("textbox") as HTMLTextAreaElement;
+    fireEvent.change(textarea, { target: { value: "hello!" } });
+    setCaret(textarea, 6);
+    fireEvent.keyDown(textarea, { key: "Enter" });
+    textarea = screen.getByRole("textbox") as HTMLTextAreaElement;
+    fireEvent.paste(textarea, { clipboardData: { getData: () => "a\nb" } });
+    act(() => {
+      ref.current!.executeCommand("undo");
+    });
+
+    expect(changeSets).toEqual([
+      { origin: "typing", changes: [{ start: 0, removed: ["hello"], inserted: ["hello!"] }] },
+      { origin: "command", changes: [{ start: 1, removed: [], inserted: [""] }] },
+      { origin: "paste", changes: [{ start: 1, removed: [""], inserted: ["a", "b"] }] },
+      { origin: "undo", changes: [{ start: 1, removed: ["a", "b"], inserted: [""] }] },
+    ]);
+  });
+
+  const LoopbackPeers = ({ initialValue }: { initialValue: string }) => {
+    const [a, setA] = useState(initialValue);
+    const [b, setB] = useState(initialValue);
+    const refA = React.useRef<HybridMarkdownEditorHandle>(null);
+    const refB = React.useRef<HybridMarkdownEditorHandle>(null);
+    // Each peer sends its change sets straight to the other, as a sync server would.
+    const send = (target: React.RefObject<HybridMarkdownEditorHandle | null>) => (changeSet: EditorChangeSet) => {
+      expect(target.current!.applyRemoteChanges(changeSet.changes)).toBe(true);
+    };
+    return (
+      <>
+        <div data-testid="peer-a">
+          <HybridMarkdownEditor ref={refA} value={a} onChange={setA} onChangeSet={send(refB)} />
+        </div>
+        <div data-testid="peer-b">
+          <HybridMarkdownEditor ref={refB} value={b} onChange={setB} onChangeSet={send(refA)} />
+        </div>
+      </>
+    );
+  };
+
+  const activatePeerLine = (peer: string, text: string) => fireEvent.mouseUp(within(screen.getByTestId(peer)).getByText(text));
+  const peerTextarea = (peer: string) => within(screen.getByTestId(peer)).getByRole("textbox") as HTMLTextAreaElement;
+  const peerText = (peer: string) =>
+    Array.from(screen.getByTestId(peer).querySelectorAll("[data-line-index]"))
+      .map((line) => (line.querySelector("textarea") as HTMLTextAreaElement | null)?.value ?? line.textContent)
+      .join("\n");
+
+  it("keeps loopback peers in sync without echoing remote edits", () => {
+    render(<LoopbackPeers initialValue={"# Notes\nfirst"} />);
+    activatePeerLine("peer-a", "first");
+    const textarea = peerTextarea("peer-a");
+    fireEvent.change(textarea, { target: { value: "first item" } });
+    setCaret(textarea, 10);
+    fireEvent.keyDown(textarea, { key: "Enter" });
+    fireEvent.change(peerTextarea("peer-a"), { target: { value: "second" } });
+
+    expect(peerText("peer-b")).toBe("Notes\nfirst item\nsecond");
+    expect(peerText("peer-a")).toBe("Notes\nfirst item\nsecond");
+  });
+
+  it("keeps the local caret on its text while the other peer edits", () => {
+    render(<LoopbackPeers initialValue={"intro\nhello world\noutro"} />);
+    activatePeerLine("peer-b", "hello world");
+    setCaret(peerTextarea("peer-b"), 6);
+    activatePeerLine("peer-a", "intro");
+
+    fireEvent.keyDown(peerTextarea("peer-a"), { key: "Enter" });
+    let local = peerTextarea("peer-b");
+    expect(local.value).toBe("hello world");
+    expect(local.getAttribute("aria-label")).toBe("Markdown line 3");
+    expect(local.selectionStart).toBe(6);
+
+    activatePeerLine("peer-a", "hello world");
+    const remote = peerTextarea("peer-a");
+    fireEvent.change(remote, { target: { value: "oh hello world" } });
+    local = peerTextarea("peer-b");
+    expect(local.value).toBe("oh hello world");
+    expect(local.selectionStart).toBe(9);
+  });
+
+  it("rebases local undo past remote edits and rejects changes that do not match", () => {
+    const ref = React.createRef<HybridMarkdownEditorHandle>();
+    const onChange = vi.fn();
+    render(<HybridMarkdownEditor ref={ref} value={"one\ntwo"} onChange={onChange} />);
+    activateLine("two");
+    fireEvent.change(screen.getByRole("textbox"), { target: { value: "two!" } });
+
+    act(() => {
+      expect(ref.current!.applyRemoteChanges([{ start: 0, removed: ["missing"], inserted: [] }])).toBe(false);
+    });
+    expect(ref.current!.getValue()).toBe("one\ntwo!");
+
+    act(() => {
+      expect(ref.current!.applyRemoteChanges([{ start: 0, removed: [], inserted: ["zero"] }])).toBe(true);
+    });
+    expect(onChange).toHaveBeenLastCalledWith("zero\none\ntwo!");
+    expect((screen.getByRole("textbox") as HTMLTextAreaElement).value).toBe("two!");
+
+    act(() => {
+      ref.current!.executeCommand("undo");
+    });
+    expect(ref.current!.getValue()).toBe("zero\none\ntwo");
+  });
+
+  it("rejects splices that start outside the document", () => {
+    const ref = React.createRef<HybridMarkdownEditorHandle>();
+    const onChange = vi.fn();
+    render(<HybridMarkdownEditor ref={ref} value={"one\ntwo"} onChange={onChange} />);
+
+    for (const change of [
+      { start: 3, removed: [], inserted: ["past the end"] },
+      { start: -1, removed: ["two"], inserted: ["last"] },
+      { start: 0.5, removed: [], inserted: ["half"] },
+      { start: 1, removed: ["two", "three"], inserted: [] },
+    ]) {
+      act(() => {
+        expect(ref.current!.applyRemoteChanges([change])).toBe(false);
+      });
+    }
+    expect(ref.current!.getValue()).toBe("one\ntwo");
+    expect(onChange).not.toHaveBeenCalled();
+
+    act(() => {
+      expect(ref.current!.applyRemoteChanges([{ start: 2, removed: [], inserted: ["three"] }])).toBe(true);
+    });
+    expect(ref.current!.getValue()).toBe("one\ntwo\nthree");
+  });
+
+  it("deactivates the local line when the other peer deletes it", () => {
+    const ref = React.createRef<HybridMarkdownEditorHandle>();
+    render(<HybridMarkdownEditor ref={ref} value={"keep\ndrop"} onChange={() => {}} />);
+    activateLine("drop");
+    act(() => {
+      ref.current!.applyRemoteChanges([{ start: 1, removed: ["drop"], inserted: [] }]);
+    });
+    expect(screen.queryByRole("textbox")).toBeNull();
+    expect(ref.current!.getValue()).toBe("keep");
+  });
+});
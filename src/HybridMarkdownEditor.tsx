@@ -1,7 +1,57 @@
 "use client";
 
-import React, { useEffect, useMemo, useRef, useState } from "react";
+import React, { useEffect, useId, useImperativeHandle, useLayoutEffect, useMemo, useRef, useState } from "react";
 import TextareaAutosize from "react-textarea-autosize";
+import {
+  boldRule,
+  collectVisibleSourceIndices,
+  defaultInlineRules,
+  InlineHighlight,
+  InlineRule,
+  InlineToken,
+  parseInline,
+  renderHighlightedText,
+  tokenizeInline,
+} from "./inlineGrammar";
+import {
+  analyzeBlocks,
+  AnalyzeBlocksOptions,
+  Block,
+  BlockStructure,
+  createEmptyTableRow,
+  formatTable,
+  getTableCellIndex,
+  LineBlockContext,
+  splitTableRow,
+  TableAlignment,
+} from "./blockStructure";
+import { encodeMarkdownUrl, hasMarkdownFormatting, htmlToMarkdown } from "./htmlToMarkdown";
+import { buildLineOffsets, getVirtualRange } from "./virtualLines";
+import { compileKeymaps, defaultKeymap, Keymap, resolveKeyCommands } from "./keymap";
+import { getCaretCoordinates, mirrorTextareaStyle } from "./caretCoordinates";
+import { filterSlashCommands, SlashCommandItem } from "./slashCommands";
+import { AutocompleteMatch, AutocompleteSource, AutocompleteSuggestion, matchAutocompleteTrigger } from "./autocomplete";
+import { FrontmatterData, getFrontmatterEntries, parseFrontmatter, updateFrontmatter } from "./frontmatter";
+import {
+  BlockRenderer,
+  BlockRenderers,
+  createInlineMathRule,
+  getBlockRendererKey,
+  getRenderedBlockSource,
+  renderBlockSource,
+  RENDERED_OUTPUT_SELECTOR,
+} from "./blockRenderers";
+import { buildReferenceIndex, createReferenceRules, insertFootnote, isSameReferenceIndex, ReferenceIndex } from "./references";
+import type { OutlineOptions } from "./outline";
+import {
+  createSearchPattern,
+  findMatches,
+  getAdjacentMatch,
+  replaceAllMatches,
+  replaceMatch,
+  SearchMatch,
+  SearchQuery,
+} from "./search";
 
 type TextareaStyle = React.ComponentProps<typeof TextareaAutosize>["style"];
 
@@ -14,7 +64,7 @@ type ListMeta = {
   number?: number;
 };
 
-export type LineType = "h1" | "h2" | "h3" | "h4" | "li" | "blockquote" | "p";
+export type LineType = "h1" | "h2" | "h3" | "h4" | "li" | "blockquote" | "p" | "code" | "math" | "table" | "frontmatter";
 
 export type EditorExtension = {
   onKeyDown?: (
@@ -25,10 +75,29 @@ export type EditorExtension = {
     e: React.ClipboardEvent<HTMLTextAreaElement>,
     api: ExtensionApi
   ) => boolean | void;
-  renderLinePrefix?: (ctx: { index: number; line: string; type: LineType; isActive: boolean }) => React.ReactNode;
-  renderLineSuffix?: (ctx: { index: number; line: string; type: LineType; isActive: boolean }) => React.ReactNode;
+  renderLinePrefix?: (ctx: { index: number; id: string; line: string; type: LineType; isActive: boolean }) => React.ReactNode;
+  renderLineSuffix?: (ctx: { index: number; id: string; line: string; type: LineType; isActive: boolean }) => React.ReactNode;
+  inlineRules?: InlineRule[];
+  // Named commands, bindable from any keymap; they override built-in commands of the same name.
+  commands?: Record<string, EditorCommand>;
+  keymap?: Keymap;
+  // Blocks offered by the menu that opens when `/` is typed into an empty line.
+  slashCommands?: SlashCommandItem[];
+  // Caret-anchored suggestion popups for triggers such as @mentions or #tags.
+  autocomplete?: AutocompleteSource[];
+  // Preview output for fenced code by language, `$$` math blocks, and `$…$` inline math.
+  blockRenderers?: BlockRenderers;
 };
 
+// `active` is the line being edited and its textarea selection, or null when no line is active.
+export type CommandContext = {
+  api: ExtensionApi;
+  active: { index: number; line: string; selectionStart: number; selectionEnd: number } | null;
+};
+
+// Returns true when it handled the command; a key then stops at it instead of trying the next binding.
+export type EditorCommand = (context: CommandContext) => boolean;
+
 export type ExtensionApi = {
   getValue: () => string;
   setValue: (next: string) => void;
@@ -38,12 +107,77 @@ export type ExtensionApi = {
   deleteLines: (start: number, count: number) => void;
   getActiveLineIndex: () => number | null;
   setActiveLineIndex: (idx: number | null, caret?: number | null) => void;
+  undo: () => void;
+  redo: () => void;
+  canUndo: () => boolean;
+  canRedo: () => boolean;
+  formatTable: (index: number) => void;
+  executeCommand: (name: string) => boolean;
+};
+
+// Source coordinates: `column` counts characters of the Markdown line, not rendered text.
+export type EditorPosition = { line: number; column: number };
+
+export type EditorSelection = { start: EditorPosition; end: EditorPosition; text: string };
+
+// "remote" edits come from applyRemoteChanges and are never reported back through onChangeSet.
+export type ChangeOrigin = "typing" | "command" | "paste" | "extension" | "undo" | "redo" | "remote";
+
+// Replaces the `removed` lines starting at line `start` with `inserted`.
+export type LineSplice = { start: number; removed: string[]; inserted: string[] };
+
+// Splices apply in order, each to the document left by the previous one.
+export type EditorChangeSet = { origin: ChangeOrigin; changes: LineSplice[] };
+
+export type HybridMarkdownEditorHandle = {
+  focus: (line?: number, caret?: number) => void;
+  blur: () => void;
+  insertText: (text: string) => void;
+  replaceRange: (from: EditorPosition, to: EditorPosition, text: string) => void;
+  getSelection: () => EditorSelection | null;
+  scrollToLine: (index: number) => void;
+  getValue: () => string;
+  // Sets the highlighted search (null clears it) and returns every match.
+  find: (query: SearchQuery | null) => SearchMatch[];
+  // Activate the next/previous match after the current one (or the caret), wrapping around the document.
+  findNext: () => SearchMatch | null;
+  findPrevious: () => SearchMatch | null;
+  // Replaces the current match and moves to the next one; false when nothing was selected to replace.
+  replace: (replacement: string) => boolean;
+  replaceAll: (replacement: string) => number;
+  openFindPanel: () => void;
+  executeCommand: (name: string) => boolean;
+  // Whether a command applies to the active line/selection (`active`) and could run right now (`enabled`).
+  getCommandState: (name: string) => CommandState;
+  // Called after every render and selection change so toolbars can refresh command state.
+  subscribe: (listener: () => void) => () => void;
+  // The leading YAML frontmatter as an object, or null when the document has none.
+  getFrontmatter: () => FrontmatterData | null;
+  // Rewrites only the entries that changed, as one undoable edit; null removes the block.
+  setFrontmatter: (data: FrontmatterData | null) => void;
+  // Applies another peer's change sets, keeping the local caret on its text. Returns false, changing nothing,
+  // when a splice starts outside the document or its `removed` lines do not match it.
+  applyRemoteChanges: (changes: LineSplice[]) => boolean;
+  // The block options and inline rules the editor renders with, for `getOutline`.
+  getOutlineOptions: () => OutlineOptions;
 };
 
+export type CommandState = { active: boolean; enabled: boolean };
+
 export interface HybridMarkdownEditorProps {
   value: string;
   onDebouncedChange?: (value: string) => void;
   onChange?: (value: string) => void;
+  // The same commits as onChange, as line splices tagged with what made them.
+  onChangeSet?: (changeSet: EditorChangeSet) => void;
+  // Uploads a pasted or dropped image and resolves to the URL written into the document.
+  onUploadFile?: (file: File) => Promise<string>;
+  // Indices of folded heading and list item lines. When given, folding is controlled: toggles, unfolds, and index
+  // shifts from edits are only reported through onFoldedChange. Without it, folds are kept internally.
+  folded?: number[];
+  onFoldedChange?: (folded: number[]) => void;
+  // Called when the user folds or unfolds a line with its toggle or the toggleFold command.
+  onToggleFold?: (line: number, folded: boolean) => void;
   debounceMs?: number;
   className?: string;
   readOnly?: boolean;
@@ -56,6 +190,19 @@ export interface HybridMarkdownEditorProps {
     preview?: string;
     textarea?: string;
     marker?: string;
+    codeBlock?: string;
+    table?: string;
+    tableCell?: string;
+    dragHandle?: string;
+    findPanel?: string;
+    searchMatch?: string;
+    activeSearchMatch?: string;
+    suggestionMenu?: string;
+    suggestionItem?: string;
+    activeSuggestionItem?: string;
+    frontmatter?: string;
+    blockRender?: string;
+    foldToggle?: string;
   };
   styles?: {
     root?: React.CSSProperties;
@@ -64,9 +211,23 @@ export interface HybridMarkdownEditorProps {
     preview?: React.CSSProperties;
     textarea?: TextareaStyle;
     marker?: React.CSSProperties;
+    codeBlock?: React.CSSProperties;
+    table?: React.CSSProperties;
+    tableCell?: React.CSSProperties;
+    dragHandle?: React.CSSProperties;
+    findPanel?: React.CSSProperties;
+    searchMatch?: React.CSSProperties;
+    activeSearchMatch?: React.CSSProperties;
+    suggestionMenu?: React.CSSProperties;
+    suggestionItem?: React.CSSProperties;
+    activeSuggestionItem?: React.CSSProperties;
+    frontmatter?: React.CSSProperties;
+    blockRender?: React.CSSProperties;
+    foldToggle?: React.CSSProperties;
   };
   renderLine?: (ctx: {
     index: number;
+    id: string;
     line: string;
     type: LineType;
     isActive: boolean;
@@ -76,10 +237,61 @@ export interface HybridMarkdownEditorProps {
     indentSize?: number;
     continueListsOnEnter?: boolean;
     pasteSplitLines?: boolean;
+    historyLimit?: number;
+    historyGroupDelay?: number;
+    allowTaskToggleInReadOnly?: boolean;
+    pasteHtmlAsMarkdown?: boolean;
+    // Return null/undefined to fall back to the clipboard's plain text.
+    htmlToMarkdown?: (html: string, convert: (html: string) => string) => string | null | undefined;
+    virtualize?: boolean;
+    estimatedLineHeight?: number;
+    overscan?: number;
+    dragHandles?: boolean;
+    // Ctrl/Cmd+F opens a find/replace panel above the content.
+    findPanel?: boolean;
+    // How a leading `---` YAML block renders while not being edited: a collapsible properties table
+    // ("panel", the default), not at all ("hidden"), or as monospace source ("source").
+    frontmatter?: "panel" | "hidden" | "source";
+    // After each edit, renumbers the ordered lists it touched so every run counts up from its first item.
+    renumberOrderedLists?: boolean;
+    // Shows a fold toggle on headings and on list items with nested lines.
+    folding?: boolean;
   };
   extensions?: EditorExtension[];
+  // Merged over the default keymap and extension keymaps.
+  keymap?: Keymap;
 }
 
+type HistorySelection = { line: number | null; caret: number | null };
+
+type HistoryEntry = {
+  start: number;
+  removed: string[];
+  inserted: string[];
+  origin: ChangeOrigin;
+  before: HistorySelection;
+  after: HistorySelection;
+  time: number;
+};
+
+// The history entry that inserted a batch of upload placeholders, and the IDs of the placeholders it still holds,
+// in order from `offset` within its inserted lines.
+type PendingUpload = { entry: HistoryEntry | null; ids: string[]; offset: number };
+
+const DEFAULT_HISTORY_LIMIT = 200;
+const DEFAULT_HISTORY_GROUP_DELAY = 800;
+const DEFAULT_ESTIMATED_LINE_HEIGHT = 24;
+const DEFAULT_OVERSCAN = 20;
+// Marks HTML the editor itself put on the clipboard; its text/plain flavor is already exact Markdown.
+const CLIPBOARD_MARKER_ATTRIBUTE = "data-hybrid-markdown-source";
+const UPLOAD_PLACEHOLDER = "![Uploading…]()";
+const LINE_DRAG_TYPE = "application/x-hybrid-markdown-line";
+const SLASH_QUERY_REGEX = /^\/(.*)$/;
+
+const isImageFile = (file: File) => file.type.startsWith("image/");
+
+const getImageAlt = (file: File) => file.name.replace(/\.[^.]+$/, "").replace(/[[\]]/g, "") || "image";
+
 const cx = (...classes: Array<string | false | undefined>) =>
   classes.filter(Boolean).join(" ");
 
@@ -92,7 +304,6 @@ const LI_UL_REGEX = /^\s*[-*]\s/;
 const LI_OL_REGEX = /^\s*\d+\.\s/;
 const BLOCKQUOTE_REGEX = /^\s*>\s/;
 const MARKDOWN_PREFIX_REGEX = /^(?:#{1,4}\s|\s*[-*]\s\[[ xX]\]\s|\s*[-*]\s|\s*\d+\.\s|\s*>\s)/;
-const BOLD_TOKEN_REGEX = /\*\*([^*]+)\*\*/g;
 const INDENT_REGEX = /^(\s*)/;
 const LIST_TASK_MATCH_REGEX = /^(\s*)([-*])\s\[([ xX])\]\s/;
 const LIST_UL_MATCH_REGEX = /^(\s*)([-*])\s/;
@@ -149,87 +360,72 @@ export const getListMeta = (line: string): ListMeta => {
   return { kind: null, indent, currentMarker: "", nextMarker: "" };
 };
 
-type BoldToken = {
-  kind: "text" | "bold";
-  text: string;
-  sourceStart: number;
-  sourceEnd: number;
-};
-
-const tokenizeBold = (text: string): BoldToken[] => {
-  const tokens: BoldToken[] = [];
-  let cursor = 0;
-  BOLD_TOKEN_REGEX.lastIndex = 0;
-  let match: RegExpExecArray | null;
-  while ((match = BOLD_TOKEN_REGEX.exec(text)) !== null) {
-    if (match.index > cursor) {
-      tokens.push({
-        kind: "text",
-        text: text.slice(cursor, match.index),
-        sourceStart: cursor,
-        sourceEnd: match.index,
-      });
-    }
-    tokens.push({
-      kind: "bold",
-      text: match[1],
-      sourceStart: match.index,
-      sourceEnd: BOLD_TOKEN_REGEX.lastIndex,
-    });
-    cursor = BOLD_TOKEN_REGEX.lastIndex;
-  }
-  if (cursor < text.length || tokens.length === 0) {
-    tokens.push({ kind: "text", text: text.slice(cursor), sourceStart: cursor, sourceEnd: text.length });
-  }
-  return tokens;
-};
-
-export const parseBold = (text: string): (string | React.ReactElement)[] =>
-  tokenizeBold(text).map((token, idx) =>
-    token.kind === "bold" ? <strong key={idx}>{token.text}</strong> : token.text
-  );
+export const parseBold = (text: string): (string | React.ReactElement)[] => parseInline(text, [boldRule]);
 
 const getRemovedPrefixLength = (line: string): number =>
   line.match(MARKDOWN_PREFIX_REGEX)?.[0].length ?? 0;
 
-const buildVisibleSourceIndices = (line: string): { indices: number[]; end: number } => {
+const buildVisibleSourceIndices = (
+  line: string,
+  rules: InlineRule[] = defaultInlineRules,
+  raw = false
+): { indices: number[]; end: number } => {
+  if (raw) return { indices: Array.from({ length: line.length }, (_, i) => i), end: line.length };
   const prefix = getRemovedPrefixLength(line);
   const content = line.slice(prefix);
-  const indices: number[] = [];
-
-  for (const token of tokenizeBold(content)) {
-    if (token.kind === "text") {
-      for (let i = 0; i < token.text.length; i += 1) {
-        indices.push(prefix + token.sourceStart + i);
-      }
-    } else {
-      const visibleStart = token.sourceStart + 2;
-      for (let i = 0; i < token.text.length; i += 1) {
-        indices.push(prefix + visibleStart + i);
-      }
-    }
-  }
-
+  const indices = collectVisibleSourceIndices(tokenizeInline(content, rules), prefix, []);
   return { indices, end: line.length };
 };
 
-export const mapDisplayOffsetToSourceIndex = (line: string, displayOffset: number): number => {
-  const { indices, end } = buildVisibleSourceIndices(line);
+export const mapDisplayOffsetToSourceIndex = (
+  line: string,
+  displayOffset: number,
+  rules: InlineRule[] = defaultInlineRules
+): number => mapLineDisplayOffset(line, displayOffset, rules, false);
+
+// `raw` lines (code block content) are shown verbatim, so every source character is visible.
+const mapLineDisplayOffset = (line: string, displayOffset: number, rules: InlineRule[], raw: boolean): number => {
+  const { indices, end } = buildVisibleSourceIndices(line, rules, raw);
   if (indices.length === 0) return end;
   const offset = Math.max(0, Math.floor(displayOffset));
   if (offset >= indices.length) return end;
   return indices[offset];
 };
 
-const mapSourceIndexToDisplayOffset = (line: string, sourceIndex: number): number => {
-  const { indices } = buildVisibleSourceIndices(line);
+const mapSourceIndexToDisplayOffset = (
+  line: string,
+  sourceIndex: number,
+  rules: InlineRule[] = defaultInlineRules,
+  raw = false
+): number => {
+  const { indices } = buildVisibleSourceIndices(line, rules, raw);
   if (indices.length === 0) return 0;
   const target = Math.max(0, sourceIndex);
   const found = indices.findIndex((index) => index >= target);
   return found === -1 ? indices.length : found;
 };
 
-const getDisplayContentLength = (line: string): number => buildVisibleSourceIndices(line).indices.length;
+// Source fragments (table cells) render inline syntax without stripping a line prefix.
+const mapFragmentDisplayOffset = (text: string, displayOffset: number, rules: InlineRule[]): number => {
+  const indices = collectVisibleSourceIndices(tokenizeInline(text, rules), 0, []);
+  const offset = Math.max(0, Math.floor(displayOffset));
+  return offset >= indices.length ? text.length : indices[offset];
+};
+
+type SourceFragment = { line: number; start: number; end: number };
+
+const readSourceFragment = (element: HTMLElement | null): SourceFragment | null => {
+  const fragmentEl = element?.closest?.("[data-source-line]") as HTMLElement | null;
+  if (!fragmentEl) return null;
+  const line = Number(fragmentEl.dataset.sourceLine);
+  const start = Number(fragmentEl.dataset.sourceStart);
+  const end = Number(fragmentEl.dataset.sourceEnd);
+  if (!Number.isInteger(line) || !Number.isInteger(start) || !Number.isInteger(end)) return null;
+  return { line, start, end };
+};
+
+const getDisplayContentLength = (line: string, rules: InlineRule[] = defaultInlineRules, raw = false): number =>
+  buildVisibleSourceIndices(line, rules, raw).indices.length;
 
 const getFallbackDisplayOffset = (container: HTMLElement, clientX: number): number => {
   const rect = container.getBoundingClientRect();
@@ -241,6 +437,22 @@ const getFallbackDisplayOffset = (container: HTMLElement, clientX: number): numb
   return Math.max(0, Math.min(textLen, Math.round(ratio * textLen)));
 };
 
+// Length of the display text in `range`, leaving out rendered output that has no source text of its own.
+const getRangeDisplayLength = (range: Range): number => {
+  const contents = range.cloneContents();
+  contents.querySelectorAll(RENDERED_OUTPUT_SELECTOR).forEach((element) => element.remove());
+  return contents.textContent?.length ?? 0;
+};
+
+// The nearest ancestor that clips and scrolls its content; null when the document itself scrolls.
+const findScrollContainer = (element: HTMLElement): HTMLElement | null => {
+  for (let parent = element.parentElement; parent; parent = parent.parentElement) {
+    if (parent === document.body || parent === document.documentElement) return null;
+    if (/auto|scroll|overlay/.test(window.getComputedStyle(parent).overflowY)) return parent;
+  }
+  return null;
+};
+
 export const getClickDisplayOffset = (
   container: HTMLElement,
   clientX: number,
@@ -279,12 +491,303 @@ export const getClickDisplayOffset = (
     const range = document.createRange();
     range.selectNodeContents(container);
     range.setEnd(caretNode, caretOffset);
-    return range.toString().length;
+    return getRangeDisplayLength(range);
   } catch {
     return getFallbackDisplayOffset(container, clientX);
   }
 };
 
+// Minimal single splice turning `prev` into `next`; shared leading/trailing lines are trimmed.
+export const diffLines = (
+  prev: string[],
+  next: string[]
+): { start: number; removed: string[]; inserted: string[] } => {
+  const shared = Math.min(prev.length, next.length);
+  let start = 0;
+  while (start < shared && prev[start] === next[start]) start += 1;
+
+  let prevEnd = prev.length;
+  let nextEnd = next.length;
+  while (prevEnd > start && nextEnd > start && prev[prevEnd - 1] === next[nextEnd - 1]) {
+    prevEnd -= 1;
+    nextEnd -= 1;
+  }
+
+  return { start, removed: prev.slice(start, prevEnd), inserted: next.slice(start, nextEnd) };
+};
+
+// Where a position ends up after a splice made by someone else: lines below it shift, and a line that is
+// replaced keeps the caret on the same text around the changed span. Null when its line was deleted.
+export const mapPositionThroughSplice = (position: EditorPosition, splice: LineSplice): EditorPosition | null => {
+  const { start, removed, inserted } = splice;
+  if (position.line < start) return position;
+  if (position.line >= start + removed.length) {
+    return { line: position.line + inserted.length - removed.length, column: position.column };
+  }
+  const offset = position.line - start;
+  if (offset >= inserted.length) return null;
+  const before = removed[offset];
+  const after = inserted[offset];
+  let prefix = 0;
+  while (prefix < before.length && prefix < after.length && before[prefix] === after[prefix]) prefix += 1;
+  let suffix = 0;
+  while (
+    suffix < before.length - prefix &&
+    suffix < after.length - prefix &&
+    before[before.length - 1 - suffix] === after[after.length - 1 - suffix]
+  ) {
+    suffix += 1;
+  }
+  const column =
+    position.column <= prefix
+      ? position.column
+      : position.column >= before.length - suffix
+        ? position.column + after.length - before.length
+        : after.length - suffix;
+  return { line: start + offset, column };
+};
+
+// Moves undo entries past a remote splice so they still undo their own lines. The newest entry the splice
+// overlaps, and everything older, can no longer be undone and is dropped.
+const rebaseHistory = (entries: HistoryEntry[], splice: LineSplice): HistoryEntry[] => {
+  const rebased: HistoryEntry[] = [];
+  // The splice, in the coordinates of the document right after the entry being looked at.
+  let current = splice;
+  const shift = (selection: HistorySelection, by: LineSplice): HistorySelection =>
+    selection.line !== null && selection.line >= by.start + by.removed.length
+      ? { ...selection, line: selection.line + by.inserted.length - by.removed.length }
+      : selection;
+  for (let i = entries.length - 1; i >= 0; i -= 1) {
+    const entry = entries[i];
+    const delta = entry.inserted.length - entry.removed.length;
+    const above = current.start + current.removed.length <= entry.start;
+    if (!above && current.start < entry.start + entry.inserted.length) break;
+    const previous = above ? current : { ...current, start: current.start - delta };
+    rebased.unshift({
+      ...entry,
+      start: above ? entry.start + current.inserted.length - current.removed.length : entry.start,
+      before: shift(entry.before, previous),
+      after: shift(entry.after, current),
+    });
+    current = previous;
+  }
+  return rebased;
+};
+
+// Carries line IDs across a commit: unchanged prefix/suffix lines keep theirs, lines inside the changed
+// splice reuse the ID of an identical removed line (in order), then of the removed line at the same offset.
+export const reconcileLineIds = (
+  prevLines: string[],
+  prevIds: string[],
+  nextLines: string[],
+  createId: () => string
+): string[] => {
+  const { start, removed, inserted } = diffLines(prevLines, nextLines);
+  const removedIds = prevIds.slice(start, start + removed.length);
+  const insertedIds: Array<string | undefined> = new Array(inserted.length);
+  const used = new Set<number>();
+
+  // Removed line offsets by text; matches only move forward, so each list is consumed front to back.
+  const removedByText = new Map<string, { offsets: number[]; next: number }>();
+  removed.forEach((line, j) => {
+    const entry = removedByText.get(line);
+    if (entry) entry.offsets.push(j);
+    else removedByText.set(line, { offsets: [j], next: 0 });
+  });
+  let searchFrom = 0;
+  for (let i = 0; i < inserted.length; i += 1) {
+    const entry = removedByText.get(inserted[i]);
+    if (!entry) continue;
+    while (entry.next < entry.offsets.length && entry.offsets[entry.next] < searchFrom) entry.next += 1;
+    if (entry.next === entry.offsets.length) continue;
+    const j = entry.offsets[entry.next];
+    insertedIds[i] = removedIds[j];
+    used.add(j);
+    searchFrom = j + 1;
+  }
+  for (let i = 0; i < inserted.length; i += 1) {
+    if (insertedIds[i] !== undefined) continue;
+    if (i < removed.length && !used.has(i)) {
+      insertedIds[i] = removedIds[i];
+      used.add(i);
+    } else {
+      insertedIds[i] = createId();
+    }
+  }
+
+  return [
+    ...prevIds.slice(0, start),
+    ...(insertedIds as string[]),
+    ...prevIds.slice(start + removed.length),
+  ];
+};
+
+const isListItem = (meta: ListMeta) => meta.kind === "ul" || meta.kind === "ol" || meta.kind === "task";
+
+// Last line of the unit starting at `index`: a list item owns every deeper-indented line below it.
+export const getLineBlockEnd = (lines: readonly string[], index: number): number => {
+  const meta = getListMeta(lines[index] ?? "");
+  if (!isListItem(meta)) return index;
+  let end = index;
+  while (
+    end + 1 < lines.length &&
+    lines[end + 1].trim() !== "" &&
+    getListMeta(lines[end + 1]).indent.length > meta.indent.length
+  ) {
+    end += 1;
+  }
+  return end;
+};
+
+// For each line that can fold, the last line its fold hides: a heading's section runs to the next heading of
+// equal or higher level, a list item's to the end of its nested lines. Other lines, and lines inside blocks, get null.
+export const getFoldEnds = (
+  lines: readonly string[],
+  lineContexts: readonly LineBlockContext[] = []
+): Array<number | null> => {
+  const ends: Array<number | null> = new Array(lines.length).fill(null);
+  let open: Array<{ index: number; level: number }> = [];
+  const close = (heading: { index: number }, end: number) => {
+    if (end > heading.index) ends[heading.index] = end;
+  };
+  lines.forEach((line, index) => {
+    if (lineContexts[index]) return;
+    const type = getMarkdownType(line);
+    if (type === "h1" || type === "h2" || type === "h3" || type === "h4") {
+      const level = Number(type[1]);
+      open = open.filter((heading) => {
+        if (heading.level < level) return true;
+        close(heading, index - 1);
+        return false;
+      });
+      open.push({ index, level });
+    } else if (type === "li") {
+      const end = getLineBlockEnd(lines, index);
+      if (end > index) ends[index] = end;
+    }
+  });
+  open.forEach((heading) => close(heading, lines.length - 1));
+  return ends;
+};
+
+type LineMove = { lines: string[]; index: number };
+
+// Swaps the unit at `index` with its neighbour, jumping over a sibling list item's whole subtree.
+export const moveLineBlock = (lines: readonly string[], index: number, direction: -1 | 1): LineMove | null => {
+  if (index < 0 || index >= lines.length) return null;
+  const end = getLineBlockEnd(lines, index);
+  const indent = getListMeta(lines[index]).indent.length;
+  const isSibling = (at: number) => {
+    const meta = getListMeta(lines[at]);
+    return isListItem(meta) && meta.indent.length === indent;
+  };
+
+  if (direction === -1) {
+    if (index === 0) return null;
+    let previous = index - 1;
+    while (previous > 0 && lines[previous].trim() !== "" && getListMeta(lines[previous]).indent.length > indent) {
+      previous -= 1;
+    }
+    if (!isSibling(previous) || getLineBlockEnd(lines, previous) !== index - 1) previous = index - 1;
+    return {
+      lines: [
+        ...lines.slice(0, previous),
+        ...lines.slice(index, end + 1),
+        ...lines.slice(previous, index),
+        ...lines.slice(end + 1),
+      ],
+      index: previous,
+    };
+  }
+
+  if (end === lines.length - 1) return null;
+  const nextEnd = isSibling(end + 1) ? getLineBlockEnd(lines, end + 1) : end + 1;
+  return {
+    lines: [
+      ...lines.slice(0, index),
+      ...lines.slice(end + 1, nextEnd + 1),
+      ...lines.slice(index, end + 1),
+      ...lines.slice(nextEnd + 1),
+    ],
+    index: index + nextEnd - end,
+  };
+};
+
+// Moves the unit at `index` so it starts at insertion point `target` (an index into the unmoved lines).
+export const moveLineBlockTo = (lines: readonly string[], index: number, target: number): LineMove | null => {
+  if (index < 0 || index >= lines.length) return null;
+  const end = getLineBlockEnd(lines, index);
+  const insertAt = Math.max(0, Math.min(lines.length, target));
+  if (insertAt >= index && insertAt <= end + 1) return null;
+  const block = lines.slice(index, end + 1);
+  const rest = [...lines.slice(0, index), ...lines.slice(end + 1)];
+  const nextIndex = insertAt > end ? insertAt - block.length : insertAt;
+  return { lines: [...rest.slice(0, nextIndex), ...block, ...rest.slice(nextIndex)], index: nextIndex };
+};
+
+// Line indices of each run of sibling ordered items: items at one indent, interrupted only by blank lines and
+// deeper-indented content. Any other line at or left of the run's indent ends it; block lines count once, by their
+// first line. Only lines `from`..`to` are scanned.
+export const findOrderedListRuns = (
+  lines: readonly string[],
+  lineContexts: readonly LineBlockContext[] = [],
+  from = 0,
+  to = lines.length - 1
+): number[][] => {
+  const runs: number[][] = [];
+  let open: Array<{ indent: number; items: number[] }> = [];
+  for (let index = Math.max(0, from); index <= Math.min(to, lines.length - 1); index += 1) {
+    const line = lines[index];
+    const context = lineContexts[index];
+    if ((context && context.block.start !== index) || line.trim() === "") continue;
+    const meta = context ? null : getListMeta(line);
+    const indent = (meta?.kind ? meta.indent : (line.match(INDENT_REGEX)?.[1] ?? "")).length;
+    open = open.filter((run) => run.indent < indent || (run.indent === indent && meta?.kind === "ol"));
+    if (meta?.kind !== "ol") continue;
+    const run = open.find((candidate) => candidate.indent === indent);
+    if (run) {
+      run.items.push(index);
+    } else {
+      const created = { indent, items: [index] };
+      open.push(created);
+      runs.push(created.items);
+    }
+  }
+  return runs;
+};
+
+// An unindented line that is not an ordered item (or a block's first line) ends every run.
+const endsAllOrderedListRuns = (lines: readonly string[], lineContexts: readonly LineBlockContext[], index: number) => {
+  const context = lineContexts[index];
+  if (context) return context.block.start === index && /^\S/.test(lines[index]);
+  return /^\S/.test(lines[index]) && getListMeta(lines[index]).kind !== "ol";
+};
+
+// Renumbers the runs with an item in [from, to] consecutively from each run's first number. Only the lines between
+// the nearest run-ending lines around the range are scanned, so an edit does not walk the whole document.
+export const renumberOrderedLists = (
+  lines: readonly string[],
+  from = 0,
+  to = lines.length - 1,
+  lineContexts: readonly LineBlockContext[] = []
+): string[] => {
+  const next = [...lines];
+  let first = Math.max(0, Math.min(from, lines.length - 1));
+  while (first > 0 && !endsAllOrderedListRuns(lines, lineContexts, first)) first -= 1;
+  let last = Math.max(first, Math.min(to, lines.length - 1));
+  while (last < lines.length - 1 && !endsAllOrderedListRuns(lines, lineContexts, last + 1)) last += 1;
+  for (const items of findOrderedListRuns(lines, lineContexts, first, last)) {
+    if (items[items.length - 1] < from || items[0] > to) continue;
+    let number = getListMeta(lines[items[0]]).number ?? 1;
+    for (const index of items) {
+      const match = lines[index].match(LIST_OL_MATCH_REGEX)!;
+      next[index] = `${match[1]}${number}${lines[index].slice(match[1].length + match[2].length)}`;
+      number += 1;
+    }
+  }
+  return next;
+};
+
 const getListMarker = (line: string): string | null => {
   const meta = getListMeta(line);
   if (meta.kind === "ul") return "•";
@@ -297,58 +800,349 @@ const getListMarker = (line: string): string | null => {
   return null;
 };
 
+// Marks the matches on `line` in text that starts at source column `offset` of that line.
+const createSearchHighlights = (
+  matches: readonly SearchMatch[] | undefined,
+  line: number,
+  offset: number,
+  activeMatch: SearchMatch | null | undefined,
+  classNames?: HybridMarkdownEditorProps["classNames"],
+  styles?: HybridMarkdownEditorProps["styles"]
+): InlineHighlight[] =>
+  (matches ?? [])
+    .filter((match) => match.line === line)
+    .map((match) => {
+      const isActive = activeMatch?.line === line && activeMatch.start === match.start;
+      return {
+        start: match.start - offset,
+        end: match.end - offset,
+        render: (text) => (
+          <mark
+            data-role="search-match"
+            data-active={isActive ? "true" : undefined}
+            className={cx(classNames?.searchMatch, isActive && classNames?.activeSearchMatch)}
+            style={{
+              background: isActive ? "rgba(255, 150, 0, 0.6)" : "rgba(255, 210, 0, 0.4)",
+              color: "inherit",
+              padding: 0,
+              ...styles?.searchMatch,
+              ...(isActive ? styles?.activeSearchMatch : null),
+            }}
+          >
+            {text}
+          </mark>
+        ),
+      };
+    });
+
+const TablePreview: React.FC<{
+  start: number;
+  rows: string[];
+  alignments: TableAlignment[];
+  inlineRules: InlineRule[];
+  classNames?: HybridMarkdownEditorProps["classNames"];
+  styles?: HybridMarkdownEditorProps["styles"];
+  searchMatches?: SearchMatch[];
+  activeSearchMatch?: SearchMatch | null;
+}> = ({ start, rows, alignments, inlineRules, classNames, styles, searchMatches, activeSearchMatch }) => {
+  const renderRow = (rowIndex: number) => {
+    const row = rows[rowIndex] ?? "";
+    const cells = splitTableRow(row);
+    const CellTag = rowIndex === 0 ? "th" : "td";
+    return (
+      <tr key={rowIndex} data-table-row={start + rowIndex}>
+        {alignments.map((alignment, column) => {
+          const cell = cells[column];
+          const text = cell ? row.slice(cell.start, cell.end) : "";
+          return (
+            <CellTag
+              key={column}
+              data-source-line={cell ? start + rowIndex : undefined}
+              data-source-start={cell?.start}
+              data-source-end={cell?.end}
+              className={classNames?.tableCell}
+              style={{
+                textAlign: alignment ?? undefined,
+                border: "1px solid rgba(127, 127, 127, 0.3)",
+                padding: "2px 8px",
+                ...styles?.tableCell,
+              }}
+            >
+              <span data-role="source-content">
+                {text === ""
+                  ? "\u00A0"
+                  : parseInline(
+                      text,
+                      inlineRules,
+                      createSearchHighlights(
+                        searchMatches,
+                        start + rowIndex,
+                        cell!.start,
+                        activeSearchMatch,
+                        classNames,
+                        styles
+                      )
+                    )}
+              </span>
+            </CellTag>
+          );
+        })}
+      </tr>
+    );
+  };
+
+  return (
+    <table
+      data-role="table-preview"
+      className={classNames?.table}
+      style={{ borderCollapse: "collapse", ...styles?.table }}
+    >
+      <thead>{renderRow(0)}</thead>
+      <tbody>{rows.slice(2).map((_, offset) => renderRow(offset + 2))}</tbody>
+    </table>
+  );
+};
+
+// Code, math, and frontmatter lines are literal text: no list markers or inline syntax.
+const isRawBlock = (context: LineBlockContext | undefined) =>
+  context?.block.kind === "code" || context?.block.kind === "math" || context?.block.kind === "frontmatter";
+
+const formatFrontmatterValue = (value: FrontmatterData[string]): string =>
+  Array.isArray(value) ? value.map((item) => String(item ?? "")).join(", ") : String(value ?? "");
+
+// Rows carry their entry's source line; the toggle only changes the view, so it works in read-only mode too.
+const FrontmatterPanel: React.FC<{
+  start: number;
+  rows: string[];
+  collapsed: boolean;
+  onToggle: () => void;
+  classNames?: HybridMarkdownEditorProps["classNames"];
+  styles?: HybridMarkdownEditorProps["styles"];
+}> = ({ start, rows, collapsed, onToggle, classNames, styles }) => {
+  const entries = getFrontmatterEntries(rows) ?? [];
+  return (
+    <div
+      data-role="frontmatter"
+      className={classNames?.frontmatter}
+      style={{
+        flex: "1 1 auto",
+        border: "1px solid rgba(127, 127, 127, 0.3)",
+        borderRadius: 4,
+        padding: "2px 8px",
+        ...styles?.frontmatter,
+      }}
+    >
+      <button
+        type="button"
+        data-role="frontmatter-toggle"
+        aria-expanded={!collapsed}
+        style={{ background: "none", border: "none", padding: 0, cursor: "pointer", font: "inherit", opacity: 0.7 }}
+        onMouseDown={(event) => event.preventDefault()}
+        onClick={onToggle}
+      >
+        {collapsed ? "▸" : "▾"} Properties
+      </button>
+      {collapsed ? null : (
+        <table style={{ borderCollapse: "collapse" }}>
+          <tbody>
+            {entries.map((entry) => (
+              <tr key={entry.start} data-frontmatter-row={start + entry.start}>
+                <th scope="row" style={{ textAlign: "left", fontWeight: 500, padding: "0 12px 0 0", opacity: 0.7 }}>
+                  {entry.key}
+                </th>
+                <td style={{ padding: 0, whiteSpace: "pre-wrap" }}>{formatFrontmatterValue(entry.value) || "\u00A0"}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+};
+
+const toggleTaskMarker = (line: string): string | null => {
+  const match = line.match(LIST_TASK_MATCH_REGEX);
+  if (!match) return null;
+  const box = match[0].lastIndexOf("[") + 1;
+  return line.slice(0, box) + (match[3] === " " ? "x" : " ") + line.slice(box + 1);
+};
+
+// The innermost-first `ruleName` token whose content contains the source range [start, end] of `line`;
+// token offsets are relative to the line without its block prefix, which `offset` adds back.
+const findInlineTokenAt = (
+  line: string,
+  rules: InlineRule[],
+  ruleName: string,
+  start: number,
+  end: number
+): { token: InlineToken; offset: number } | null => {
+  const offset = getRemovedPrefixLength(line);
+  const visit = (tokens: InlineToken[]): InlineToken | null => {
+    for (const token of tokens) {
+      if (token.kind === ruleName && token.contentStart + offset <= start && end <= token.contentEnd + offset) {
+        return token;
+      }
+      const nested = visit(token.children);
+      if (nested) return nested;
+    }
+    return null;
+  };
+  const token = visit(tokenizeInline(line.slice(offset), rules));
+  return token ? { token, offset } : null;
+};
+
+export type BlockFormat = "h1" | "h2" | "h3" | "h4" | "ul" | "ol" | "task" | "blockquote";
+
+export const getLineBlockFormat = (line: string): BlockFormat | null => {
+  const type = getMarkdownType(line);
+  if (type === "h1" || type === "h2" || type === "h3" || type === "h4") return type;
+  return getListMeta(line).kind;
+};
+
+// Replaces the line's heading/list/quote prefix with `format`'s, or removes it when the line already has
+// that format. List and quote indentation is kept; headings cannot be indented. Ordered items continue
+// the numbering of an ordered `previousLine` at the same indentation.
+export const toggleLineBlockFormat = (
+  line: string,
+  format: BlockFormat,
+  previousLine = ""
+): { line: string; contentStart: number; previousContentStart: number } => {
+  const current = getLineBlockFormat(line);
+  const meta = getListMeta(line);
+  const previousContentStart = Math.max(getRemovedPrefixLength(line), meta.indent.length);
+  const content = line.slice(previousContentStart);
+  let prefix = "";
+  if (current !== format) {
+    if (format === "ul" || format === "task") {
+      const bullet = line.match(LIST_UL_MATCH_REGEX)?.[2] ?? "-";
+      prefix = `${meta.indent}${bullet} ${format === "task" ? "[ ] " : ""}`;
+    } else if (format === "ol") {
+      const previous = getListMeta(previousLine);
+      const number = previous.kind === "ol" && previous.indent === meta.indent ? (previous.number ?? 0) + 1 : 1;
+      prefix = `${meta.indent}${number}. `;
+    } else if (format === "blockquote") {
+      prefix = `${meta.indent}> `;
+    } else {
+      prefix = `${"#".repeat(Number(format[1]))} `;
+    }
+  } else if (format !== "h1" && format !== "h2" && format !== "h3" && format !== "h4") {
+    prefix = meta.indent;
+  }
+  return { line: prefix + content, contentStart: prefix.length, previousContentStart };
+};
+
 const EditorLine: React.FC<{
   index: number;
+  id: string;
   line: string;
   isActive: boolean;
   readOnly: boolean;
   focusVersion: number;
   onUpdate: (e: React.ChangeEvent<HTMLTextAreaElement>) => void;
-  onActivate: (caret?: number | null) => void;
+  onActivate: (caret?: number | null, lineIndex?: number) => void;
+  onToggleTask?: () => void;
+  onDragHandleStart?: (event: React.DragEvent<HTMLSpanElement>) => void;
   onKeyDown: (e: React.KeyboardEvent<HTMLTextAreaElement>) => void;
   onPaste: (e: React.ClipboardEvent<HTMLTextAreaElement>) => void;
   cursorPositionRef: React.MutableRefObject<number | null>;
+  selectionEndRef: React.MutableRefObject<number | null>;
+  skipFocusRef: React.MutableRefObject<boolean>;
   isSelectingRef: React.MutableRefObject<boolean>;
   classNames?: HybridMarkdownEditorProps["classNames"];
   styles?: HybridMarkdownEditorProps["styles"];
   renderLine?: HybridMarkdownEditorProps["renderLine"];
   extensionsPrefix?: EditorExtension[];
   extensionsSuffix?: EditorExtension[];
+  inlineRules: InlineRule[];
+  block: LineBlockContext;
+  tableLines?: string[] | null;
+  frontmatterLines?: string[] | null;
+  // Output of a block renderer, shown by the block's first line in place of the whole block.
+  blockPreview?: { key: string; node: React.ReactNode; position: EditorPosition } | null;
+  frontmatterCollapsed?: boolean;
+  onToggleFrontmatter?: () => void;
+  folded?: boolean;
+  // Renders a fold toggle; only given to lines that can fold.
+  onToggleFold?: () => void;
+  hidden?: boolean;
+  searchMatches?: SearchMatch[];
+  activeSearchMatch?: SearchMatch | null;
+  textareaAria?: React.AriaAttributes;
 }> = ({
   index,
+  id,
   line,
   isActive,
   readOnly,
   focusVersion,
   onUpdate,
   onActivate,
+  onToggleTask,
+  onDragHandleStart,
   onKeyDown,
   onPaste,
   cursorPositionRef,
+  selectionEndRef,
+  skipFocusRef,
   isSelectingRef,
   classNames,
   styles,
   renderLine,
   extensionsPrefix,
   extensionsSuffix,
+  inlineRules,
+  block,
+  tableLines,
+  frontmatterLines,
+  blockPreview,
+  frontmatterCollapsed = false,
+  onToggleFrontmatter,
+  folded = false,
+  onToggleFold,
+  hidden,
+  searchMatches,
+  activeSearchMatch,
+  textareaAria,
 }) => {
-  const type = getMarkdownType(line);
+  // Math blocks without a renderer display like code.
+  const codeRole = block?.block.kind === "code" || block?.block.kind === "math" ? block.role : null;
+  const tableRole = block?.block.kind === "table" ? block.role : null;
+  const frontmatterRole = block?.block.kind === "frontmatter" ? block.role : null;
+  const type: LineType = codeRole
+    ? block?.block.kind === "math" ? "math" : "code"
+    : tableRole
+      ? "table"
+      : frontmatterRole
+        ? "frontmatter"
+        : getMarkdownType(line);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const searchHighlightsRef = useRef<HTMLDivElement>(null);
   const listMeta = type === "li" || type === "blockquote" ? getListMeta(line) : null;
-  const marker = getListMarker(line);
+  const marker = block ? null : getListMarker(line);
   const indentPx = listMeta ? Math.min(160, listMeta.indent.replace(/\t/g, "  ").length * 8) : 0;
 
   useEffect(() => {
     if (!isActive || readOnly || !textareaRef.current) return;
-    textareaRef.current.focus();
+    // Find-panel navigation selects a hit without taking focus away from the panel.
+    if (skipFocusRef.current) skipFocusRef.current = false;
+    else textareaRef.current.focus();
     const pos = cursorPositionRef.current;
     if (typeof pos === "number") {
-      const safe = Math.max(0, Math.min(textareaRef.current.value.length, pos));
-      textareaRef.current.setSelectionRange(safe, safe);
+      const length = textareaRef.current.value.length;
+      const safe = Math.max(0, Math.min(length, pos));
+      textareaRef.current.setSelectionRange(safe, Math.max(safe, Math.min(length, selectionEndRef.current ?? safe)));
       cursorPositionRef.current = null;
     }
+    selectionEndRef.current = null;
     textareaRef.current.scrollIntoView({ block: "nearest" });
-  }, [isActive, readOnly, focusVersion, cursorPositionRef]);
+  }, [isActive, readOnly, focusVersion, cursorPositionRef, selectionEndRef, skipFocusRef]);
+
+  // Class names and inherited fonts style the textarea too, so the overlay copies what the textarea resolved to.
+  useLayoutEffect(() => {
+    if (textareaRef.current && searchHighlightsRef.current) {
+      mirrorTextareaStyle(textareaRef.current, searchHighlightsRef.current);
+    }
+  });
 
   const handleChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
     const caret = e.currentTarget.selectionStart ?? null;
@@ -358,6 +1152,10 @@ const EditorLine: React.FC<{
     onUpdate(e);
   };
 
+  // Rows after a table's header are folded into the header line's rendered <table>, frontmatter lines
+  // into the panel on its first line (or hidden altogether); lines inside a fold are hidden too.
+  if (hidden) return <div data-line-index={index} data-block={block?.block.kind} hidden />;
+
   const typeClass = classNames?.lineTypes?.[type] || "";
   const activeClass = isActive ? classNames?.activeLine || "" : "";
   const customLineClass =
@@ -366,54 +1164,163 @@ const EditorLine: React.FC<{
       : classNames?.line || "";
 
   const sourceContent = line.replace(MARKDOWN_PREFIX_REGEX, "");
-  const defaultContent = (
+  const highlightsAt = (offset: number) =>
+    createSearchHighlights(searchMatches, index, offset, activeSearchMatch, classNames, styles);
+  const defaultContent = tableLines && block?.block.kind === "table" ? (
+    <TablePreview
+      start={index}
+      rows={tableLines}
+      alignments={block.block.alignments}
+      inlineRules={inlineRules}
+      classNames={classNames}
+      styles={styles}
+      searchMatches={searchMatches}
+      activeSearchMatch={activeSearchMatch}
+    />
+  ) : blockPreview ? (
+    <div
+      data-role="block-render"
+      data-renderer={blockPreview.key}
+      className={classNames?.blockRender}
+      style={{ flex: "1 1 auto", minWidth: 0, cursor: readOnly ? undefined : "text", ...styles?.blockRender }}
+    >
+      {blockPreview.node}
+    </div>
+  ) : frontmatterLines ? (
+    <FrontmatterPanel
+      start={index}
+      rows={frontmatterLines}
+      collapsed={frontmatterCollapsed}
+      onToggle={() => onToggleFrontmatter?.()}
+      classNames={classNames}
+      styles={styles}
+    />
+  ) : block ? (
+    <span
+      data-role="source-content"
+      style={{
+        whiteSpace: "pre-wrap",
+        fontFamily: tableRole || frontmatterRole ? "monospace" : undefined,
+        opacity: codeRole === "open" || codeRole === "close" || frontmatterRole === "open" || frontmatterRole === "close"
+          ? 0.5
+          : undefined,
+      }}
+    >
+      {line === "" ? "\u00A0" : renderHighlightedText(line, 0, highlightsAt(0))}
+    </span>
+  ) : (
     <span data-role="source-content">
-      {line.trim() === "" ? "\u00A0" : parseBold(sourceContent)}
+      {line.trim() === ""
+        ? "\u00A0"
+        : parseInline(sourceContent, inlineRules, highlightsAt(line.length - sourceContent.length))}
     </span>
   );
+  const textareaHighlights = isActive && searchMatches?.length ? highlightsAt(0) : [];
+  const foldToggle = onToggleFold ? (
+    <button
+      type="button"
+      data-role="fold-toggle"
+      aria-expanded={!folded}
+      aria-label={`${folded ? "Unfold" : "Fold"} line ${index + 1}`}
+      className={classNames?.foldToggle}
+      style={{
+        flex: "0 0 auto",
+        userSelect: "none",
+        cursor: "pointer",
+        background: "none",
+        border: 0,
+        padding: 0,
+        font: "inherit",
+        opacity: 0.5,
+        ...styles?.foldToggle,
+      }}
+      // Keep focus (and the caret) in the active textarea.
+      onMouseDown={(event) => event.preventDefault()}
+      onClick={onToggleFold}
+    >
+      {folded ? "▸" : "▾"}
+    </button>
+  ) : null;
+  const codeBlockStyle: React.CSSProperties | undefined = codeRole && !blockPreview
+    ? {
+        fontFamily: "monospace",
+        background: "rgba(127, 127, 127, 0.08)",
+        padding: "0 8px",
+        boxSizing: "border-box",
+        ...styles?.codeBlock,
+      }
+    : undefined;
 
   return (
     <div
       data-line-index={index}
-      className={cx(typeClass, activeClass, customLineClass)}
-      style={{ position: "relative", width: "100%", userSelect: "text", ...styles?.line }}
+      data-block={block?.block.kind}
+      data-block-role={block?.role}
+      data-folded={folded ? "true" : undefined}
+      className={cx(typeClass, activeClass, customLineClass, codeRole && !blockPreview ? classNames?.codeBlock : undefined)}
+      style={{ position: "relative", width: "100%", userSelect: "text", ...styles?.line, ...codeBlockStyle }}
     >
       {isActive && !readOnly ? (
         <div style={{ display: "flex", alignItems: "baseline", gap: 8 }}>
+          {foldToggle}
           {extensionsPrefix?.map((ext, extIndex) => (
             <React.Fragment key={`active-prefix-${extIndex}`}>
-              {ext.renderLinePrefix?.({ index, line, type, isActive }) || null}
+              {ext.renderLinePrefix?.({ index, id, line, type, isActive }) || null}
             </React.Fragment>
           ))}
-          <TextareaAutosize
-            ref={textareaRef}
-            aria-label={`Markdown line ${index + 1}`}
-            className={classNames?.textarea}
-            value={line}
-            onChange={handleChange}
-            onKeyDown={onKeyDown}
-            onPaste={onPaste}
-            onSelect={(e) => {
-              const caret = (e.target as HTMLTextAreaElement).selectionStart ?? null;
-              if (!isSelectingRef.current && typeof caret === "number") {
-                cursorPositionRef.current = caret;
-              }
-            }}
-            autoFocus
-            style={{
-              width: "100%",
-              resize: "none",
-              overflow: "hidden",
-              background: "transparent",
-              outline: "none",
-              padding: 0,
-              border: "none",
-              ...styles?.textarea,
-            }}
-          />
+          <div style={{ position: "relative", flex: "1 1 auto", minWidth: 0 }}>
+            {textareaHighlights.length > 0 ? (
+              // Textareas cannot style ranges, so matches are painted on a transparent copy of the text behind it.
+              <div
+                ref={searchHighlightsRef}
+                data-role="search-highlights"
+                aria-hidden="true"
+                style={{
+                  position: "absolute",
+                  inset: 0,
+                  pointerEvents: "none",
+                  color: "transparent",
+                  borderColor: "transparent",
+                  whiteSpace: "pre-wrap",
+                  overflowWrap: "break-word",
+                }}
+              >
+                {renderHighlightedText(line, 0, textareaHighlights)}
+              </div>
+            ) : null}
+            <TextareaAutosize
+              ref={textareaRef}
+              aria-label={`Markdown line ${index + 1}`}
+              {...textareaAria}
+              className={classNames?.textarea}
+              value={line}
+              onChange={handleChange}
+              onKeyDown={onKeyDown}
+              onPaste={onPaste}
+              onSelect={(e) => {
+                const caret = (e.target as HTMLTextAreaElement).selectionStart ?? null;
+                if (!isSelectingRef.current && typeof caret === "number") {
+                  cursorPositionRef.current = caret;
+                }
+              }}
+              style={{
+                position: "relative",
+                display: "block",
+                width: "100%",
+                resize: "none",
+                overflow: "hidden",
+                background: "transparent",
+                outline: "none",
+                padding: 0,
+                border: "none",
+                ...(block ? { fontFamily: "monospace" } : null),
+                ...styles?.textarea,
+              }}
+            />
+          </div>
           {extensionsSuffix?.map((ext, extIndex) => (
             <React.Fragment key={`active-suffix-${extIndex}`}>
-              {ext.renderLineSuffix?.({ index, line, type, isActive }) || null}
+              {ext.renderLineSuffix?.({ index, id, line, type, isActive }) || null}
             </React.Fragment>
           ))}
         </div>
@@ -434,31 +1341,112 @@ const EditorLine: React.FC<{
             if (selection && !selection.isCollapsed && selection.toString().length > 0) return;
 
             const target = event.target as HTMLElement;
+            if (target.closest('[data-role="task-checkbox"], [data-role="drag-handle"], [data-role="fold-toggle"]')) return;
+            // Modifier-click follows links instead of editing them.
+            if ((event.ctrlKey || event.metaKey) && target.closest('[data-role="inline-link"], [data-role="wiki-link"]')) return;
+            if (target.closest('[data-role="frontmatter-toggle"]')) return;
+            if (blockPreview) {
+              onActivate(blockPreview.position.column, blockPreview.position.line);
+              return;
+            }
+            // Rendered inline output (math) has no display text; clicking it edits its source.
+            const renderedEl = target.closest(RENDERED_OUTPUT_SELECTOR) as HTMLElement | null;
+            if (renderedEl) {
+              const offset = Number(renderedEl.dataset.sourceOffset);
+              const cell = tableLines ? readSourceFragment(renderedEl) : null;
+              if (cell) onActivate(cell.start + offset, cell.line);
+              else onActivate(getRemovedPrefixLength(line) + offset);
+              return;
+            }
+            const propertyEl = frontmatterLines ? (target.closest("[data-frontmatter-row]") as HTMLElement | null) : null;
+            if (frontmatterLines && propertyEl) {
+              const rowIndex = Number(propertyEl.dataset.frontmatterRow);
+              onActivate((frontmatterLines[rowIndex - index] ?? "").length, rowIndex);
+              return;
+            }
+            const fragment = tableLines ? readSourceFragment(target) : null;
+            if (tableLines && fragment) {
+              const cellEl = target.closest("[data-source-line]") as HTMLElement;
+              const cellSourceEl = cellEl.querySelector('[data-role="source-content"]') as HTMLElement;
+              const rowText = tableLines[fragment.line - index] ?? "";
+              const offset = getClickDisplayOffset(cellSourceEl, event.clientX, event.clientY);
+              onActivate(
+                fragment.start +
+                  mapFragmentDisplayOffset(rowText.slice(fragment.start, fragment.end), offset, inlineRules),
+                fragment.line
+              );
+              return;
+            }
+            const rowEl = tableLines ? (target.closest("[data-table-row]") as HTMLElement | null) : null;
+            if (tableLines && rowEl) {
+              const rowIndex = Number(rowEl.dataset.tableRow);
+              onActivate((tableLines[rowIndex - index] ?? "").length, rowIndex);
+              return;
+            }
+
             const sourceEl = target.closest('[data-role="source-content"]') as HTMLElement | null;
             if (!sourceEl) {
               onActivate(line.length);
               return;
             }
             const offset = getClickDisplayOffset(sourceEl, event.clientX, event.clientY);
-            onActivate(mapDisplayOffsetToSourceIndex(line, offset));
+            onActivate(mapLineDisplayOffset(line, offset, inlineRules, block !== null));
           }}
         >
+          {onDragHandleStart ? (
+            <span
+              data-role="drag-handle"
+              draggable
+              aria-hidden="true"
+              title="Drag to move"
+              className={classNames?.dragHandle}
+              style={{ flex: "0 0 auto", userSelect: "none", cursor: "grab", opacity: 0.5, ...styles?.dragHandle }}
+              onDragStart={onDragHandleStart}
+            >
+              ⋮⋮
+            </span>
+          ) : null}
+          {foldToggle}
           {extensionsPrefix?.map((ext, extIndex) => (
             <React.Fragment key={`prefix-${extIndex}`}>
-              {ext.renderLinePrefix?.({ index, line, type, isActive }) || null}
+              {ext.renderLinePrefix?.({ index, id, line, type, isActive }) || null}
             </React.Fragment>
           ))}
-          {marker ? (
+          {marker && listMeta?.kind === "task" ? (
+            <span
+              data-role="line-marker"
+              className={classNames?.marker}
+              style={{ flex: "0 0 auto", userSelect: "none", cursor: onToggleTask ? "pointer" : undefined, ...styles?.marker }}
+            >
+              <span
+                data-role="task-checkbox"
+                role="checkbox"
+                aria-checked={marker === "☑"}
+                aria-disabled={onToggleTask ? undefined : true}
+                aria-label={`Toggle task on line ${index + 1}`}
+                tabIndex={onToggleTask ? 0 : -1}
+                onMouseDown={(event) => event.preventDefault()}
+                onClick={() => onToggleTask?.()}
+                onKeyDown={(event) => {
+                  if (event.key !== " " && event.key !== "Enter") return;
+                  event.preventDefault();
+                  onToggleTask?.();
+                }}
+              >
+                {marker}
+              </span>
+            </span>
+          ) : marker ? (
             <span data-role="line-marker" className={classNames?.marker} style={{ flex: "0 0 auto", userSelect: "none", ...styles?.marker }}>
               {marker}
             </span>
           ) : null}
           {renderLine
-            ? renderLine({ index, line, type, isActive, defaultContent })
+            ? renderLine({ index, id, line, type, isActive, defaultContent })
             : defaultContent}
           {extensionsSuffix?.map((ext, extIndex) => (
             <React.Fragment key={`suffix-${extIndex}`}>
-              {ext.renderLineSuffix?.({ index, line, type, isActive }) || null}
+              {ext.renderLineSuffix?.({ index, id, line, type, isActive }) || null}
             </React.Fragment>
           ))}
         </div>
@@ -467,10 +1455,221 @@ const EditorLine: React.FC<{
   );
 };
 
-export const HybridMarkdownEditor: React.FC<HybridMarkdownEditorProps> = ({
+// Just below the caret of `textarea`, in the coordinate space of `container`.
+const getCaretPopupPosition = (textarea: HTMLTextAreaElement, container: HTMLElement) => {
+  const caret = getCaretCoordinates(textarea, textarea.selectionStart ?? textarea.value.length);
+  const textareaRect = textarea.getBoundingClientRect();
+  const containerRect = container.getBoundingClientRect();
+  return {
+    top: textareaRect.top - containerRect.top + caret.top - textarea.scrollTop + caret.height,
+    left: textareaRect.left - containerRect.left + caret.left - textarea.scrollLeft,
+  };
+};
+
+// A listbox driven from the active textarea through aria-activedescendant; it never takes focus.
+const SuggestionMenu: React.FC<{
+  id: string;
+  label: string;
+  items: Array<{ id: string; label: React.ReactNode; description?: React.ReactNode }>;
+  activeIndex: number;
+  position: { top: number; left: number } | null;
+  onPick: (index: number) => void;
+  onHover: (index: number) => void;
+  classNames?: HybridMarkdownEditorProps["classNames"];
+  styles?: HybridMarkdownEditorProps["styles"];
+}> = ({ id, label, items, activeIndex, position, onPick, onHover, classNames, styles }) => {
+  const listRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    listRef.current?.querySelector<HTMLElement>('[aria-selected="true"]')?.scrollIntoView({ block: "nearest" });
+  }, [activeIndex]);
+
+  return (
+    <div
+      ref={listRef}
+      id={id}
+      role="listbox"
+      aria-label={label}
+      data-role="suggestion-menu"
+      className={classNames?.suggestionMenu}
+      style={{
+        position: "absolute",
+        top: position?.top ?? 0,
+        left: position?.left ?? 0,
+        visibility: position ? undefined : "hidden",
+        zIndex: 10,
+        minWidth: 180,
+        maxHeight: 240,
+        overflowY: "auto",
+        background: "Canvas",
+        color: "CanvasText",
+        border: "1px solid GrayText",
+        ...styles?.suggestionMenu,
+      }}
+    >
+      {items.map((item, itemIndex) => {
+        const isActive = itemIndex === activeIndex;
+        return (
+          <div
+            key={item.id}
+            id={`${id}-${itemIndex}`}
+            role="option"
+            aria-selected={isActive}
+            className={cx(classNames?.suggestionItem, isActive && classNames?.activeSuggestionItem)}
+            style={{
+              padding: "2px 8px",
+              cursor: "pointer",
+              ...styles?.suggestionItem,
+              ...(isActive ? { background: "Highlight", color: "HighlightText", ...styles?.activeSuggestionItem } : null),
+            }}
+            // Keep focus (and the caret) in the textarea.
+            onMouseDown={(event) => event.preventDefault()}
+            onMouseEnter={() => onHover(itemIndex)}
+            onClick={() => onPick(itemIndex)}
+          >
+            {item.label}
+            {item.description ? (
+              <span data-role="suggestion-description" style={{ marginLeft: 8, opacity: 0.7 }}>
+                {item.description}
+              </span>
+            ) : null}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+const FindReplacePanel: React.FC<{
+  query: SearchQuery;
+  matchCount: number;
+  activeMatchNumber: number | null;
+  readOnly: boolean;
+  focusVersion: number;
+  onQueryChange: (query: SearchQuery) => void;
+  onStep: (direction: 1 | -1) => void;
+  onReplace: (replacement: string) => void;
+  onReplaceAll: (replacement: string) => void;
+  onClose: () => void;
+  className?: string;
+  style?: React.CSSProperties;
+}> = ({
+  query,
+  matchCount,
+  activeMatchNumber,
+  readOnly,
+  focusVersion,
+  onQueryChange,
+  onStep,
+  onReplace,
+  onReplaceAll,
+  onClose,
+  className,
+  style,
+}) => {
+  const [replacement, setReplacement] = useState("");
+  const findInputRef = useRef<HTMLInputElement>(null);
+  const invalid = query.text !== "" && createSearchPattern(query) === null;
+
+  useEffect(() => {
+    findInputRef.current?.focus();
+    findInputRef.current?.select();
+  }, [focusVersion]);
+
+  const toggle = (key: "caseSensitive" | "wholeWord" | "regex", label: string, text: string) => (
+    <button
+      type="button"
+      aria-label={label}
+      aria-pressed={!!query[key]}
+      title={label}
+      onClick={() => onQueryChange({ ...query, [key]: !query[key] })}
+    >
+      {text}
+    </button>
+  );
+
+  return (
+    <div
+      data-role="find-panel"
+      role="search"
+      className={className}
+      style={{ display: "flex", flexWrap: "wrap", alignItems: "center", gap: 4, ...style }}
+      onKeyDown={(event) => {
+        if (event.key !== "Escape") return;
+        event.preventDefault();
+        onClose();
+      }}
+    >
+      <input
+        ref={findInputRef}
+        type="text"
+        aria-label="Find"
+        aria-invalid={invalid || undefined}
+        placeholder="Find"
+        value={query.text}
+        onChange={(event) => onQueryChange({ ...query, text: event.target.value })}
+        onKeyDown={(event) => {
+          if (event.key !== "Enter") return;
+          event.preventDefault();
+          onStep(event.shiftKey ? -1 : 1);
+        }}
+      />
+      {toggle("caseSensitive", "Match case", "Aa")}
+      {toggle("wholeWord", "Match whole word", "W")}
+      {toggle("regex", "Use regular expression", ".*")}
+      <span data-role="find-count" aria-live="polite">
+        {invalid
+          ? "Invalid pattern"
+          : matchCount === 0
+            ? "No results"
+            : activeMatchNumber !== null
+              ? `${activeMatchNumber} of ${matchCount}`
+              : `${matchCount} ${matchCount === 1 ? "result" : "results"}`}
+      </span>
+      <button type="button" aria-label="Previous match" onClick={() => onStep(-1)} disabled={matchCount === 0}>
+        ↑
+      </button>
+      <button type="button" aria-label="Next match" onClick={() => onStep(1)} disabled={matchCount === 0}>
+        ↓
+      </button>
+      {readOnly ? null : (
+        <>
+          <input
+            type="text"
+            aria-label="Replace"
+            placeholder="Replace"
+            value={replacement}
+            onChange={(event) => setReplacement(event.target.value)}
+            onKeyDown={(event) => {
+              if (event.key !== "Enter") return;
+              event.preventDefault();
+              onReplace(replacement);
+            }}
+          />
+          <button type="button" onClick={() => onReplace(replacement)} disabled={matchCount === 0}>
+            Replace
+          </button>
+          <button type="button" onClick={() => onReplaceAll(replacement)} disabled={matchCount === 0}>
+            Replace all
+          </button>
+        </>
+      )}
+      <button type="button" aria-label="Close find" onClick={onClose}>
+        ×
+      </button>
+    </div>
+  );
+};
+
+export const HybridMarkdownEditor = React.forwardRef<HybridMarkdownEditorHandle, HybridMarkdownEditorProps>(({
   value,
   onDebouncedChange,
   onChange,
+  onChangeSet,
+  onUploadFile,
+  folded,
+  onFoldedChange,
+  onToggleFold,
   debounceMs = 1000,
   className,
   readOnly = false,
@@ -479,27 +1678,44 @@ export const HybridMarkdownEditor: React.FC<HybridMarkdownEditorProps> = ({
   renderLine,
   options,
   extensions,
-}) => {
+  keymap: keymapProp,
+}, ref) => {
   const initialLines = (value || "").split("\n");
   const [lines, setLines] = useState<string[]>(initialLines);
   const linesRef = useRef<string[]>(initialLines);
+  const lineIdCounterRef = useRef(0);
+  const createLineId = () => `line-${(lineIdCounterRef.current += 1)}`;
+  const [lineIds, setLineIds] = useState<string[]>(() => initialLines.map(createLineId));
+  const lineIdsRef = useRef<string[]>(lineIds);
   const [activeLineIndex, setActiveLineIndex] = useState<number | null>(null);
   const [focusVersion, setFocusVersion] = useState(0);
   const cursorPositionRef = useRef<number | null>(null);
+  const selectionEndRef = useRef<number | null>(null);
+  const skipFocusRef = useRef(false);
   const isSelectingRef = useRef(false);
   const selectionAnchorRef = useRef<{ index: number; displayOffset: number } | null>(null);
+  const rootRef = useRef<HTMLDivElement | null>(null);
   const contentRef = useRef<HTMLDivElement | null>(null);
   const draggingFromTextareaRef = useRef(false);
   const bridgingSelectionRef = useRef(false);
   const debounceTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   const onChangeRef = useRef(onChange);
+  const onChangeSetRef = useRef(onChangeSet);
   const onDebouncedChangeRef = useRef(onDebouncedChange);
   const debounceMsRef = useRef(debounceMs);
+  const undoStackRef = useRef<HistoryEntry[]>([]);
+  const redoStackRef = useRef<HistoryEntry[]>([]);
+  const pendingHistoryEntryRef = useRef<HistoryEntry | null>(null);
+  const unmountedRef = useRef(false);
 
   useEffect(() => {
     onChangeRef.current = onChange;
   }, [onChange]);
 
+  useEffect(() => {
+    onChangeSetRef.current = onChangeSet;
+  }, [onChangeSet]);
+
   useEffect(() => {
     onDebouncedChangeRef.current = onDebouncedChange;
   }, [onDebouncedChange]);
@@ -508,15 +1724,24 @@ export const HybridMarkdownEditor: React.FC<HybridMarkdownEditorProps> = ({
     debounceMsRef.current = debounceMs;
   }, [debounceMs]);
 
-  useEffect(() => () => {
-    if (debounceTimerRef.current) clearTimeout(debounceTimerRef.current);
+  useEffect(() => {
+    unmountedRef.current = false;
+    return () => {
+      unmountedRef.current = true;
+      if (debounceTimerRef.current) clearTimeout(debounceTimerRef.current);
+    };
   }, []);
 
   useEffect(() => {
     const incoming = (value || "").split("\n");
     const current = linesRef.current.join("\n");
     if (current === (value || "")) return;
+    lineIdsRef.current = reconcileLineIds(linesRef.current, lineIdsRef.current, incoming, createLineId);
     linesRef.current = incoming;
+    setLineIds(lineIdsRef.current);
+    undoStackRef.current = [];
+    redoStackRef.current = [];
+    pendingHistoryEntryRef.current = null;
     setLines(incoming);
     setActiveLineIndex((currentIndex) =>
       currentIndex !== null && currentIndex >= incoming.length ? null : currentIndex
@@ -548,17 +1773,82 @@ export const HybridMarkdownEditor: React.FC<HybridMarkdownEditorProps> = ({
     }, Math.max(0, debounceMsRef.current));
   };
 
-  const commitLines = (nextOrUpdater: string[] | ((prev: string[]) => string[])) => {
-    if (readOnly) return linesRef.current;
+  const getActiveTextarea = (): HTMLTextAreaElement | null =>
+    contentRef.current?.querySelector("textarea") ?? null;
+
+  const recordHistory = ({ start, removed, inserted }: LineSplice, origin: ChangeOrigin) => {
+    const limit = Math.max(0, Math.floor(options?.historyLimit ?? DEFAULT_HISTORY_LIMIT));
+    if (limit === 0) return;
+
+    const textarea = getActiveTextarea();
+    const caret = textarea?.selectionStart ?? null;
+    const time = Date.now();
+    // Typing commits arrive after the textarea value changed, so its caret is already the
+    // post-edit position; every other origin commits before the caret is moved.
+    const before: HistorySelection =
+      origin === "typing" && typeof caret === "number" && removed.length === 1 && inserted.length === 1
+        ? { line: activeLineIndex, caret: Math.max(0, caret - (inserted[0].length - removed[0].length)) }
+        : { line: activeLineIndex, caret };
+    const after: HistorySelection = origin === "typing" ? { line: activeLineIndex, caret } : { line: null, caret: null };
+
+    const undoStack = undoStackRef.current;
+    const last = undoStack[undoStack.length - 1];
+    const groupDelay = Math.max(0, options?.historyGroupDelay ?? DEFAULT_HISTORY_GROUP_DELAY);
+    const canGroup =
+      origin === "typing" &&
+      last?.origin === "typing" &&
+      redoStackRef.current.length === 0 &&
+      time - last.time <= groupDelay &&
+      last.start === start &&
+      last.inserted.length === 1 &&
+      removed.length === 1 &&
+      inserted.length === 1 &&
+      last.after.caret === before.caret;
+
+    redoStackRef.current = [];
+    if (canGroup) {
+      last.inserted = inserted;
+      last.after = after;
+      last.time = time;
+      pendingHistoryEntryRef.current = null;
+      return;
+    }
+
+    const entry: HistoryEntry = { start, removed, inserted, origin, before, after, time };
+    undoStack.push(entry);
+    if (undoStack.length > limit) undoStack.splice(0, undoStack.length - limit);
+    pendingHistoryEntryRef.current = origin === "typing" ? null : entry;
+  };
+
+  const commitLines = (
+    nextOrUpdater: string[] | ((prev: string[]) => string[]),
+    origin: ChangeOrigin = "command",
+    allowInReadOnly = false,
+    recordInHistory = true
+  ) => {
+    if (readOnly && !allowInReadOnly) return linesRef.current;
     const prev = linesRef.current;
     const nextRaw = typeof nextOrUpdater === "function" ? nextOrUpdater(prev) : nextOrUpdater;
-    const next = nextRaw.length === 0 ? [""] : nextRaw;
+    let next = nextRaw.length === 0 ? [""] : nextRaw;
+    if (options?.renumberOrderedLists && origin !== "undo" && origin !== "redo" && origin !== "remote") {
+      const { start, inserted } = diffLines(prev, next);
+      const structure = analyzeBlocks(next, blockOptions);
+      next = renumberOrderedLists(next, start - 1, start + inserted.length, structure.lineContexts);
+      // Renumbering only rewrites item numbers, so the structure also holds for the renumbered lines.
+      committedBlockStructureRef.current = { lines: next, options: blockOptions, structure };
+    }
     const previousContent = prev.join("\n");
     const content = next.join("\n");
     if (content === previousContent) return prev;
+    pendingHistoryEntryRef.current = null;
+    const splice = diffLines(prev, next);
+    if (recordInHistory && origin !== "undo" && origin !== "redo" && origin !== "remote") recordHistory(splice, origin);
+    lineIdsRef.current = reconcileLineIds(prev, lineIdsRef.current, next, createLineId);
     linesRef.current = next;
     setLines(next);
+    setLineIds(lineIdsRef.current);
     onChangeRef.current?.(content);
+    if (origin !== "remote") onChangeSetRef.current?.({ origin, changes: [splice] });
     scheduleDebouncedChange(content);
     return next;
   };
@@ -569,29 +1859,357 @@ export const HybridMarkdownEditor: React.FC<HybridMarkdownEditorProps> = ({
     const safeIndex = index === null
       ? null
       : Math.max(0, Math.min(linesRef.current.length - 1, index));
+    const pendingEntry = pendingHistoryEntryRef.current;
+    if (pendingEntry) {
+      pendingEntry.after = { line: safeIndex, caret: caret ?? null };
+      pendingHistoryEntryRef.current = null;
+    }
     setActiveLineIndex(safeIndex);
     setFocusVersion((version) => version + 1);
   };
 
-  const extensionsWithKeyDown = useMemo(
-    () => (extensions || []).filter((ext) => !!ext.onKeyDown),
-    [extensions]
-  );
-  const extensionsWithPaste = useMemo(
-    () => (extensions || []).filter((ext) => !!ext.onPaste),
-    [extensions]
-  );
-  const extensionsWithPrefix = useMemo(
-    () => (extensions || []).filter((ext) => !!ext.renderLinePrefix),
-    [extensions]
-  );
-  const extensionsWithSuffix = useMemo(
-    () => (extensions || []).filter((ext) => !!ext.renderLineSuffix),
-    [extensions]
-  );
+  const restoreSelection = (selection: HistorySelection, fallbackLine: number, fallbackCaret: number) => {
+    if (activeLineIndex === null && selection.line === null) return;
+    requestFocus(selection.line ?? fallbackLine, selection.caret ?? fallbackCaret);
+  };
 
-  const getLineElFromNode = (node: Node | null): HTMLElement | null => {
-    if (!node) return null;
+  const undo = () => {
+    // Read-only keeps the stack intact, so the entry is still there once editing resumes.
+    if (readOnly) return;
+    const entry = undoStackRef.current.pop();
+    if (!entry) return;
+    commitLines((prev) => {
+      const next = [...prev];
+      next.splice(entry.start, entry.inserted.length, ...entry.removed);
+      return next;
+    }, "undo");
+    redoStackRef.current.push(entry);
+    const lastRemoved = entry.removed[entry.removed.length - 1] ?? "";
+    restoreSelection(entry.before, entry.start + Math.max(0, entry.removed.length - 1), lastRemoved.length);
+  };
+
+  const redo = () => {
+    // Read-only keeps the stack intact, so the entry is still there once editing resumes.
+    if (readOnly) return;
+    const entry = redoStackRef.current.pop();
+    if (!entry) return;
+    commitLines((prev) => {
+      const next = [...prev];
+      next.splice(entry.start, entry.removed.length, ...entry.inserted);
+      return next;
+    }, "redo");
+    undoStackRef.current.push(entry);
+    const lastInserted = entry.inserted[entry.inserted.length - 1] ?? "";
+    restoreSelection(entry.after, entry.start + Math.max(0, entry.inserted.length - 1), lastInserted.length);
+  };
+
+  // Remote edits skip local history; pending undo entries are rebased past them instead.
+  const applyRemoteChanges = (changes: LineSplice[]) => {
+    let next = [...linesRef.current];
+    for (const change of changes) {
+      const { start, removed } = change;
+      if (!Number.isInteger(start) || start < 0 || start + removed.length > next.length) return false;
+      if (next.slice(start, start + removed.length).some((line, i) => line !== removed[i])) return false;
+      next.splice(change.start, change.removed.length, ...change.inserted);
+    }
+    if (next.length === 0) next = [""];
+
+    const textarea = getActiveTextarea();
+    let selection: { start: EditorPosition | null; end: EditorPosition | null } | null =
+      activeLineIndex !== null && textarea
+        ? {
+            start: { line: activeLineIndex, column: textarea.selectionStart ?? 0 },
+            end: { line: activeLineIndex, column: textarea.selectionEnd ?? 0 },
+          }
+        : null;
+    for (const change of changes) {
+      undoStackRef.current = rebaseHistory(undoStackRef.current, change);
+      if (selection) {
+        selection = {
+          start: selection.start && mapPositionThroughSplice(selection.start, change),
+          end: selection.end && mapPositionThroughSplice(selection.end, change),
+        };
+      }
+    }
+    redoStackRef.current = [];
+    const focused = !!textarea && document.activeElement === textarea;
+    commitLines(next, "remote", true);
+    if (!selection) return true;
+    if (!selection.start) {
+      // The local line was deleted by the other peer.
+      setActiveLineIndex(null);
+      return true;
+    }
+    selectionEndRef.current = selection.end?.line === selection.start.line ? selection.end.column : null;
+    if (!focused) skipFocusRef.current = true;
+    requestFocus(selection.start.line, selection.start.column);
+    return true;
+  };
+
+  const extensionsWithKeyDown = useMemo(
+    () => (extensions || []).filter((ext) => !!ext.onKeyDown),
+    [extensions]
+  );
+  const extensionsWithPaste = useMemo(
+    () => (extensions || []).filter((ext) => !!ext.onPaste),
+    [extensions]
+  );
+  const extensionsWithPrefix = useMemo(
+    () => (extensions || []).filter((ext) => !!ext.renderLinePrefix),
+    [extensions]
+  );
+  const extensionsWithSuffix = useMemo(
+    () => (extensions || []).filter((ext) => !!ext.renderLineSuffix),
+    [extensions]
+  );
+  // Later extensions win when several register a renderer under the same key.
+  const blockRenderers = useMemo(
+    () => new Map((extensions || []).flatMap((ext) => Object.entries(ext.blockRenderers ?? {}))),
+    [extensions]
+  );
+  // `$$` only opens a math block when something renders it.
+  const blockOptions = useMemo(() => ({ math: blockRenderers.has("$$") }), [blockRenderers]);
+  // Set when a commit already analyzed its lines, so rendering them does not analyze the document again.
+  const committedBlockStructureRef = useRef<{
+    lines: string[];
+    options: AnalyzeBlocksOptions;
+    structure: BlockStructure;
+  } | null>(null);
+  const blockStructure = useMemo(() => {
+    const committed = committedBlockStructureRef.current;
+    return committed && committed.lines === lines && committed.options === blockOptions
+      ? committed.structure
+      : analyzeBlocks(lines, blockOptions);
+  }, [lines, blockOptions]);
+  // Rendered block output by renderer key and source, so an edit elsewhere does not rerun every renderer.
+  const blockPreviewCacheRef = useRef(new Map<string, { renderer: BlockRenderer; node: React.ReactNode }>());
+  const referenceIndexRef = useRef<ReferenceIndex | null>(null);
+  // Kept by identity while the definitions are unchanged, so the inline rules built on it are too.
+  const referenceIndex = useMemo(() => {
+    const next = buildReferenceIndex(lines, blockStructure.lineContexts);
+    const previous = referenceIndexRef.current;
+    if (previous && isSameReferenceIndex(previous, next)) return previous;
+    referenceIndexRef.current = next;
+    return next;
+  }, [lines, blockStructure]);
+  // Extension rules come first so they win ties against built-in syntax starting at the same offset.
+  const inlineRules = useMemo(() => {
+    const inlineMath = blockRenderers.get("$");
+    return [
+      ...(extensions || []).flatMap((ext) => ext.inlineRules ?? []),
+      ...(inlineMath ? [createInlineMathRule(inlineMath)] : []),
+      ...createReferenceRules(referenceIndex),
+      ...defaultInlineRules,
+    ];
+  }, [extensions, blockRenderers, referenceIndex]);
+  const outlineOptions = useMemo<OutlineOptions>(
+    () => ({ blocks: blockOptions, inlineRules }),
+    [blockOptions, inlineRules]
+  );
+  const frontmatterMode = options?.frontmatter ?? "panel";
+  const [frontmatterCollapsed, setFrontmatterCollapsed] = useState(false);
+  const isFrontmatterDelimiter = (index: number) => {
+    const context = blockStructure.lineContexts[index];
+    return context?.block.kind === "frontmatter" && context.role !== "body";
+  };
+
+  const foldEnds = useMemo(() => getFoldEnds(lines, blockStructure.lineContexts), [lines, blockStructure]);
+  const foldedKey = folded ? [...folded].sort((a, b) => a - b).join(",") : null;
+  // Uncontrolled folds are kept by line id, so they follow their line when lines above it are inserted or removed.
+  const [foldedIds, setFoldedIds] = useState<string[]>([]);
+  // Line ids of the folds as last rendered; a controlled fold that moves with an edit is reported at its new index.
+  const foldSnapshotRef = useRef<{ lineIds: string[]; ids: string[] } | null>(null);
+  const reportedFoldsRef = useRef("");
+  const onFoldedChangeRef = useRef(onFoldedChange);
+  const foldedLines = useMemo(() => {
+    const indexById = new Map(lineIds.map((id, index) => [id, index]));
+    const indices = folded ?? foldedIds.map((id) => indexById.get(id)).filter((index): index is number => index !== undefined);
+    return Array.from(new Set(indices))
+      .filter((index) => (foldEnds[index] ?? null) !== null)
+      .sort((a, b) => a - b);
+    // foldedKey stands in for folded, so a new array with the same folds keeps the memo.
+  }, [foldedKey, lineIds, foldedIds, foldEnds]);
+  const foldHidden = useMemo(() => {
+    const hiddenLines = new Set<number>();
+    let coveredUntil = -1;
+    for (const start of foldedLines) {
+      // A fold inside a folded range is already hidden by it.
+      if (start <= coveredUntil) continue;
+      coveredUntil = foldEnds[start]!;
+      for (let index = start + 1; index <= coveredUntil; index += 1) hiddenLines.add(index);
+    }
+    return hiddenLines;
+  }, [foldedLines, foldEnds]);
+
+  useEffect(() => {
+    onFoldedChangeRef.current = onFoldedChange;
+  }, [onFoldedChange]);
+
+  // Controlled folds only change through onFoldedChange; the parent decides whether to apply them.
+  const setFolds = (next: number[]) => {
+    if (folded) onFoldedChangeRef.current?.(next);
+    else setFoldedIds(next.map((index) => lineIdsRef.current[index]));
+  };
+
+  useEffect(() => {
+    const snapshot = foldSnapshotRef.current;
+    foldSnapshotRef.current = { lineIds, ids: foldedLines.map((index) => lineIds[index]) };
+    if (!folded) {
+      // Drop folds whose line was deleted or can no longer fold, so they do not come back later.
+      if (foldedLines.length !== foldedIds.length) setFoldedIds(foldSnapshotRef.current.ids);
+      const key = foldedLines.join(",");
+      if (key === reportedFoldsRef.current) return;
+      reportedFoldsRef.current = key;
+      onFoldedChangeRef.current?.(foldedLines);
+      return;
+    }
+    let next = foldedLines;
+    if (snapshot && snapshot.lineIds !== lineIds) {
+      // An edit moved the lines under the controlled indices; report where the folded lines went instead.
+      const indexById = new Map(lineIds.map((id, index) => [id, index]));
+      next = snapshot.ids
+        .map((id) => indexById.get(id))
+        .filter((index): index is number => index !== undefined && foldEnds[index] !== null)
+        .sort((a, b) => a - b);
+      foldSnapshotRef.current.ids = next.map((index) => lineIds[index]);
+    }
+    if (next.join(",") !== foldedKey) onFoldedChangeRef.current?.(next);
+  }, [lineIds, foldedLines]);
+
+  useEffect(() => {
+    if (activeLineIndex === null || !foldHidden.has(activeLineIndex)) return;
+    // Whatever moved the caret into a fold (search, focus(), an edit) unfolds the folds around it.
+    setFolds(foldedLines.filter((start) => activeLineIndex <= start || activeLineIndex > foldEnds[start]!));
+  }, [activeLineIndex, foldHidden]);
+
+  const toggleFold = (index: number) => {
+    const end = foldEnds[index];
+    if (end === null || end === undefined) return false;
+    const isFolded = foldedLines.includes(index);
+    setFolds(isFolded ? foldedLines.filter((line) => line !== index) : [...foldedLines, index].sort((a, b) => a - b));
+    if (!isFolded && activeLineIndex !== null && activeLineIndex > index && activeLineIndex <= end) {
+      requestFocus(index, linesRef.current[index].length);
+    }
+    onToggleFold?.(index, !isFolded);
+    return true;
+  };
+
+  const virtualize = !!options?.virtualize;
+  const dragHandles = !!options?.dragHandles && !readOnly;
+  const estimatedLineHeight = Math.max(1, options?.estimatedLineHeight ?? DEFAULT_ESTIMATED_LINE_HEIGHT);
+  const overscan = Math.max(0, Math.floor(options?.overscan ?? DEFAULT_OVERSCAN));
+  const lineHeightsRef = useRef(new Map<string, number>());
+  const [measureVersion, setMeasureVersion] = useState(0);
+  const [viewport, setViewport] = useState<{ top: number; bottom: number } | null>(null);
+  const scrollContainerRef = useRef<HTMLElement | null>(null);
+  // Lines that must stay mounted even when scrolled away: endpoints of a DOM selection or a pending scroll target.
+  const [selectionPins, setSelectionPins] = useState<number[]>([]);
+  const [scrollTarget, setScrollTarget] = useState<number | null>(null);
+  const lineOffsets = useMemo(
+    () => (virtualize ? buildLineOffsets(lineIds, lineHeightsRef.current, estimatedLineHeight, foldHidden) : null),
+    // measureVersion invalidates the offsets whenever the height cache changes.
+    [virtualize, lineIds, estimatedLineHeight, measureVersion, foldHidden]
+  );
+
+  // Viewport in content coordinates; updates are skipped until it moves by at least one estimated line.
+  const updateViewport = () => {
+    const content = contentRef.current;
+    if (!content) return;
+    const rect = content.getBoundingClientRect();
+    // Only the part of a scroll container that is also inside the window can show lines.
+    const container = scrollContainerRef.current?.getBoundingClientRect();
+    const visibleTop = Math.max(0, container?.top ?? 0);
+    const visibleBottom = Math.min(window.innerHeight, container?.bottom ?? window.innerHeight);
+    const top = Math.max(0, visibleTop - rect.top);
+    const bottom = Math.max(top, visibleBottom - rect.top);
+    setViewport((prev) =>
+      prev &&
+      Math.abs(prev.top - top) < estimatedLineHeight &&
+      Math.abs(prev.bottom - bottom) < estimatedLineHeight
+        ? prev
+        : { top, bottom }
+    );
+  };
+
+  useEffect(() => {
+    if (!virtualize) return;
+    scrollContainerRef.current = contentRef.current ? findScrollContainer(contentRef.current) : null;
+    updateViewport();
+    // Capture phase also sees scrolls of any scrollable ancestor, not just the window.
+    window.addEventListener("scroll", updateViewport, true);
+    window.addEventListener("resize", updateViewport);
+    return () => {
+      window.removeEventListener("scroll", updateViewport, true);
+      window.removeEventListener("resize", updateViewport);
+    };
+  }, [virtualize, estimatedLineHeight]);
+
+  useEffect(() => {
+    // Forget the heights of lines that no longer exist, so the cache stays the size of the document.
+    const heights = lineHeightsRef.current;
+    if (heights.size <= lineIds.length) return;
+    const present = new Set(lineIds);
+    for (const id of Array.from(heights.keys())) {
+      if (!present.has(id)) heights.delete(id);
+    }
+  }, [lineIds]);
+
+  useLayoutEffect(() => {
+    if (!virtualize || !contentRef.current) return;
+    const heights = lineHeightsRef.current;
+    let changed = false;
+    for (const child of Array.from(contentRef.current.children) as HTMLElement[]) {
+      const index = Number(child.dataset.lineIndex);
+      if (child.dataset.lineIndex === undefined || !Number.isInteger(index)) continue;
+      // Folded lines take no height in the offsets; keep their real height for when they are unfolded.
+      if (foldHidden.has(index)) continue;
+      const height = child.hidden ? 0 : child.getBoundingClientRect().height;
+      // Zero-height visible lines have not been laid out (e.g. detached or display:none ancestors).
+      if (!child.hidden && height === 0) continue;
+      const id = lineIdsRef.current[index];
+      if (id === undefined) continue;
+      if (heights.get(id) !== height) {
+        heights.set(id, height);
+        changed = true;
+      }
+    }
+    if (changed) setMeasureVersion((version) => version + 1);
+  });
+
+  useEffect(() => {
+    if (!virtualize) {
+      setSelectionPins([]);
+      return;
+    }
+    const onSelectionChange = () => {
+      const selection = document.getSelection();
+      const container = contentRef.current;
+      const pins: number[] = [];
+      if (selection && !selection.isCollapsed && container) {
+        for (const node of [selection.anchorNode, selection.focusNode]) {
+          if (!node || !container.contains(node)) continue;
+          const index = Number(getLineElFromNode(node)?.dataset.lineIndex);
+          if (Number.isInteger(index)) pins.push(index);
+        }
+      }
+      setSelectionPins((prev) =>
+        prev.length === pins.length && prev.every((pin, i) => pin === pins[i]) ? prev : pins
+      );
+    };
+    document.addEventListener("selectionchange", onSelectionChange);
+    return () => document.removeEventListener("selectionchange", onSelectionChange);
+  }, [virtualize]);
+
+  useEffect(() => {
+    if (scrollTarget === null) return;
+    const lineEl = contentRef.current?.querySelector(`[data-line-index="${scrollTarget}"]`) as HTMLElement | null;
+    lineEl?.scrollIntoView({ block: "nearest" });
+    updateViewport();
+    setScrollTarget(null);
+  }, [scrollTarget]);
+
+  const getLineElFromNode = (node: Node | null): HTMLElement | null => {
+    if (!node) return null;
     const element = node instanceof HTMLElement ? node : node.parentElement;
     return element?.closest?.("[data-line-index]") as HTMLElement | null;
   };
@@ -604,7 +2222,7 @@ export const HybridMarkdownEditor: React.FC<HybridMarkdownEditorProps> = ({
       const range = document.createRange();
       range.selectNodeContents(sourceEl);
       range.setEnd(node, nodeOffset);
-      return range.toString().length;
+      return getRangeDisplayLength(range);
     } catch {
       return 0;
     }
@@ -615,6 +2233,37 @@ export const HybridMarkdownEditor: React.FC<HybridMarkdownEditorProps> = ({
       `*[data-line-index="${index}"] [data-role="source-content"]`
     ) as HTMLElement | null) ?? null;
 
+  const resolveSourcePoint = (
+    node: Node,
+    nodeOffset: number,
+    currentLines: string[],
+    lineContexts: LineBlockContext[]
+  ): { index: number; source: number; atLineStart: boolean; atLineEnd: boolean } | null => {
+    const element = node instanceof HTMLElement ? node : node.parentElement;
+    const fragment = readSourceFragment(element);
+    if (fragment) {
+      const cellEl = element!.closest("[data-source-line]") as HTMLElement;
+      const cellSourceEl = cellEl.querySelector('[data-role="source-content"]') as HTMLElement | null;
+      if (!cellSourceEl) return null;
+      const text = (currentLines[fragment.line] ?? "").slice(fragment.start, fragment.end);
+      const display = getDisplayOffsetInLine(cellSourceEl, node, nodeOffset);
+      const source = fragment.start + mapFragmentDisplayOffset(text, display, inlineRules);
+      return { index: fragment.line, source, atLineStart: false, atLineEnd: false };
+    }
+
+    const lineEl = getLineElFromNode(node);
+    const sourceEl = getSourceElFromLineEl(lineEl);
+    if (!lineEl || !sourceEl) return null;
+    const index = Number(lineEl.dataset.lineIndex);
+    if (!Number.isInteger(index)) return null;
+    const line = currentLines[index] ?? "";
+    const raw = lineContexts[index] != null;
+    const display = getDisplayOffsetInLine(sourceEl, node, nodeOffset);
+    const atLineEnd = display >= getDisplayContentLength(line, inlineRules, raw);
+    const source = atLineEnd ? line.length : mapLineDisplayOffset(line, display, inlineRules, raw);
+    return { index, source, atLineStart: display === 0, atLineEnd };
+  };
+
   const setSelectionFromDisplayPoints = (
     startIndex: number,
     startDisplayOffset: number,
@@ -626,7 +2275,10 @@ export const HybridMarkdownEditor: React.FC<HybridMarkdownEditorProps> = ({
     if (!startEl || !endEl) return;
 
     const resolvePoint = (element: HTMLElement, displayOffset: number): { node: Node; offset: number } | null => {
-      const walker = document.createTreeWalker(element, NodeFilter.SHOW_TEXT);
+      const walker = document.createTreeWalker(element, NodeFilter.SHOW_TEXT, {
+        acceptNode: (node) =>
+          node.parentElement?.closest(RENDERED_OUTPUT_SELECTOR) ? NodeFilter.FILTER_REJECT : NodeFilter.FILTER_ACCEPT,
+      });
       let remaining = Math.max(0, displayOffset);
       let node = walker.nextNode();
       while (node) {
@@ -654,9 +2306,67 @@ export const HybridMarkdownEditor: React.FC<HybridMarkdownEditorProps> = ({
     }
   };
 
+  const canToggleTasks = !readOnly || !!options?.allowTaskToggleInReadOnly;
+
+  // Toggles a task's checkbox without activating its line, optionally even in read-only mode.
+  const toggleTask = (index: number) => {
+    if (!canToggleTasks) return;
+    const next = toggleTaskMarker(linesRef.current[index] ?? "");
+    if (next === null) return;
+    commitLines((prev) => {
+      const updated = [...prev];
+      updated[index] = next;
+      return updated;
+    }, "command", true);
+  };
+
+  const formatTableAt = (index: number) => {
+    const context = analyzeBlocks(linesRef.current, blockOptions).lineContexts[index];
+    if (context?.block.kind !== "table") return;
+    const { start, end, alignments } = context.block;
+    const textarea = activeLineIndex !== null && activeLineIndex >= start && activeLineIndex <= end
+      ? getActiveTextarea()
+      : null;
+    const activeRow = textarea ? activeLineIndex! : null;
+    const column = textarea && activeRow !== null
+      ? getTableCellIndex(linesRef.current[activeRow] ?? "", textarea.selectionStart ?? 0)
+      : 0;
+    const formatted = formatTable(linesRef.current.slice(start, end + 1), alignments);
+    commitLines((prev) => {
+      const next = [...prev];
+      next.splice(start, end - start + 1, ...formatted);
+      return next;
+    });
+    if (activeRow !== null) {
+      requestFocus(activeRow, splitTableRow(formatted[activeRow - start])[column]?.start ?? 0);
+    }
+  };
+
+  const applyLineMove = (move: LineMove | null, caret?: number) => {
+    if (!move) return;
+    commitLines(move.lines);
+    const movedLine = move.lines[move.index];
+    requestFocus(move.index, Math.min(caret ?? movedLine.length, movedLine.length));
+  };
+
+  const dropDraggedLine = (id: string, targetEl: HTMLElement, clientY: number) => {
+    const currentLines = linesRef.current;
+    const index = lineIdsRef.current.indexOf(id);
+    const target = Number(targetEl.dataset.lineIndex);
+    if (index === -1 || !Number.isInteger(target)) return;
+    // Dropping onto a code block or table lands before or after the whole block, never inside it.
+    const context = analyzeBlocks(currentLines, blockOptions).lineContexts[target];
+    const rect = targetEl.getBoundingClientRect();
+    // Nothing can go above frontmatter, which must open the document.
+    const insertAt = clientY < rect.top + rect.height / 2 && context?.block.kind !== "frontmatter"
+      ? context?.block.start ?? target
+      : (context?.block.end ?? getLineBlockEnd(currentLines, target)) + 1;
+    applyLineMove(moveLineBlockTo(currentLines, index, insertAt));
+  };
+
   const createExtensionApi = (): ExtensionApi => ({
     getValue: () => linesRef.current.join("\n"),
-    setValue: (next) => commitLines(next.split("\n")),
+    setValue: (next) => commitLines(next.split("\n"), "extension"),
     getLine: (index) => linesRef.current[index],
     setLine: (index, nextLine) => {
       if (index < 0 || index >= linesRef.current.length) return;
@@ -664,7 +2374,7 @@ export const HybridMarkdownEditor: React.FC<HybridMarkdownEditorProps> = ({
         const next = [...prev];
         next[index] = nextLine;
         return next;
-      });
+      }, "extension");
     },
     insertLine: (index, nextLine) => {
       const safeIndex = Math.max(0, Math.min(linesRef.current.length, index));
@@ -672,7 +2382,7 @@ export const HybridMarkdownEditor: React.FC<HybridMarkdownEditorProps> = ({
         const next = [...prev];
         next.splice(safeIndex, 0, nextLine);
         return next;
-      });
+      }, "extension");
     },
     deleteLines: (start, count) => {
       const safeStart = Math.max(0, start);
@@ -681,20 +2391,132 @@ export const HybridMarkdownEditor: React.FC<HybridMarkdownEditorProps> = ({
         const next = [...prev];
         next.splice(safeStart, safeCount);
         return next;
-      });
+      }, "extension");
     },
     getActiveLineIndex: () => activeLineIndex,
     setActiveLineIndex: (index, caret) => requestFocus(index, caret),
+    undo,
+    redo,
+    canUndo: () => undoStackRef.current.length > 0,
+    canRedo: () => redoStackRef.current.length > 0,
+    formatTable: (index) => formatTableAt(index),
+    executeCommand: (name) => executeCommand(name),
   });
 
-  const handleLineChange = (index: number, nextValue: string) => {
+  const handleLineChange = (index: number, nextValue: string, caret = nextValue.length) => {
+    if (/[\r\n]/.test(nextValue)) {
+      // Newlines that still reach the textarea (dropped text, autocorrect, IME) become separate lines.
+      const parts = nextValue.split(/\r\n?|\n/);
+      const beforeCaret = nextValue.slice(0, caret).split(/\r\n?|\n/);
+      commitLines((prev) => {
+        const next = [...prev];
+        next.splice(index, 1, ...parts);
+        return next;
+      }, "typing");
+      requestFocus(index + beforeCaret.length - 1, beforeCaret[beforeCaret.length - 1].length);
+      return;
+    }
+    if (
+      nextValue === "/" &&
+      linesRef.current[index] === "" &&
+      slashCommands.length > 0 &&
+      !blockStructure.lineContexts[index]
+    ) {
+      setSlashMenuLineId(lineIdsRef.current[index]);
+    }
+    updateAutocomplete(index, nextValue, caret);
     commitLines((prev) => {
       const next = [...prev];
       next[index] = nextValue;
       return next;
+    }, "typing");
+  };
+
+  // Upload placeholders are tracked by line ID, so edits elsewhere do not lose them. Settling is not an undo step
+  // of its own: the result is written into the insert's history entry, so undo and redo never bring back a
+  // placeholder whose upload already finished.
+  const settleUpload = (id: string, replacement: string | null, upload: PendingUpload) => {
+    if (unmountedRef.current) return;
+    const { entry, ids } = upload;
+    const slot = ids.indexOf(id);
+    if (entry && slot !== -1 && entry.inserted[upload.offset + slot] === UPLOAD_PLACEHOLDER) {
+      // The entry's arrays may be shared with an emitted change set, so replace rather than mutate them.
+      const inserted = [...entry.inserted];
+      if (replacement === null) {
+        inserted.splice(upload.offset + slot, 1);
+        ids.splice(slot, 1);
+      } else {
+        inserted[upload.offset + slot] = replacement;
+      }
+      entry.inserted = inserted;
+    }
+
+    const index = lineIdsRef.current.indexOf(id);
+    const line = linesRef.current[index];
+    if (index === -1 || !line?.includes(UPLOAD_PLACEHOLDER)) return;
+    const removeLine = replacement === null && line.trim() === UPLOAD_PLACEHOLDER;
+    commitLines((prev) => {
+      const next = [...prev];
+      if (removeLine) next.splice(index, 1);
+      else next[index] = line.replace(UPLOAD_PLACEHOLDER, replacement ?? "");
+      return next;
+    }, "command", true, false);
+    if (removeLine) {
+      // Later entries were recorded with the placeholder line still in place.
+      const undoStack = undoStackRef.current;
+      const at = entry ? undoStack.indexOf(entry) : -1;
+      const later = undoStack.slice(at + 1);
+      const rebased = rebaseHistory(later, { start: index, removed: [line], inserted: [] });
+      undoStackRef.current = rebased.length === later.length ? [...undoStack.slice(0, at + 1), ...rebased] : rebased;
+      redoStackRef.current = [];
+      setActiveLineIndex((current) => (current !== null && current > index ? current - 1 : current));
+    }
+  };
+
+  // A virtual spacer stands in for unmounted lines, so a drop on it is resolved through the line offsets.
+  const findDropLine = (target: HTMLElement, clientY: number) => {
+    const lineEl = target.closest("[data-line-index]") as HTMLElement | null;
+    if (lineEl) return Number(lineEl.dataset.lineIndex);
+    if (lineOffsets && contentRef.current && target.closest('[data-role="virtual-spacer"]')) {
+      const y = clientY - contentRef.current.getBoundingClientRect().top;
+      return getVirtualRange(lineOffsets, y, y + 1, 0).start;
+    }
+    return linesRef.current.length - 1;
+  };
+
+  const uploadFiles = (files: File[], index: number, focusPlaceholder: boolean) => {
+    if (readOnly || !onUploadFile || files.length === 0) return;
+    const replaceLine = (linesRef.current[index] ?? "").trim() === "";
+    const insertAt = replaceLine ? index : index + 1;
+    commitLines((prev) => {
+      const next = [...prev];
+      next.splice(insertAt, replaceLine ? 1 : 0, ...files.map(() => UPLOAD_PLACEHOLDER));
+      return next;
+    }, "paste");
+    const ids = lineIdsRef.current.slice(insertAt, insertAt + files.length);
+    const entry = pendingHistoryEntryRef.current;
+    const upload: PendingUpload = { entry, ids: [...ids], offset: entry ? insertAt - entry.start : 0 };
+    if (focusPlaceholder) requestFocus(insertAt + files.length - 1, UPLOAD_PLACEHOLDER.length);
+
+    files.forEach((file, fileIndex) => {
+      Promise.resolve()
+        .then(() => onUploadFile(file))
+        .then(
+          (url) => settleUpload(ids[fileIndex], `![${getImageAlt(file)}](${encodeMarkdownUrl(url)})`, upload),
+          () => settleUpload(ids[fileIndex], null, upload)
+        );
     });
   };
 
+  const convertPastedHtml = (html: string): string | null => {
+    if (!/<[a-z][\s\S]*>/i.test(html) || !(options?.pasteHtmlAsMarkdown ?? true)) return null;
+    if (html.includes(CLIPBOARD_MARKER_ATTRIBUTE)) return null;
+    const convert = (source: string) => htmlToMarkdown(source, { indentSize: options?.indentSize ?? 2 });
+    if (!options?.htmlToMarkdown && !hasMarkdownFormatting(html)) return null;
+    const markdown = options?.htmlToMarkdown ? options.htmlToMarkdown(html, convert) : convert(html);
+    return markdown ? markdown.replace(/\r\n?/g, "\n") : null;
+  };
+
   const handlePaste = (event: React.ClipboardEvent<HTMLTextAreaElement>, index: number) => {
     if (readOnly) {
       event.preventDefault();
@@ -708,9 +2530,18 @@ export const HybridMarkdownEditor: React.FC<HybridMarkdownEditorProps> = ({
       }
     }
 
-    const text = event.clipboardData.getData("text").replace(/\r\n?/g, "\n");
+    const imageFiles = onUploadFile ? Array.from(event.clipboardData.files ?? []).filter(isImageFile) : [];
+    if (imageFiles.length > 0) {
+      event.preventDefault();
+      uploadFiles(imageFiles, index, true);
+      return;
+    }
+
+    const converted = convertPastedHtml(event.clipboardData.getData("text/html"));
+    const text = converted ?? event.clipboardData.getData("text").replace(/\r\n?/g, "\n");
     const pasteSplitLines = options?.pasteSplitLines ?? true;
-    if (!pasteSplitLines || !text.includes("\n")) return;
+    // Converted HTML is inserted by the editor even on one line; plain text only when it has to be split.
+    if (!text.includes("\n") ? converted === null : !pasteSplitLines) return;
 
     event.preventDefault();
     const textarea = event.currentTarget;
@@ -720,44 +2551,206 @@ export const HybridMarkdownEditor: React.FC<HybridMarkdownEditorProps> = ({
     const before = line.slice(0, selectionStart);
     const after = line.slice(selectionEnd);
     const pasted = text.split("\n");
-    const replacement = [before + pasted[0], ...pasted.slice(1, -1), pasted[pasted.length - 1] + after];
+    const replacement = [...pasted];
+    replacement[0] = before + replacement[0];
+    replacement[replacement.length - 1] += after;
 
     commitLines((prev) => {
       const next = [...prev];
       next.splice(index, 1, ...replacement);
       return next;
-    });
+    }, "paste");
 
     const newIndex = index + pasted.length - 1;
-    requestFocus(newIndex, pasted[pasted.length - 1].length);
+    requestFocus(newIndex, (pasted.length === 1 ? before.length : 0) + pasted[pasted.length - 1].length);
   };
 
-  const handleKeyDown = (event: React.KeyboardEvent<HTMLTextAreaElement>, index: number) => {
-    if (readOnly) {
-      event.preventDefault();
-      return;
+  const getIndentSize = () => {
+    const rawIndentSize = options?.indentSize ?? 2;
+    return Math.max(1, Math.min(32, Math.floor(Number.isFinite(rawIndentSize) ? rawIndentSize : 2)));
+  };
+
+  const stepTableCell = (direction: 1 | -1): EditorCommand => ({ active }) => {
+    if (!active) return false;
+    const { index, line, selectionStart } = active;
+    const context = blockStructure.lineContexts[index];
+    if (context?.block.kind !== "table") return false;
+    const tableBlock = context.block;
+    const isDataRow = (rowIndex: number) => rowIndex !== tableBlock.start + 1;
+    const cells = splitTableRow(line);
+    const column = getTableCellIndex(line, selectionStart);
+    const textarea = getActiveTextarea();
+    const adjacent = cells[column + direction];
+    if (adjacent && column + direction >= 0 && isDataRow(index)) {
+      textarea?.setSelectionRange(adjacent.start, adjacent.end);
+      return true;
     }
 
-    if (extensionsWithKeyDown.length > 0) {
-      const api = createExtensionApi();
-      for (const extension of extensionsWithKeyDown) {
-        if (extension.onKeyDown?.(event, api)) return;
-      }
+    let target = index + direction;
+    if (!isDataRow(target)) target += direction;
+    if (target < tableBlock.start) return true;
+    if (target > tableBlock.end) {
+      if (direction === -1) return true;
+      const row = createEmptyTableRow(tableBlock.alignments.length);
+      commitLines((prev) => {
+        const next = [...prev];
+        next.splice(tableBlock.end + 1, 0, row);
+        return next;
+      });
+      requestFocus(tableBlock.end + 1, splitTableRow(row)[0]?.start ?? 0);
+      return true;
     }
+    const targetCells = splitTableRow(linesRef.current[target] ?? "");
+    const targetCell = direction === -1 ? targetCells[targetCells.length - 1] : targetCells[0];
+    requestFocus(target, targetCell?.start ?? 0);
+    return true;
+  };
 
-    if (isSelectingRef.current) return;
-    const textarea = event.currentTarget;
-    const selectionStart = textarea.selectionStart ?? 0;
-    const selectionEnd = textarea.selectionEnd ?? selectionStart;
-    const hasSelection = selectionEnd > selectionStart;
-    const currentLines = linesRef.current;
-    const line = currentLines[index] ?? "";
+  // Wraps the selection in `delimiter`, or unwraps the `ruleName` token that already contains it.
+  const toggleInlineMark = (ruleName: string, delimiter: string): EditorCommand => ({ active }) => {
+    if (!active) return false;
+    const { index, line, selectionStart, selectionEnd } = active;
+    if (blockStructure.lineContexts[index]) return false;
+    const found = findInlineTokenAt(line, inlineRules, ruleName, selectionStart, selectionEnd);
+
+    let nextLine: string;
+    let start: number;
+    let end: number;
+    if (found) {
+      const { token, offset } = found;
+      const open = token.contentStart - token.sourceStart;
+      nextLine =
+        line.slice(0, offset + token.sourceStart) +
+        line.slice(offset + token.contentStart, offset + token.contentEnd) +
+        line.slice(offset + token.sourceEnd);
+      start = selectionStart - open;
+      end = selectionEnd - open;
+    } else {
+      nextLine =
+        line.slice(0, selectionStart) +
+        delimiter +
+        line.slice(selectionStart, selectionEnd) +
+        delimiter +
+        line.slice(selectionEnd);
+      start = selectionStart + delimiter.length;
+      end = selectionEnd + delimiter.length;
+    }
+    commitLines((prev) => {
+      const next = [...prev];
+      next[index] = nextLine;
+      return next;
+    });
+    selectionEndRef.current = end;
+    requestFocus(index, start);
+    return true;
+  };
 
-    if (event.key === "Enter") {
-      event.preventDefault();
-      const meta = getListMeta(line);
+  const toggleBlockFormat = (format: BlockFormat): EditorCommand => ({ active }) => {
+    if (!active || blockStructure.lineContexts[active.index]) return false;
+    const { index, line, selectionStart, selectionEnd } = active;
+    const result = toggleLineBlockFormat(line, format, linesRef.current[index - 1]);
+    const mapCaret = (caret: number) =>
+      Math.max(result.contentStart, caret - result.previousContentStart + result.contentStart);
+    commitLines((prev) => {
+      const next = [...prev];
+      next[index] = result.line;
+      return next;
+    });
+    selectionEndRef.current = mapCaret(selectionEnd);
+    requestFocus(index, mapCaret(selectionStart));
+    return true;
+  };
+
+  const inlineMarkCommands: Record<string, [ruleName: string, delimiter: string]> = {
+    toggleBold: ["bold", "**"],
+    toggleItalic: ["italic", "*"],
+    toggleStrikethrough: ["strikethrough", "~~"],
+    toggleInlineCode: ["code", "`"],
+    toggleHighlight: ["highlight", "=="],
+  };
+
+  const blockFormatCommands: Record<string, BlockFormat> = {
+    toggleHeading1: "h1",
+    toggleHeading2: "h2",
+    toggleHeading3: "h3",
+    toggleHeading4: "h4",
+    toggleBulletList: "ul",
+    toggleOrderedList: "ol",
+    toggleTaskList: "task",
+    toggleBlockquote: "blockquote",
+  };
+
+  const builtInCommands: Record<string, EditorCommand> = {
+    ...Object.fromEntries(
+      Object.entries(inlineMarkCommands).map(([name, [ruleName, delimiter]]) => [
+        name,
+        toggleInlineMark(ruleName, delimiter),
+      ])
+    ),
+    ...Object.fromEntries(
+      Object.entries(blockFormatCommands).map(([name, format]) => [name, toggleBlockFormat(format)])
+    ),
+    undo: () => {
+      undo();
+      return true;
+    },
+    redo: () => {
+      redo();
+      return true;
+    },
+    moveLineUp: ({ active }) => {
+      if (!active) return false;
+      if (isFrontmatterDelimiter(active.index) || isFrontmatterDelimiter(active.index - 1)) return true;
+      applyLineMove(moveLineBlock(linesRef.current, active.index, -1), active.selectionStart);
+      return true;
+    },
+    moveLineDown: ({ active }) => {
+      if (!active) return false;
+      const end = getLineBlockEnd(linesRef.current, active.index);
+      if (isFrontmatterDelimiter(active.index) || isFrontmatterDelimiter(end + 1)) return true;
+      applyLineMove(moveLineBlock(linesRef.current, active.index, 1), active.selectionStart);
+      return true;
+    },
+    splitLine: ({ active }) => {
+      if (!active) return false;
+      const { index, line, selectionStart, selectionEnd } = active;
+      const lineContext = blockStructure.lineContexts[index] ?? null;
       const before = line.slice(0, selectionStart);
       const after = line.slice(selectionEnd);
+
+      if (lineContext?.block.kind === "frontmatter" || lineContext?.block.kind === "math") {
+        // YAML and TeX keep the current indentation but get no list continuation.
+        const indent = before.match(/^[ \t]*/)?.[0] ?? "";
+        commitLines((prev) => {
+          const next = [...prev];
+          next.splice(index, 1, before, indent + after);
+          return next;
+        });
+        requestFocus(index + 1, indent.length);
+        return true;
+      }
+
+      if (lineContext?.block.kind === "code") {
+        const codeBlock = lineContext.block;
+        const indent = before.match(/^[ \t]*/)?.[0] ?? "";
+        if (lineContext.role === "open" && !codeBlock.closed && after === "") {
+          commitLines((prev) => {
+            const next = [...prev];
+            next.splice(index, 1, before, indent, indent + codeBlock.fence);
+            return next;
+          });
+        } else {
+          commitLines((prev) => {
+            const next = [...prev];
+            next.splice(index, 1, before, indent + after);
+            return next;
+          });
+        }
+        requestFocus(index + 1, indent.length);
+        return true;
+      }
+
+      const meta = getListMeta(line);
       const continueLists = options?.continueListsOnEnter ?? true;
       const markerOnly =
         meta.kind !== null &&
@@ -771,7 +2764,7 @@ export const HybridMarkdownEditor: React.FC<HybridMarkdownEditorProps> = ({
           return next;
         });
         requestFocus(index, meta.indent.length);
-        return;
+        return true;
       }
 
       const nextMarker = meta.kind && continueLists ? meta.nextMarker : "";
@@ -781,12 +2774,81 @@ export const HybridMarkdownEditor: React.FC<HybridMarkdownEditorProps> = ({
         return next;
       });
       requestFocus(index + 1, nextMarker.length);
-      return;
-    }
-
-    if (event.key === "Backspace" && !hasSelection && selectionStart === 0 && index > 0) {
-      event.preventDefault();
-      const previousLength = currentLines[index - 1].length;
+      return true;
+    },
+    insertTableRow: ({ active }) => {
+      if (!active) return false;
+      const { index, line } = active;
+      const context = blockStructure.lineContexts[index];
+      if (context?.block.kind !== "table") return false;
+      const tableBlock = context.block;
+      const isEmptyRow = splitTableRow(line).every((cell) => cell.start === cell.end);
+      if (index === tableBlock.end && index > tableBlock.start + 1 && isEmptyRow) {
+        commitLines((prev) => {
+          const next = [...prev];
+          next[index] = "";
+          return next;
+        });
+        requestFocus(index, 0);
+        return true;
+      }
+      const insertAt = Math.max(index + 1, tableBlock.start + 2);
+      const row = createEmptyTableRow(tableBlock.alignments.length);
+      commitLines((prev) => {
+        const next = [...prev];
+        next.splice(insertAt, 0, row);
+        return next;
+      });
+      requestFocus(insertAt, splitTableRow(row)[0]?.start ?? 0);
+      return true;
+    },
+    nextTableCell: stepTableCell(1),
+    previousTableCell: stepTableCell(-1),
+    indentList: ({ active }) => {
+      if (!active) return false;
+      const { index, line, selectionStart } = active;
+      if (!getListMeta(line).kind && !isRawBlock(blockStructure.lineContexts[index])) return false;
+      const indentSize = getIndentSize();
+      const meta = getListMeta(line);
+      // A renumbered item starts (or joins) the nested list at 1 rather than keeping its outer number.
+      const indented =
+        options?.renumberOrderedLists && meta.kind === "ol"
+          ? line.replace(
+              LIST_OL_MATCH_REGEX,
+              (marker, spaces: string, digits: string) => `${spaces}1${marker.slice(spaces.length + digits.length)}`
+            )
+          : line;
+      const shift = indented.length - line.length;
+      commitLines((prev) => {
+        const next = [...prev];
+        next[index] = " ".repeat(indentSize) + indented;
+        return next;
+      });
+      requestFocus(index, Math.max(meta.indent.length, selectionStart + shift) + indentSize);
+      return true;
+    },
+    dedentList: ({ active }) => {
+      if (!active) return false;
+      const { index, line, selectionStart } = active;
+      if (!getListMeta(line).kind && !isRawBlock(blockStructure.lineContexts[index])) return false;
+      const removable = line.startsWith("\t")
+        ? 1
+        : Math.min(getIndentSize(), line.match(/^ +/)?.[0].length ?? 0);
+      if (removable === 0) return true;
+      commitLines((prev) => {
+        const next = [...prev];
+        next[index] = line.slice(removable);
+        return next;
+      });
+      requestFocus(index, Math.max(0, selectionStart - removable));
+      return true;
+    },
+    joinBackward: ({ active }) => {
+      if (!active) return false;
+      const { index, selectionStart, selectionEnd } = active;
+      if (selectionEnd > selectionStart || selectionStart !== 0 || index === 0) return false;
+      if (isFrontmatterDelimiter(index) || isFrontmatterDelimiter(index - 1)) return false;
+      const previousLength = linesRef.current[index - 1].length;
       commitLines((prev) => {
         const next = [...prev];
         next[index - 1] += next[index];
@@ -794,112 +2856,386 @@ export const HybridMarkdownEditor: React.FC<HybridMarkdownEditorProps> = ({
         return next;
       });
       requestFocus(index - 1, previousLength);
+      return true;
+    },
+    removeListMarker: ({ active }) => {
+      if (!active) return false;
+      const { index, line, selectionStart, selectionEnd } = active;
+      if (selectionEnd > selectionStart || isRawBlock(blockStructure.lineContexts[index])) return false;
+      const meta = getListMeta(line);
+      if (!meta.kind || selectionStart > meta.currentMarker.length || meta.currentMarker.length === 0) return false;
+      commitLines((prev) => {
+        const next = [...prev];
+        next[index] = line.slice(meta.currentMarker.length);
+        return next;
+      });
+      requestFocus(index, 0);
+      return true;
+    },
+    cursorLineUp: ({ active }) => {
+      if (!active) return false;
+      const { index, selectionStart, selectionEnd } = active;
+      if (selectionEnd > selectionStart || selectionStart !== 0 || index === 0) return false;
+      let target = index - 1;
+      while (target > 0 && foldHidden.has(target)) target -= 1;
+      if (frontmatterMode === "hidden" && blockStructure.lineContexts[target]?.block.kind === "frontmatter") return false;
+      requestFocus(target, Math.min(linesRef.current[target].length, selectionStart));
+      return true;
+    },
+    cursorLineDown: ({ active }) => {
+      if (!active) return false;
+      const { index, line, selectionStart, selectionEnd } = active;
+      let target = index + 1;
+      while (target < linesRef.current.length && foldHidden.has(target)) target += 1;
+      if (selectionEnd > selectionStart || selectionStart !== line.length || target >= linesRef.current.length) {
+        return false;
+      }
+      requestFocus(target, Math.min(linesRef.current[target].length, selectionStart));
+      return true;
+    },
+    toggleFold: ({ active }) => (active ? toggleFold(active.index) : false),
+    toggleTask: ({ active }) => {
+      if (!active || !toggleTaskMarker(active.line)) return false;
+      toggleTask(active.index);
+      return true;
+    },
+    formatTable: ({ active }) => {
+      if (!active || blockStructure.lineContexts[active.index]?.block.kind !== "table") return false;
+      formatTableAt(active.index);
+      return true;
+    },
+    openFindPanel: () => {
+      if (!findPanelEnabled) return false;
+      openFindPanel();
+      return true;
+    },
+    insertFootnote: ({ active }) => {
+      if (!active || blockStructure.lineContexts[active.index]) return false;
+      const { index, selectionStart, selectionEnd } = active;
+      const result = insertFootnote(linesRef.current, index, selectionStart, selectionEnd, blockStructure.lineContexts);
+      commitLines(result.lines);
+      requestFocus(result.definitionLine, result.lines[result.definitionLine].length);
+      return true;
+    },
+  };
+
+  const commands = useMemo(() => {
+    const registered: Record<string, EditorCommand> = {};
+    for (const extension of extensions ?? []) Object.assign(registered, extension.commands);
+    return registered;
+  }, [extensions]);
+
+  const keymap = useMemo(
+    () => compileKeymaps([defaultKeymap, ...(extensions ?? []).map((extension) => extension.keymap), keymapProp]),
+    [extensions, keymapProp]
+  );
+
+  const getCommandContext = (): CommandContext => {
+    const textarea = getActiveTextarea();
+    const line = activeLineIndex !== null ? linesRef.current[activeLineIndex] : undefined;
+    return {
+      api: createExtensionApi(),
+      active:
+        textarea && activeLineIndex !== null && line !== undefined
+          ? {
+              index: activeLineIndex,
+              line,
+              selectionStart: textarea.selectionStart ?? 0,
+              selectionEnd: textarea.selectionEnd ?? textarea.selectionStart ?? 0,
+            }
+          : null,
+    };
+  };
+
+  const getCommandState = (name: string): CommandState => {
+    const { active } = getCommandContext();
+    const inCodeOrTable = active !== null && Boolean(blockStructure.lineContexts[active.index]);
+    let enabled = !readOnly && (name in commands || name in builtInCommands);
+    if (name in commands) {
+      // Extension commands decide for themselves whether they apply.
+    } else if (name === "undo") enabled &&= undoStackRef.current.length > 0;
+    else if (name === "redo") enabled &&= redoStackRef.current.length > 0;
+    else if (name === "openFindPanel") enabled &&= findPanelEnabled;
+    else enabled &&= active !== null;
+
+    let isActive = false;
+    if (active && !inCodeOrTable && name in blockFormatCommands) {
+      isActive = getLineBlockFormat(active.line) === blockFormatCommands[name];
+    } else if (active && !inCodeOrTable && name in inlineMarkCommands) {
+      const [ruleName] = inlineMarkCommands[name];
+      isActive = findInlineTokenAt(active.line, inlineRules, ruleName, active.selectionStart, active.selectionEnd) !== null;
+    }
+    return { active: isActive, enabled };
+  };
+
+  const stateListenersRef = useRef(new Set<() => void>());
+  const notifyStateListeners = () => stateListenersRef.current.forEach((listener) => listener());
+
+  useEffect(notifyStateListeners);
+
+  // Extension commands override built-ins of the same name.
+  const executeCommand = (name: string, context: CommandContext = getCommandContext()): boolean => {
+    if (readOnly) return false;
+    const command = commands[name] ?? builtInCommands[name];
+    return command ? command(context) : false;
+  };
+
+  const slashCommands = useMemo(() => (extensions || []).flatMap((ext) => ext.slashCommands ?? []), [extensions]);
+  // The line (by ID) where `/` was typed into an empty line; the menu lists matches while it reads `/query`.
+  const [slashMenuLineId, setSlashMenuLineId] = useState<string | null>(null);
+  const [slashMenuIndex, setSlashMenuIndex] = useState(0);
+  const slashQuery =
+    !readOnly && activeLineIndex !== null && slashMenuLineId === lineIds[activeLineIndex]
+      ? (lines[activeLineIndex].match(SLASH_QUERY_REGEX)?.[1] ?? null)
+      : null;
+  const slashMenuItems = useMemo(
+    () => (slashQuery === null ? [] : filterSlashCommands(slashCommands, slashQuery)),
+    [slashCommands, slashQuery]
+  );
+  const slashMenuOpen = slashMenuItems.length > 0;
+
+  useEffect(() => {
+    setSlashMenuIndex(0);
+    // Leaving the line or erasing the `/` closes the menu for good.
+    if (slashQuery === null) setSlashMenuLineId(null);
+  }, [slashQuery]);
+
+  const applySlashCommand = (item: SlashCommandItem) => {
+    const index = activeLineIndex;
+    if (index === null) return;
+    const inserted = item.lines.length > 0 ? item.lines : [""];
+    const caret = item.caret ?? { line: inserted.length - 1, column: inserted[inserted.length - 1].length };
+    setSlashMenuLineId(null);
+    commitLines((prev) => {
+      const next = [...prev];
+      next.splice(index, 1, ...inserted);
+      return next;
+    });
+    requestFocus(index + caret.line, caret.column);
+  };
+
+  const autocompleteSources = useMemo(
+    () => (extensions || []).flatMap((ext) => ext.autocomplete ?? []),
+    [extensions]
+  );
+  // Re-matched on every edit of the active line; the popup shows once the source's suggestions resolve.
+  const [autocomplete, setAutocomplete] = useState<(AutocompleteMatch & { lineId: string }) | null>(null);
+  const autocompleteRef = useRef<(AutocompleteMatch & { lineId: string }) | null>(null);
+  const [autocompleteItems, setAutocompleteItems] = useState<AutocompleteSuggestion[]>([]);
+  const [autocompleteIndex, setAutocompleteIndex] = useState(0);
+  // Escape silences a trigger until one starts at a different position.
+  const autocompleteDismissedRef = useRef<{ lineId: string; start: number } | null>(null);
+
+  const changeAutocomplete = (next: (AutocompleteMatch & { lineId: string }) | null) => {
+    autocompleteRef.current = next;
+    setAutocomplete(next);
+  };
+
+  const updateAutocomplete = (index: number, line: string, caret: number) => {
+    const lineId = lineIdsRef.current[index];
+    const inRawBlock = isRawBlock(blockStructure.lineContexts[index]);
+    const match =
+      autocompleteSources.length > 0 && !inRawBlock ? matchAutocompleteTrigger(autocompleteSources, line, caret) : null;
+    const dismissed = autocompleteDismissedRef.current;
+    if (!match || (dismissed?.lineId === lineId && dismissed.start === match.start)) {
+      if (autocompleteRef.current) changeAutocomplete(null);
       return;
     }
+    changeAutocomplete({ ...match, lineId });
+  };
 
-    if (event.key === "Backspace" && !hasSelection) {
-      const meta = getListMeta(line);
-      if (meta.kind && selectionStart <= meta.currentMarker.length && meta.currentMarker.length > 0) {
-        event.preventDefault();
-        commitLines((prev) => {
-          const next = [...prev];
-          next[index] = line.slice(meta.currentMarker.length);
-          return next;
-        });
-        requestFocus(index, 0);
-        return;
-      }
+  useEffect(() => {
+    if (!autocomplete) {
+      setAutocompleteItems([]);
+      return;
     }
+    const index = lineIdsRef.current.indexOf(autocomplete.lineId);
+    const controller = new AbortController();
+    Promise.resolve()
+      .then(() =>
+        autocomplete.source.getSuggestions(autocomplete.query, {
+          index,
+          line: linesRef.current[index] ?? "",
+          signal: controller.signal,
+        })
+      )
+      .then((items) => {
+        if (controller.signal.aborted) return;
+        setAutocompleteItems(items);
+        setAutocompleteIndex(0);
+      })
+      .catch(() => {
+        if (!controller.signal.aborted) setAutocompleteItems([]);
+      });
+    return () => controller.abort();
+  }, [autocomplete]);
+
+  const applyAutocomplete = (suggestion: AutocompleteSuggestion) => {
+    const session = autocompleteRef.current;
+    const index = session ? lineIdsRef.current.indexOf(session.lineId) : -1;
+    if (!session || index === -1) return;
+    const text = suggestion.insertText ?? suggestion.label;
+    changeAutocomplete(null);
+    commitLines((prev) => {
+      const next = [...prev];
+      next[index] = next[index].slice(0, session.start) + text + next[index].slice(session.end);
+      return next;
+    });
+    requestFocus(index, session.start + text.length);
+  };
 
-    if (event.key === "Tab") {
-      const meta = getListMeta(line);
-      if (meta.kind) {
-        event.preventDefault();
-        const rawIndentSize = options?.indentSize ?? 2;
-        const indentSize = Math.max(
-          1,
-          Math.min(32, Math.floor(Number.isFinite(rawIndentSize) ? rawIndentSize : 2))
-        );
+  // Moving the caret away from the end of the trigger text ends the session.
+  const handleRootSelect = () => {
+    notifyStateListeners();
+    const session = autocompleteRef.current;
+    if (!session) return;
+    const textarea = getActiveTextarea();
+    const activeId = activeLineIndex !== null ? lineIdsRef.current[activeLineIndex] : null;
+    if (activeId !== session.lineId || textarea?.selectionStart !== session.end || textarea.selectionEnd !== session.end) {
+      changeAutocomplete(null);
+    }
+  };
 
-        if (event.shiftKey) {
-          const removable = line.startsWith("\t")
-            ? 1
-            : Math.min(indentSize, line.match(/^ +/)?.[0].length ?? 0);
-          if (removable === 0) return;
-          commitLines((prev) => {
-            const next = [...prev];
-            next[index] = line.slice(removable);
-            return next;
-          });
-          requestFocus(index, Math.max(0, selectionStart - removable));
-        } else {
-          const indent = " ".repeat(indentSize);
-          commitLines((prev) => {
-            const next = [...prev];
-            next[index] = indent + line;
-            return next;
-          });
-          requestFocus(index, selectionStart + indentSize);
-        }
-        return;
+  // At most one popup is open; the slash menu wins over autocomplete.
+  const suggestionMenu: {
+    label: string;
+    items: Array<{ id: string; label: string; description?: string }>;
+    activeIndex: number;
+    setActiveIndex: (index: number) => void;
+    pick: (index: number) => void;
+    close: () => void;
+  } | null = slashMenuOpen
+    ? {
+        label: "Insert block",
+        items: slashMenuItems,
+        activeIndex: Math.min(slashMenuIndex, slashMenuItems.length - 1),
+        setActiveIndex: setSlashMenuIndex,
+        pick: (itemIndex) => applySlashCommand(slashMenuItems[itemIndex]),
+        close: () => setSlashMenuLineId(null),
       }
+    : !readOnly &&
+        autocomplete &&
+        autocompleteItems.length > 0 &&
+        activeLineIndex !== null &&
+        lineIds[activeLineIndex] === autocomplete.lineId
+      ? {
+          label: autocomplete.source.label ?? "Suggestions",
+          items: autocompleteItems.map((item, itemIndex) => ({
+            id: item.id ?? `${itemIndex}:${item.label}`,
+            label: item.label,
+            description: item.description,
+          })),
+          activeIndex: Math.min(autocompleteIndex, autocompleteItems.length - 1),
+          setActiveIndex: setAutocompleteIndex,
+          pick: (itemIndex) => applyAutocomplete(autocompleteItems[itemIndex]),
+          close: () => {
+            autocompleteDismissedRef.current = { lineId: autocomplete.lineId, start: autocomplete.start };
+            changeAutocomplete(null);
+          },
+        }
+      : null;
+  const [suggestionMenuPosition, setSuggestionMenuPosition] = useState<{ top: number; left: number } | null>(null);
+  const suggestionMenuId = useId();
+
+  useLayoutEffect(() => {
+    const textarea = getActiveTextarea();
+    if (!suggestionMenu || !textarea || !rootRef.current) return;
+    setSuggestionMenuPosition(getCaretPopupPosition(textarea, rootRef.current));
+  }, [suggestionMenu !== null, slashQuery, autocomplete, activeLineIndex]);
+
+  const handleSuggestionMenuKey = (event: React.KeyboardEvent<HTMLTextAreaElement>): boolean => {
+    if (!suggestionMenu || event.altKey || event.ctrlKey || event.metaKey) return false;
+    const count = suggestionMenu.items.length;
+    if (event.key === "ArrowDown" || event.key === "ArrowUp") {
+      suggestionMenu.setActiveIndex((suggestionMenu.activeIndex + (event.key === "ArrowDown" ? 1 : -1) + count) % count);
+    } else if (event.key === "Enter" || event.key === "Tab") {
+      suggestionMenu.pick(suggestionMenu.activeIndex);
+    } else if (event.key === "Escape") {
+      suggestionMenu.close();
+    } else {
+      return false;
     }
+    event.preventDefault();
+    return true;
+  };
 
-    if (event.key === "ArrowUp" && !hasSelection && selectionStart === 0 && index > 0) {
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLTextAreaElement>, index: number) => {
+    if (readOnly) {
       event.preventDefault();
-      requestFocus(index - 1, Math.min(currentLines[index - 1].length, selectionStart));
       return;
     }
 
-    if (
-      event.key === "ArrowDown" &&
-      !hasSelection &&
-      selectionStart === line.length &&
-      index < currentLines.length - 1
-    ) {
-      event.preventDefault();
-      requestFocus(index + 1, Math.min(currentLines[index + 1].length, selectionStart));
+    if (handleSuggestionMenuKey(event)) return;
+
+    if (extensionsWithKeyDown.length > 0) {
+      const api = createExtensionApi();
+      for (const extension of extensionsWithKeyDown) {
+        if (extension.onKeyDown?.(event, api)) return;
+      }
     }
+
+    if (runKeyCommands(event, index)) return;
+    // A line is a single textarea row: an Enter no command took (Alt-Enter, an unbound chord) must not add a newline.
+    if (event.key === "Enter") event.preventDefault();
   };
 
-  const deleteCurrentSelection = () => {
-    if (readOnly) return;
+  const runKeyCommands = (event: React.KeyboardEvent<HTMLTextAreaElement>, index: number) => {
+    const names = resolveKeyCommands(keymap, event);
+    if (names.length === 0) return false;
+    const textarea = event.currentTarget;
+    const selectionStart = textarea.selectionStart ?? 0;
+    const context: CommandContext = {
+      api: createExtensionApi(),
+      active: {
+        index,
+        line: linesRef.current[index] ?? "",
+        selectionStart,
+        selectionEnd: textarea.selectionEnd ?? selectionStart,
+      },
+    };
+    for (const name of names) {
+      // Mid-drag only history commands run; line edits would fight the selection being extended.
+      if (isSelectingRef.current && name !== "undo" && name !== "redo") continue;
+      if (executeCommand(name, context)) {
+        event.preventDefault();
+        return true;
+      }
+    }
+    return false;
+  };
+
+  // Resolves a non-collapsed DOM selection inside the preview to ordered source points.
+  const readRenderedSelection = () => {
     const selection = window.getSelection();
-    if (!selection || selection.isCollapsed) return;
+    if (!selection || selection.isCollapsed) return null;
     const container = contentRef.current;
-    if (!container || !container.contains(selection.anchorNode) || !container.contains(selection.focusNode)) return;
-
-    const anchorLineEl = getLineElFromNode(selection.anchorNode);
-    const focusLineEl = getLineElFromNode(selection.focusNode);
-    const anchorSourceEl = getSourceElFromLineEl(anchorLineEl);
-    const focusSourceEl = getSourceElFromLineEl(focusLineEl);
-    if (!anchorLineEl || !focusLineEl || !anchorSourceEl || !focusSourceEl) return;
-
-    const anchorIndex = Number(anchorLineEl.dataset.lineIndex);
-    const focusIndex = Number(focusLineEl.dataset.lineIndex);
-    if (!Number.isInteger(anchorIndex) || !Number.isInteger(focusIndex)) return;
-
-    const anchorDisplay = getDisplayOffsetInLine(anchorSourceEl, selection.anchorNode!, selection.anchorOffset);
-    const focusDisplay = getDisplayOffsetInLine(focusSourceEl, selection.focusNode!, selection.focusOffset);
-
-    let startIndex = anchorIndex;
-    let startDisplay = anchorDisplay;
-    let endIndex = focusIndex;
-    let endDisplay = focusDisplay;
-    if (anchorIndex > focusIndex || (anchorIndex === focusIndex && anchorDisplay > focusDisplay)) {
-      startIndex = focusIndex;
-      startDisplay = focusDisplay;
-      endIndex = anchorIndex;
-      endDisplay = anchorDisplay;
-    }
+    if (!container || !container.contains(selection.anchorNode) || !container.contains(selection.focusNode)) return null;
 
     const currentLines = linesRef.current;
+    const { lineContexts } = analyzeBlocks(currentLines, blockOptions);
+    const anchor = resolveSourcePoint(selection.anchorNode!, selection.anchorOffset, currentLines, lineContexts);
+    const focus = resolveSourcePoint(selection.focusNode!, selection.focusOffset, currentLines, lineContexts);
+    if (!anchor || !focus) return null;
+
+    const anchorFirst =
+      anchor.index < focus.index || (anchor.index === focus.index && anchor.source <= focus.source);
+    return anchorFirst ? { start: anchor, end: focus } : { start: focus, end: anchor };
+  };
+
+  const deleteCurrentSelection = () => {
+    if (readOnly) return;
+    const range = readRenderedSelection();
+    if (!range) return;
+    const { start, end } = range;
+    const currentLines = linesRef.current;
+    const startIndex = start.index;
+    const endIndex = end.index;
+    const startSource = start.source;
+    const endSource = end.source;
+    const startIsLineStart = start.atLineStart;
+    const endIsLineEnd = end.atLineEnd;
     const startLine = currentLines[startIndex] ?? "";
     const endLine = currentLines[endIndex] ?? "";
-    const startIsLineStart = startDisplay === 0;
-    const endIsLineEnd = endDisplay >= getDisplayContentLength(endLine);
-    const startSource = mapDisplayOffsetToSourceIndex(startLine, startDisplay);
-    const endSource = endIsLineEnd ? endLine.length : mapDisplayOffsetToSourceIndex(endLine, endDisplay);
 
     const nextLines = commitLines((prev) => {
       const next = [...prev];
@@ -921,6 +3257,239 @@ export const HybridMarkdownEditor: React.FC<HybridMarkdownEditorProps> = ({
     requestFocus(Math.min(startIndex, nextLines.length - 1), startSource);
   };
 
+  const clampPosition = (position: EditorPosition): EditorPosition => {
+    const currentLines = linesRef.current;
+    const line = Math.max(0, Math.min(currentLines.length - 1, Math.floor(position.line)));
+    const column = Math.max(0, Math.min((currentLines[line] ?? "").length, Math.floor(position.column)));
+    return { line, column };
+  };
+
+  // Replaces a source range with (possibly multi-line) text and returns the position after the insertion.
+  const replaceSourceRange = (from: EditorPosition, to: EditorPosition, text: string): EditorPosition => {
+    let start = clampPosition(from);
+    let end = clampPosition(to);
+    if (end.line < start.line || (end.line === start.line && end.column < start.column)) {
+      [start, end] = [end, start];
+    }
+    const currentLines = linesRef.current;
+    const inserted = text.replace(/\r\n?/g, "\n").split("\n");
+    const last = inserted.length - 1;
+    const caret = inserted[last].length + (last === 0 ? start.column : 0);
+    inserted[0] = (currentLines[start.line] ?? "").slice(0, start.column) + inserted[0];
+    inserted[last] += (currentLines[end.line] ?? "").slice(end.column);
+    commitLines((prev) => {
+      const next = [...prev];
+      next.splice(start.line, end.line - start.line + 1, ...inserted);
+      return next;
+    });
+    return { line: start.line + last, column: caret };
+  };
+
+  const sliceSource = (start: EditorPosition, end: EditorPosition): string => {
+    const currentLines = linesRef.current;
+    if (start.line === end.line) return (currentLines[start.line] ?? "").slice(start.column, end.column);
+    return [
+      (currentLines[start.line] ?? "").slice(start.column),
+      ...currentLines.slice(start.line + 1, end.line),
+      (currentLines[end.line] ?? "").slice(0, end.column),
+    ].join("\n");
+  };
+
+  const getEditorSelection = (): EditorSelection | null => {
+    const textarea = getActiveTextarea();
+    let start: EditorPosition;
+    let end: EditorPosition;
+    if (textarea && activeLineIndex !== null) {
+      start = { line: activeLineIndex, column: textarea.selectionStart ?? 0 };
+      end = { line: activeLineIndex, column: textarea.selectionEnd ?? start.column };
+    } else {
+      const range = readRenderedSelection();
+      if (!range) return null;
+      start = { line: range.start.index, column: range.start.source };
+      end = { line: range.end.index, column: range.end.source };
+    }
+    return { start, end, text: sliceSource(start, end) };
+  };
+
+  const [searchQuery, setSearchQuery] = useState<SearchQuery | null>(null);
+  const searchQueryRef = useRef<SearchQuery | null>(null);
+  const [activeSearchMatch, setActiveSearchMatch] = useState<SearchMatch | null>(null);
+  const activeSearchMatchRef = useRef<SearchMatch | null>(null);
+  const [findPanelOpen, setFindPanelOpen] = useState(false);
+  const [findPanelFocusVersion, setFindPanelFocusVersion] = useState(0);
+  const findPanelEnabled = !!options?.findPanel;
+
+  const searchMatches = useMemo(
+    () => (searchQuery ? findMatches(lines, searchQuery) : []),
+    [lines, searchQuery]
+  );
+  const searchMatchesByLine = useMemo(() => {
+    const byLine = new Map<number, SearchMatch[]>();
+    for (const match of searchMatches) {
+      const list = byLine.get(match.line);
+      if (list) list.push(match);
+      else byLine.set(match.line, [match]);
+    }
+    return byLine;
+  }, [searchMatches]);
+  // An edit can move text out from under the selected match; only a match that still exists stays current.
+  const currentSearchMatch = activeSearchMatch
+    ? searchMatches.find(
+        (match) =>
+          match.line === activeSearchMatch.line &&
+          match.start === activeSearchMatch.start &&
+          match.end === activeSearchMatch.end
+      ) ?? null
+    : null;
+
+  const setSearch = (query: SearchQuery | null) => {
+    searchQueryRef.current = query;
+    activeSearchMatchRef.current = null;
+    setSearchQuery(query);
+    setActiveSearchMatch(null);
+    return query ? findMatches(linesRef.current, query) : [];
+  };
+
+  const scrollToLine = (index: number) => {
+    const lineEl = contentRef.current?.querySelector(`[data-line-index="${index}"]`) as HTMLElement | null;
+    if (lineEl) {
+      lineEl.scrollIntoView({ block: "nearest" });
+    } else if (virtualize && index >= 0 && index < linesRef.current.length) {
+      setScrollTarget(index);
+    }
+  };
+
+  // Activates the match's line with the hit selected; read-only editors only scroll it into view.
+  const selectSearchMatch = (match: SearchMatch | null, keepFocus: boolean) => {
+    activeSearchMatchRef.current = match;
+    setActiveSearchMatch(match);
+    if (!match) return null;
+    if (readOnly) {
+      scrollToLine(match.line);
+      return match;
+    }
+    selectionEndRef.current = match.end;
+    skipFocusRef.current = keepFocus;
+    requestFocus(match.line, match.start);
+    return match;
+  };
+
+  const stepSearch = (direction: 1 | -1, keepFocus = false) => {
+    const query = searchQueryRef.current;
+    const matches = query ? findMatches(linesRef.current, query) : [];
+    const current = activeSearchMatchRef.current;
+    const textarea = getActiveTextarea();
+    if (current) {
+      return selectSearchMatch(getAdjacentMatch(matches, { line: current.line, column: current.start }, direction), keepFocus);
+    }
+    const caret =
+      textarea && activeLineIndex !== null
+        ? { line: activeLineIndex, column: textarea.selectionStart ?? 0 }
+        : { line: direction === 1 ? 0 : linesRef.current.length, column: 0 };
+    return selectSearchMatch(getAdjacentMatch(matches, caret, direction, true), keepFocus);
+  };
+
+  const replaceCurrentMatch = (replacement: string, keepFocus = false) => {
+    const query = searchQueryRef.current;
+    const current = activeSearchMatchRef.current;
+    if (readOnly || !query) return false;
+    const result = current ? replaceMatch(linesRef.current, current, query, replacement) : null;
+    if (!current || !result) {
+      stepSearch(1, keepFocus);
+      return false;
+    }
+    commitLines(result.lines);
+    // Continue after the inserted text so a replacement that contains the query is not matched again.
+    const next = getAdjacentMatch(findMatches(result.lines, query), { line: current.line, column: result.end }, 1, true);
+    if (next) selectSearchMatch(next, keepFocus);
+    else requestFocus(current.line, result.end);
+    return true;
+  };
+
+  const replaceAllCurrentMatches = (replacement: string) => {
+    const query = searchQueryRef.current;
+    if (readOnly || !query) return 0;
+    const result = replaceAllMatches(linesRef.current, query, replacement);
+    if (result.count === 0) return 0;
+    commitLines(result.lines);
+    activeSearchMatchRef.current = null;
+    setActiveSearchMatch(null);
+    return result.count;
+  };
+
+  const openFindPanel = () => {
+    if (!findPanelEnabled) return;
+    const textarea = getActiveTextarea();
+    const selected = textarea ? textarea.value.slice(textarea.selectionStart ?? 0, textarea.selectionEnd ?? 0) : "";
+    if (selected !== "") setSearch({ ...searchQueryRef.current, text: selected });
+    else if (!searchQueryRef.current) setSearch({ text: "" });
+    setFindPanelOpen(true);
+    setFindPanelFocusVersion((version) => version + 1);
+  };
+
+  const closeFindPanel = () => {
+    setFindPanelOpen(false);
+    setSearch(null);
+    getActiveTextarea()?.focus();
+  };
+
+  // The methods of the latest render; the handle below delegates to them.
+  const handleMethodsRef = useRef<HybridMarkdownEditorHandle | null>(null);
+  handleMethodsRef.current = {
+    focus: (line, caret) => {
+      const hiddenFrontmatter = frontmatterMode === "hidden" ? blockStructure.blocks[0] : undefined;
+      const firstLine = hiddenFrontmatter?.kind === "frontmatter" ? hiddenFrontmatter.end + 1 : 0;
+      const index = line ?? activeLineIndex ?? firstLine;
+      requestFocus(index, caret ?? linesRef.current[index]?.length ?? 0);
+    },
+    blur: () => {
+      getActiveTextarea()?.blur();
+      setActiveLineIndex(null);
+    },
+    insertText: (text) => {
+      if (readOnly) return;
+      const currentLines = linesRef.current;
+      const documentEnd = { line: currentLines.length - 1, column: currentLines[currentLines.length - 1].length };
+      const selection = getEditorSelection();
+      const after = replaceSourceRange(selection?.start ?? documentEnd, selection?.end ?? documentEnd, text);
+      requestFocus(after.line, after.column);
+    },
+    replaceRange: (from, to, text) => {
+      replaceSourceRange(from, to, text);
+    },
+    getSelection: getEditorSelection,
+    scrollToLine,
+    getValue: () => linesRef.current.join("\n"),
+    find: setSearch,
+    findNext: () => stepSearch(1),
+    findPrevious: () => stepSearch(-1),
+    replace: (replacement) => replaceCurrentMatch(replacement),
+    replaceAll: replaceAllCurrentMatches,
+    openFindPanel,
+    executeCommand: (name) => executeCommand(name),
+    getCommandState,
+    subscribe: (listener) => {
+      stateListenersRef.current.add(listener);
+      return () => {
+        stateListenersRef.current.delete(listener);
+      };
+    },
+    getFrontmatter: () => parseFrontmatter(linesRef.current),
+    setFrontmatter: (data) => {
+      commitLines(updateFrontmatter(linesRef.current, data));
+    },
+    applyRemoteChanges,
+    getOutlineOptions: () => outlineOptions,
+  };
+  // One handle object for the editor's lifetime, so a handle kept in state or compared by identity stays valid.
+  const [handle] = useState(
+    () =>
+      new Proxy({} as HybridMarkdownEditorHandle, {
+        get: (_target, key) => handleMethodsRef.current![key as keyof HybridMarkdownEditorHandle],
+      })
+  );
+  useImperativeHandle(ref, () => handle, [handle]);
+
   useEffect(() => {
     const onWindowKeyDown = (event: KeyboardEvent) => {
       if (readOnly || (event.key !== "Backspace" && event.key !== "Delete")) return;
@@ -933,13 +3502,219 @@ export const HybridMarkdownEditor: React.FC<HybridMarkdownEditorProps> = ({
     };
     window.addEventListener("keydown", onWindowKeyDown);
     return () => window.removeEventListener("keydown", onWindowKeyDown);
-  }, [readOnly]);
+  }, [readOnly, inlineRules]);
+
+  // Rendered selections copy as Markdown source; a selection starting at a line's first visible
+  // character also takes the heading/list/quote prefix that the preview hides.
+  useEffect(() => {
+    const onClipboard = (event: ClipboardEvent) => {
+      if ((event.target as HTMLElement | null)?.closest?.("textarea")) return;
+      const isCut = event.type === "cut";
+      if (isCut && readOnly) return;
+      const range = readRenderedSelection();
+      if (!range || !event.clipboardData) return;
+
+      const start = { line: range.start.index, column: range.start.atLineStart ? 0 : range.start.source };
+      const end = { line: range.end.index, column: range.end.source };
+      const selection = window.getSelection();
+      const fragmentHost = document.createElement("div");
+      if (selection && selection.rangeCount > 0) fragmentHost.appendChild(selection.getRangeAt(0).cloneContents());
+
+      event.preventDefault();
+      event.clipboardData.setData("text/plain", sliceSource(start, end));
+      event.clipboardData.setData("text/html", `<div ${CLIPBOARD_MARKER_ATTRIBUTE}="">${fragmentHost.innerHTML}</div>`);
+      if (!isCut) return;
+      // Cut removes exactly the copied source range, so paste restores it verbatim.
+      selection?.removeAllRanges();
+      const after = replaceSourceRange(start, end, "");
+      requestFocus(after.line, after.column);
+    };
+    document.addEventListener("copy", onClipboard);
+    document.addEventListener("cut", onClipboard);
+    return () => {
+      document.removeEventListener("copy", onClipboard);
+      document.removeEventListener("cut", onClipboard);
+    };
+  }, [readOnly, inlineRules]);
+
+  useEffect(() => {
+    // Keep only the output of blocks that still exist with the same source and renderer.
+    const cache = blockPreviewCacheRef.current;
+    const live = new Set<string>();
+    for (const block of blockStructure.blocks) {
+      const key = getBlockRendererKey(block);
+      if (key !== null && blockRenderers.has(key)) live.add(`${key}\n${getRenderedBlockSource(lines, block).source}`);
+    }
+    for (const cacheKey of Array.from(cache.keys())) {
+      if (!live.has(cacheKey)) cache.delete(cacheKey);
+    }
+  }, [lines, blockStructure, blockRenderers]);
+
+  const renderBlockPreview = (key: string, renderer: BlockRenderer, block: Block) => {
+    const { source, position } = getRenderedBlockSource(lines, block);
+    const cacheKey = `${key}\n${source}`;
+    let cached = blockPreviewCacheRef.current.get(cacheKey);
+    if (!cached || cached.renderer !== renderer) {
+      const fallback = <pre style={{ margin: 0, whiteSpace: "pre-wrap" }}>{source}</pre>;
+      cached = { renderer, node: renderBlockSource(renderer, source, fallback) };
+      blockPreviewCacheRef.current.set(cacheKey, cached);
+    }
+    return { key, node: cached.node, position };
+  };
+
+  const renderEditorLine = (index: number) => {
+    const line = lines[index];
+    const id = lineIds[index];
+    const block = blockStructure.lineContexts[index] ?? null;
+    const table = block?.block.kind === "table" ? block.block : null;
+    const tablePreview =
+      table !== null &&
+      (readOnly || activeLineIndex === null || activeLineIndex < table.start || activeLineIndex > table.end);
+    const frontmatter = block?.block.kind === "frontmatter" ? block.block : null;
+    const frontmatterPreview =
+      frontmatter !== null &&
+      frontmatterMode !== "source" &&
+      (readOnly || activeLineIndex === null || activeLineIndex > frontmatter.end);
+    const frontmatterPanel = frontmatterPreview && frontmatterMode === "panel" && index === frontmatter.start;
+    const rendererKey = block ? getBlockRendererKey(block.block) : null;
+    const renderer = rendererKey !== null ? blockRenderers.get(rendererKey) : undefined;
+    const blockRendered =
+      block !== null &&
+      renderer !== undefined &&
+      (readOnly || activeLineIndex === null || activeLineIndex < block.block.start || activeLineIndex > block.block.end);
+    return (
+      <EditorLine
+        key={id}
+        index={index}
+        id={id}
+        line={line}
+        isActive={activeLineIndex === index}
+        readOnly={readOnly}
+        focusVersion={focusVersion}
+        onUpdate={(event) => handleLineChange(index, event.target.value, event.target.selectionStart)}
+        onActivate={(caret, lineIndex) => requestFocus(lineIndex ?? index, caret)}
+        onToggleTask={canToggleTasks ? () => toggleTask(index) : undefined}
+        onDragHandleStart={
+          dragHandles && !block
+            ? (event) => {
+                event.dataTransfer.setData(LINE_DRAG_TYPE, id);
+                event.dataTransfer.effectAllowed = "move";
+              }
+            : undefined
+        }
+        onKeyDown={(event) => handleKeyDown(event, index)}
+        onPaste={(event) => handlePaste(event, index)}
+        cursorPositionRef={cursorPositionRef}
+        selectionEndRef={selectionEndRef}
+        skipFocusRef={skipFocusRef}
+        isSelectingRef={isSelectingRef}
+        classNames={classNames}
+        styles={styles}
+        renderLine={renderLine}
+        extensionsPrefix={extensionsWithPrefix}
+        extensionsSuffix={extensionsWithSuffix}
+        inlineRules={inlineRules}
+        block={block}
+        tableLines={tablePreview && index === table.start ? lines.slice(table.start, table.end + 1) : null}
+        frontmatterLines={frontmatterPanel ? lines.slice(frontmatter.start, frontmatter.end + 1) : null}
+        blockPreview={blockRendered && index === block.block.start ? renderBlockPreview(rendererKey!, renderer, block.block) : null}
+        frontmatterCollapsed={frontmatterCollapsed}
+        onToggleFrontmatter={() => setFrontmatterCollapsed((collapsed) => !collapsed)}
+        folded={foldedLines.includes(index)}
+        onToggleFold={options?.folding && foldEnds[index] !== null ? () => toggleFold(index) : undefined}
+        hidden={
+          // An active line inside a fold stays visible while the folds around it are opened.
+          (foldHidden.has(index) && index !== activeLineIndex) ||
+          (tablePreview && index !== table.start) ||
+          (frontmatterPreview && !frontmatterPanel) ||
+          (blockRendered && index !== block.block.start)
+        }
+        searchMatches={
+          tablePreview && index === table.start
+            ? searchMatches.filter((match) => match.line >= table.start && match.line <= table.end)
+            : searchMatchesByLine.get(index)
+        }
+        activeSearchMatch={currentSearchMatch}
+        textareaAria={
+          suggestionMenu && activeLineIndex === index
+            ? {
+                "aria-autocomplete": "list",
+                "aria-controls": suggestionMenuId,
+                "aria-activedescendant": `${suggestionMenuId}-${suggestionMenu.activeIndex}`,
+              }
+            : undefined
+        }
+      />
+    );
+  };
+
+  // Lines outside the viewport are replaced by spacers; the active line and pinned lines always stay mounted.
+  const renderVirtualLines = (offsets: number[]) => {
+    const view = viewport ?? { top: 0, bottom: 0 };
+    const range = getVirtualRange(offsets, view.top, view.bottom, overscan);
+    const mounted = new Set<number>();
+    const mount = (index: number | null) => {
+      if (index === null || index < 0 || index >= lines.length) return;
+      const context = blockStructure.lineContexts[index];
+      // Table, frontmatter, and rendered block previews are rendered by their first line, so keep that mounted too.
+      if (context) mounted.add(context.block.start);
+      mounted.add(index);
+    };
+    for (let index = range.start; index <= range.end; index += 1) {
+      // Folded lines have no height, so a fold of any size sits inside the range; they stay unmounted.
+      if (!foldHidden.has(index)) mount(index);
+    }
+    [activeLineIndex, scrollTarget, ...selectionPins].forEach(mount);
+
+    const nodes: React.ReactNode[] = [];
+    const spacer = (from: number, to: number) => (
+      <div
+        key={`spacer-${from}`}
+        data-role="virtual-spacer"
+        aria-hidden="true"
+        style={{ height: offsets[to] - offsets[from] }}
+      />
+    );
+    let next = 0;
+    for (const index of Array.from(mounted).sort((a, b) => a - b)) {
+      if (index > next) nodes.push(spacer(next, index));
+      nodes.push(renderEditorLine(index));
+      next = index + 1;
+    }
+    if (next < lines.length) nodes.push(spacer(next, lines.length));
+    return nodes;
+  };
 
   return (
     <div
+      ref={rootRef}
       className={cx(className, classNames?.root)}
       style={{ position: "relative", display: "flex", flexDirection: "column", ...styles?.root }}
+      onKeyDown={(event) => {
+        // Keys outside a line textarea (the find panel, task checkboxes) can still open the panel.
+        if (event.defaultPrevented || !findPanelEnabled) return;
+        if (!resolveKeyCommands(keymap, event).includes("openFindPanel")) return;
+        event.preventDefault();
+        openFindPanel();
+      }}
+      onSelect={handleRootSelect}
     >
+      {findPanelOpen && findPanelEnabled ? (
+        <FindReplacePanel
+          query={searchQuery ?? { text: "" }}
+          matchCount={searchMatches.length}
+          activeMatchNumber={currentSearchMatch ? searchMatches.indexOf(currentSearchMatch) + 1 : null}
+          readOnly={readOnly}
+          focusVersion={findPanelFocusVersion}
+          onQueryChange={setSearch}
+          onStep={(direction) => stepSearch(direction, true)}
+          onReplace={(replacement) => replaceCurrentMatch(replacement, true)}
+          onReplaceAll={replaceAllCurrentMatches}
+          onClose={closeFindPanel}
+          className={classNames?.findPanel}
+          style={styles?.findPanel}
+        />
+      ) : null}
       <div
         ref={contentRef}
         className={cx(classNames?.content)}
@@ -952,7 +3727,7 @@ export const HybridMarkdownEditor: React.FC<HybridMarkdownEditorProps> = ({
           if (readOnly) return;
           const target = event.target as HTMLElement;
           const lineEl = target.closest("[data-line-index]") as HTMLElement | null;
-          if (!lineEl) {
+          if (!lineEl || target.closest('[data-role="drag-handle"], [data-role="fold-toggle"]')) {
             selectionAnchorRef.current = null;
             return;
           }
@@ -967,7 +3742,12 @@ export const HybridMarkdownEditor: React.FC<HybridMarkdownEditorProps> = ({
           if (textarea) {
             selectionAnchorRef.current = {
               index,
-              displayOffset: mapSourceIndexToDisplayOffset(linesRef.current[index] ?? "", textarea.selectionStart ?? 0),
+              displayOffset: mapSourceIndexToDisplayOffset(
+                linesRef.current[index] ?? "",
+                textarea.selectionStart ?? 0,
+                inlineRules,
+                blockStructure.lineContexts[index] != null
+              ),
             };
             return;
           }
@@ -994,6 +3774,8 @@ export const HybridMarkdownEditor: React.FC<HybridMarkdownEditorProps> = ({
           const endIndex = Number(endLineEl.dataset.lineIndex);
           if (!Number.isInteger(endIndex)) return;
           const endOffset = getClickDisplayOffset(endSourceEl, event.clientX, event.clientY);
+          // Keep the drag anchor mounted once its textarea turns back into a preview.
+          if (virtualize) setSelectionPins([anchor.index, endIndex]);
           setActiveLineIndex(null);
           bridgingSelectionRef.current = true;
           draggingFromTextareaRef.current = false;
@@ -1005,6 +3787,32 @@ export const HybridMarkdownEditor: React.FC<HybridMarkdownEditorProps> = ({
             }
           }, 0);
         }}
+        onDragOver={(event) => {
+          if (readOnly) return;
+          const types = Array.from(event.dataTransfer.types);
+          if (dragHandles && types.includes(LINE_DRAG_TYPE)) {
+            event.preventDefault();
+            event.dataTransfer.dropEffect = "move";
+          } else if (onUploadFile && types.includes("Files")) {
+            event.preventDefault();
+          }
+        }}
+        onDrop={(event) => {
+          if (readOnly) return;
+          const draggedId = dragHandles ? event.dataTransfer.getData(LINE_DRAG_TYPE) : "";
+          if (draggedId) {
+            event.preventDefault();
+            const targetEl = (event.target as HTMLElement).closest("[data-line-index]") as HTMLElement | null;
+            if (targetEl) dropDraggedLine(draggedId, targetEl, event.clientY);
+            return;
+          }
+          if (!onUploadFile) return;
+          const files = Array.from(event.dataTransfer.files).filter(isImageFile);
+          if (files.length === 0) return;
+          event.preventDefault();
+          const index = findDropLine(event.target as HTMLElement, event.clientY);
+          uploadFiles(files, Number.isInteger(index) ? index : linesRef.current.length - 1, false);
+        }}
         onMouseUp={() => {
           if (readOnly) return;
           isSelectingRef.current = false;
@@ -1013,30 +3821,25 @@ export const HybridMarkdownEditor: React.FC<HybridMarkdownEditorProps> = ({
           bridgingSelectionRef.current = false;
         }}
       >
-        {lines.map((line, index) => (
-          <EditorLine
-            key={index}
-            index={index}
-            line={line}
-            isActive={activeLineIndex === index}
-            readOnly={readOnly}
-            focusVersion={focusVersion}
-            onUpdate={(event) => handleLineChange(index, event.target.value)}
-            onActivate={(caret) => requestFocus(index, caret)}
-            onKeyDown={(event) => handleKeyDown(event, index)}
-            onPaste={(event) => handlePaste(event, index)}
-            cursorPositionRef={cursorPositionRef}
-            isSelectingRef={isSelectingRef}
-            classNames={classNames}
-            styles={styles}
-            renderLine={renderLine}
-            extensionsPrefix={extensionsWithPrefix}
-            extensionsSuffix={extensionsWithSuffix}
-          />
-        ))}
+        {lineOffsets ? renderVirtualLines(lineOffsets) : lines.map((_, index) => renderEditorLine(index))}
       </div>
+      {suggestionMenu ? (
+        <SuggestionMenu
+          id={suggestionMenuId}
+          label={suggestionMenu.label}
+          items={suggestionMenu.items}
+          activeIndex={suggestionMenu.activeIndex}
+          position={suggestionMenuPosition}
+          onPick={suggestionMenu.pick}
+          onHover={suggestionMenu.setActiveIndex}
+          classNames={classNames}
+          styles={styles}
+        />
+      ) : null}
     </div>
   );
-};
+});
+
+HybridMarkdownEditor.displayName = "HybridMarkdownEditor";
 
 export default HybridMarkdownEditor;
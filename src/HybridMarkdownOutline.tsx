@@ -0,0 +1,88 @@
+"use client";
+
+import React, { useMemo } from "react";
+import { findOutlineSection, getOutline, OutlineHeading } from "./outline";
+import { EditorHandleSource, useEditorSubscription } from "./useEditorSubscription";
+
+export interface HybridMarkdownOutlineProps {
+  editor: EditorHandleSource;
+  className?: string;
+  classNames?: {
+    root?: string;
+    item?: string;
+    activeItem?: string;
+  };
+  styles?: {
+    root?: React.CSSProperties;
+    item?: React.CSSProperties;
+    activeItem?: React.CSSProperties;
+  };
+  // Called after the editor has scrolled to and activated the chosen heading.
+  onNavigate?: (heading: OutlineHeading) => void;
+  "aria-label"?: string;
+}
+
+const cx = (...classes: Array<string | false | undefined>) => classes.filter(Boolean).join(" ");
+
+const HybridMarkdownOutline: React.FC<HybridMarkdownOutlineProps> = ({
+  editor,
+  className,
+  classNames,
+  styles,
+  onNavigate,
+  "aria-label": ariaLabel = "Outline",
+}) => {
+  // Like the toolbar, re-read the document and active line whenever the editor notifies.
+  const handle = useEditorSubscription(editor);
+
+  const value = handle?.getValue() ?? "";
+  // The editor's block options and inline rules, so headings match what it renders.
+  const options = handle?.getOutlineOptions();
+  const outline = useMemo(() => getOutline(value, options), [value, options]);
+  const activeLine = handle?.getSelection()?.start.line;
+  const activeIndex = activeLine === undefined ? -1 : findOutlineSection(outline, activeLine);
+
+  const navigate = (heading: OutlineHeading) => {
+    if (!handle) return;
+    handle.scrollToLine(heading.line);
+    handle.focus(heading.line);
+    onNavigate?.(heading);
+  };
+
+  return (
+    <nav aria-label={ariaLabel} className={cx(className, classNames?.root)} style={styles?.root}>
+      <ul style={{ listStyle: "none", margin: 0, padding: 0 }}>
+        {outline.map((heading, index) => {
+          const isActive = index === activeIndex;
+          return (
+            <li key={heading.line} data-level={heading.level} style={{ paddingLeft: `${(heading.level - 1) * 12}px` }}>
+              <button
+                type="button"
+                data-line={heading.line}
+                data-slug={heading.slug}
+                aria-current={isActive ? "location" : undefined}
+                className={cx(classNames?.item, isActive && classNames?.activeItem)}
+                style={{
+                  font: "inherit",
+                  textAlign: "left",
+                  background: "none",
+                  border: 0,
+                  padding: 0,
+                  cursor: "pointer",
+                  fontWeight: isActive ? 600 : undefined,
+                  ...styles?.item,
+                  ...(isActive ? styles?.activeItem : undefined),
+                }}
+                onClick={() => navigate(heading)}
+              >
+                {heading.text}
+              </button>
+            </li>
+          );
+        })}
+      </ul>
+    </nav>
+  );
+};
+
+export default HybridMarkdownOutline;
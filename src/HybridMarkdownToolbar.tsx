@@ -0,0 +1,112 @@
+"use client";
+
+import React from "react";
+import type { CommandState } from "./HybridMarkdownEditor";
+import { EditorHandleSource, useEditorSubscription } from "./useEditorSubscription";
+
+export type ToolbarItem =
+  | "separator"
+  | {
+      command: string;
+      label: string;
+      title?: string;
+      icon?: React.ReactNode;
+      // Overrides the editor's own active state for this button.
+      isActive?: (state: CommandState) => boolean;
+    };
+
+export interface HybridMarkdownToolbarProps {
+  editor: EditorHandleSource;
+  items?: ToolbarItem[];
+  className?: string;
+  classNames?: {
+    root?: string;
+    button?: string;
+    activeButton?: string;
+    separator?: string;
+  };
+  styles?: {
+    root?: React.CSSProperties;
+    button?: React.CSSProperties;
+    activeButton?: React.CSSProperties;
+    separator?: React.CSSProperties;
+  };
+  "aria-label"?: string;
+}
+
+export const defaultToolbarItems: ToolbarItem[] = [
+  { command: "toggleHeading1", label: "H1", title: "Heading 1" },
+  { command: "toggleHeading2", label: "H2", title: "Heading 2" },
+  { command: "toggleHeading3", label: "H3", title: "Heading 3" },
+  "separator",
+  { command: "toggleBold", label: "B", title: "Bold" },
+  { command: "toggleItalic", label: "I", title: "Italic" },
+  { command: "toggleStrikethrough", label: "S", title: "Strikethrough" },
+  { command: "toggleInlineCode", label: "</>", title: "Inline code" },
+  "separator",
+  { command: "toggleBulletList", label: "•", title: "Bulleted list" },
+  { command: "toggleOrderedList", label: "1.", title: "Numbered list" },
+  { command: "toggleTaskList", label: "☐", title: "Task list" },
+  { command: "toggleBlockquote", label: "❝", title: "Quote" },
+];
+
+const cx = (...classes: Array<string | false | undefined>) => classes.filter(Boolean).join(" ");
+
+const INACTIVE_STATE: CommandState = { active: false, enabled: false };
+
+const HybridMarkdownToolbar: React.FC<HybridMarkdownToolbarProps> = ({
+  editor,
+  items = defaultToolbarItems,
+  className,
+  classNames,
+  styles,
+  "aria-label": ariaLabel = "Formatting",
+}) => {
+  // The editor notifies after each render and selection change; re-rendering reads fresh state.
+  const handle = useEditorSubscription(editor);
+
+  return (
+    <div
+      role="toolbar"
+      aria-label={ariaLabel}
+      className={cx(className, classNames?.root)}
+      style={{ display: "flex", flexWrap: "wrap", alignItems: "center", gap: 4, ...styles?.root }}
+    >
+      {items.map((item, index) => {
+        if (item === "separator") {
+          return (
+            <span
+              key={`separator-${index}`}
+              role="separator"
+              aria-orientation="vertical"
+              className={classNames?.separator}
+              style={{ alignSelf: "stretch", width: 1, background: "currentColor", opacity: 0.2, ...styles?.separator }}
+            />
+          );
+        }
+        const state = handle?.getCommandState(item.command) ?? INACTIVE_STATE;
+        const isActive = item.isActive ? item.isActive(state) : state.active;
+        return (
+          <button
+            key={item.command}
+            type="button"
+            data-command={item.command}
+            title={item.title}
+            aria-label={item.title ?? item.label}
+            aria-pressed={isActive}
+            disabled={!state.enabled}
+            className={cx(classNames?.button, isActive && classNames?.activeButton)}
+            style={{ ...styles?.button, ...(isActive ? styles?.activeButton : undefined) }}
+            // Keep focus (and the selection) in the editor's textarea.
+            onMouseDown={(event) => event.preventDefault()}
+            onClick={() => handle?.executeCommand(item.command)}
+          >
+            {item.icon ?? item.label}
+          </button>
+        );
+      })}
+    </div>
+  );
+};
+
+export default HybridMarkdownToolbar;
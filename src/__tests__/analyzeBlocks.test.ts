@@ -0,0 +1,111 @@
+import { describe, expect, it } from 'vitest';
+import { analyzeBlocks, formatTable, getTableCellIndex, splitTableRow } from '../blockStructure';
+
+const roles = (lines: string[]) => analyzeBlocks(lines).lineContexts.map((context) => context?.role ?? null);
+
+describe('analyzeBlocks', () => {
+  it('groups a closed backtick fence with its language', () => {
+    const { blocks } = analyzeBlocks(['intro', '```ts', '- not a list', '```', 'outro']);
+    expect(blocks).toEqual([
+      { kind: 'code', variant: 'fenced', start: 1, end: 3, fence: '```', language: 'ts', closed: true },
+    ]);
+    expect(roles(['intro', '```ts', '- not a list', '```', 'outro'])).toEqual([null, 'open', 'body', 'close', null]);
+  });
+
+  it('extends an unclosed fence to the end of the document', () => {
+    const { blocks } = analyzeBlocks(['~~~', 'a', 'b']);
+    expect(blocks[0]).toMatchObject({ start: 0, end: 2, closed: false });
+    expect(roles(['~~~', 'a', 'b'])).toEqual(['open', 'body', 'body']);
+  });
+
+  it('only closes a fence with the same character and at least the same length', () => {
+    expect(roles(['````', '```', '~~~~', '`````'])).toEqual(['open', 'body', 'body', 'close']);
+  });
+
+  it('rejects backtick fences whose info string contains backticks', () => {
+    expect(analyzeBlocks(['``` a`b']).blocks).toEqual([]);
+  });
+
+  it('recognizes indented code after a blank line', () => {
+    const lines = ['para', '', '    code()', '', '    more()', '', 'after'];
+    expect(analyzeBlocks(lines).blocks).toEqual([
+      { kind: 'code', variant: 'indented', start: 2, end: 4, fence: '', language: '', closed: true },
+    ]);
+    expect(roles(lines)).toEqual([null, null, 'body', 'body', 'body', null, null]);
+  });
+
+  it('does not treat indented lines as code when they continue a paragraph or list', () => {
+    expect(analyzeBlocks(['para', '    still para']).blocks).toEqual([]);
+    expect(analyzeBlocks(['- item', '', '    continuation']).blocks).toEqual([]);
+    expect(analyzeBlocks(['- root', '    - nested']).blocks).toEqual([]);
+  });
+
+  it('detects frontmatter only on the first line, closed by --- or ...', () => {
+    const lines = ['---', 'title: A', '```', '---', '    code()'];
+    expect(analyzeBlocks(lines).blocks[0]).toEqual({ kind: 'frontmatter', start: 0, end: 3 });
+    expect(roles(lines)).toEqual(['open', 'body', 'body', 'close', null]);
+    expect(roles(['---', 'a: 1', '...'])).toEqual(['open', 'body', 'close']);
+    expect(analyzeBlocks(['---', 'never closed']).blocks).toEqual([]);
+    expect(analyzeBlocks(['intro', '---', 'a: 1', '---']).blocks).toEqual([]);
+  });
+
+  it('detects closed $$ math blocks and single-line display math', () => {
+    const lines = ['$$', 'a | b', '---', '$$', '$$ x $$', '$$', 'never closed'];
+    expect(analyzeBlocks(lines).blocks).toEqual([
+      { kind: 'math', start: 0, end: 3 },
+      { kind: 'math', start: 4, end: 4 },
+    ]);
+    expect(roles(lines)).toEqual(['open', 'body', 'body', 'close', 'body', null, null]);
+  });
+
+  it('leaves $$ lines as text when math is off', () => {
+    expect(analyzeBlocks(['$$', '# x', '$$', '$$ y $$'], { math: false }).blocks).toEqual([]);
+  });
+});
+
+describe('analyzeBlocks tables', () => {
+  it('detects a table from a header and a matching delimiter row', () => {
+    const lines = ['| Name | Qty |', '| :--- | --: |', '| a | 1 |', '| b | 2 |', '', 'after'];
+    expect(analyzeBlocks(lines).blocks).toEqual([
+      { kind: 'table', start: 0, end: 3, alignments: ['left', 'right'] },
+    ]);
+    expect(roles(lines)).toEqual(['header', 'delimiter', 'body', 'body', null, null]);
+  });
+
+  it('requires the delimiter row to have as many cells as the header', () => {
+    expect(analyzeBlocks(['| a | b |', '| --- |']).blocks).toEqual([]);
+    expect(analyzeBlocks(['a | b', '--- | :-:']).blocks[0]).toMatchObject({ alignments: [null, 'center'] });
+  });
+});
+
+describe('table helpers', () => {
+  it('splits rows on unescaped pipes with optional outer pipes', () => {
+    const row = '| a \\| b |  | c';
+    const cells = splitTableRow(row).map((cell) => row.slice(cell.start, cell.end));
+    expect(cells).toEqual(['a \\| b', '', 'c']);
+  });
+
+  it('finds the cell under the caret', () => {
+    expect(getTableCellIndex('| a | b |', 0)).toBe(0);
+    expect(getTableCellIndex('| a | b |', 3)).toBe(0);
+    expect(getTableCellIndex('| a | b |', 5)).toBe(1);
+    expect(getTableCellIndex('| a | b |', 9)).toBe(1);
+  });
+
+  it('re-pads a table while keeping alignment markers', () => {
+    expect(formatTable(['| Name | Qty |', '|:-|-:|', '| apples | 12 |', '| b |'], ['left', 'right'])).toEqual([
+      '| Name   | Qty |',
+      '| :----- | --: |',
+      '| apples |  12 |',
+      '| b      |     |',
+    ]);
+  });
+
+  it('widens the table to its longest row instead of dropping cells', () => {
+    expect(formatTable(['| a | b |', '|---|:-:|', '| 1 | 2 | 3 |'], [null, 'center'])).toEqual([
+      '| a   |  b  |     |',
+      '| --- | :-: | --- |',
+      '| 1   |  2  | 3   |',
+    ]);
+  });
+});
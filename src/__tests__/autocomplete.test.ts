@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest';
+import { AutocompleteSource, matchAutocompleteTrigger } from '../autocomplete';
+
+const mention: AutocompleteSource = { trigger: /@(\w*)/, getSuggestions: () => [] };
+const tag: AutocompleteSource = { trigger: /(?<=^|\s)#([\w-]*)/g, getSuggestions: () => [] };
+
+describe('matchAutocompleteTrigger', () => {
+  it('matches a trigger ending at the caret and reports its range and query', () => {
+    expect(matchAutocompleteTrigger([mention], 'hi @ali', 7)).toEqual({ source: mention, start: 3, end: 7, query: 'ali' });
+    expect(matchAutocompleteTrigger([mention], 'hi @', 4)).toEqual({ source: mention, start: 3, end: 4, query: '' });
+  });
+
+  it('ignores triggers that do not end at the caret', () => {
+    expect(matchAutocompleteTrigger([mention], 'hi @ali there', 13)).toBeNull();
+    expect(matchAutocompleteTrigger([mention], 'hi @ali', 2)).toBeNull();
+  });
+
+  it('respects lookbehinds and ignores global flags', () => {
+    expect(matchAutocompleteTrigger([tag], 'see #road-map', 13)?.query).toBe('road-map');
+    expect(matchAutocompleteTrigger([tag], 'see#road', 8)).toBeNull();
+    expect(matchAutocompleteTrigger([tag], '#a', 2)?.start).toBe(0);
+  });
+
+  it('uses the first matching source and skips empty matches', () => {
+    const any: AutocompleteSource = { trigger: /\w*/, getSuggestions: () => [] };
+    expect(matchAutocompleteTrigger([any, mention], 'hi @', 4)?.source).toBe(mention);
+    expect(matchAutocompleteTrigger([mention, tag], '@x', 2)?.source).toBe(mention);
+  });
+});
@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { getLineBlockFormat, toggleLineBlockFormat } from '../HybridMarkdownEditor';
+
+describe('getLineBlockFormat', () => {
+  it('reports headings, lists and quotes', () => {
+    expect(getLineBlockFormat('## Title')).toBe('h2');
+    expect(getLineBlockFormat('  - item')).toBe('ul');
+    expect(getLineBlockFormat('3. item')).toBe('ol');
+    expect(getLineBlockFormat('- [x] done')).toBe('task');
+    expect(getLineBlockFormat('> quote')).toBe('blockquote');
+    expect(getLineBlockFormat('plain')).toBeNull();
+  });
+});
+
+describe('toggleLineBlockFormat', () => {
+  it('replaces one prefix with another and reports the content offsets', () => {
+    expect(toggleLineBlockFormat('# Title', 'h3')).toEqual({ line: '### Title', contentStart: 4, previousContentStart: 2 });
+    expect(toggleLineBlockFormat('> quoted', 'ul').line).toBe('- quoted');
+    expect(toggleLineBlockFormat('* item', 'task').line).toBe('* [ ] item');
+    expect(toggleLineBlockFormat('- [x] done', 'ul').line).toBe('- done');
+    expect(toggleLineBlockFormat('plain', 'blockquote').line).toBe('> plain');
+  });
+
+  it('removes the prefix when the line already has the format', () => {
+    expect(toggleLineBlockFormat('## Title', 'h2')).toEqual({ line: 'Title', contentStart: 0, previousContentStart: 3 });
+    expect(toggleLineBlockFormat('  - nested', 'ul').line).toBe('  nested');
+  });
+
+  it('keeps list indentation but not for headings', () => {
+    expect(toggleLineBlockFormat('  - nested', 'ol').line).toBe('  1. nested');
+    expect(toggleLineBlockFormat('  - nested', 'h1').line).toBe('# nested');
+  });
+
+  it('continues the numbering of an ordered previous line at the same indent', () => {
+    expect(toggleLineBlockFormat('next', 'ol', '4. previous').line).toBe('5. next');
+    expect(toggleLineBlockFormat('  next', 'ol', '4. previous').line).toBe('  1. next');
+    expect(toggleLineBlockFormat('next', 'ol', '- previous').line).toBe('1. next');
+  });
+});
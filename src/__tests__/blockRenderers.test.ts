@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { analyzeBlocks } from '../blockStructure';
+import { createInlineMathRule, getBlockRendererKey, getRenderedBlockSource } from '../blockRenderers';
+import { mapDisplayOffsetToSourceIndex } from '../HybridMarkdownEditor';
+import { defaultInlineRules, tokenizeInline } from '../inlineGrammar';
+
+const rules = [createInlineMathRule((source) => `<${source}>`), ...defaultInlineRules];
+
+describe('block renderer lookup', () => {
+  it('keys fenced code by language and math blocks by $$', () => {
+    const lines = ['```mermaid', 'graph TD', '```', '', '$$', 'x^2', '$$', '$$ a + b $$', '```', 'plain', '```'];
+    const { blocks } = analyzeBlocks(lines);
+    expect(blocks.map(getBlockRendererKey)).toEqual(['mermaid', '$$', '$$', null]);
+  });
+
+  it('extracts the source between delimiters and the caret position for editing it', () => {
+    const lines = ['$$', 'x^2', 'y^2', '$$', '  $$ a + b $$', '```dot', '```'];
+    const [multi, single, empty] = analyzeBlocks(lines).blocks;
+    expect(getRenderedBlockSource(lines, multi)).toEqual({ source: 'x^2\ny^2', position: { line: 1, column: 0 } });
+    expect(getRenderedBlockSource(lines, single)).toEqual({ source: 'a + b', position: { line: 4, column: 5 } });
+    expect(getRenderedBlockSource(lines, empty)).toEqual({ source: '', position: { line: 5, column: 6 } });
+  });
+});
+
+describe('inline math rule', () => {
+  it('tokenizes $…$ with the TeX source as data and no visible content', () => {
+    const [, math] = tokenizeInline('area $\\pi r^2$ here', rules);
+    expect(math).toMatchObject({ kind: 'inlineMath', sourceStart: 5, sourceEnd: 14, contentStart: 6, contentEnd: 6 });
+    expect(math.data).toEqual({ source: '\\pi r^2' });
+  });
+
+  it('leaves prices, padded dollars, and escaped dollars as text', () => {
+    for (const text of ['costs $5 or $6', 'a $ b $ c', '\\$x$', '$$x$$']) {
+      expect(tokenizeInline(text, rules).some((token) => token.kind === 'inlineMath')).toBe(false);
+    }
+  });
+
+  it('maps display offsets around rendered math to the surrounding source', () => {
+    const line = 'a $x_1$ **b**';
+    expect(mapDisplayOffsetToSourceIndex(line, 2, rules)).toBe(7);
+    expect(mapDisplayOffsetToSourceIndex(line, 3, rules)).toBe(10);
+  });
+});
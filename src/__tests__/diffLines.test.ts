@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { diffLines } from '../HybridMarkdownEditor';
+
+describe('diffLines', () => {
+  it('returns an empty splice for identical documents', () => {
+    expect(diffLines(['a', 'b'], ['a', 'b'])).toEqual({ start: 2, removed: [], inserted: [] });
+  });
+
+  it('reports a single changed line', () => {
+    expect(diffLines(['a', 'b', 'c'], ['a', 'B', 'c'])).toEqual({ start: 1, removed: ['b'], inserted: ['B'] });
+  });
+
+  it('reports inserted lines without touching the shared suffix', () => {
+    expect(diffLines(['a', 'c'], ['a', 'b1', 'b2', 'c'])).toEqual({
+      start: 1,
+      removed: [],
+      inserted: ['b1', 'b2'],
+    });
+  });
+
+  it('reports merged lines as removal plus replacement', () => {
+    expect(diffLines(['first', 'second', 'tail'], ['firstsecond', 'tail'])).toEqual({
+      start: 0,
+      removed: ['first', 'second'],
+      inserted: ['firstsecond'],
+    });
+  });
+
+  it('does not let prefix and suffix overlap on repeated lines', () => {
+    expect(diffLines(['x', 'x'], ['x', 'x', 'x'])).toEqual({ start: 2, removed: [], inserted: ['x'] });
+  });
+});
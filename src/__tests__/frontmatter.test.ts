@@ -0,0 +1,107 @@
+import { describe, expect, it } from 'vitest';
+import { formatScalar, getFrontmatterEntries, parseFrontmatter, updateFrontmatter } from '../frontmatter';
+
+const doc = [
+  '---',
+  '# Post metadata',
+  'title: "Hello: world"',
+  'draft: false',
+  'rating: 4.5',
+  'tags:',
+  '  - one',
+  '  - two',
+  'aliases: [a, "b, c"]',
+  '',
+  'summary: |',
+  '  First line',
+  '  second line',
+  'empty:',
+  '---',
+  '# Body',
+];
+
+describe('parseFrontmatter', () => {
+  it('reads scalars, block and inline lists, and block scalars', () => {
+    expect(parseFrontmatter(doc)).toEqual({
+      title: 'Hello: world',
+      draft: false,
+      rating: 4.5,
+      tags: ['one', 'two'],
+      aliases: ['a', 'b, c'],
+      summary: 'First line\nsecond line\n',
+      empty: null,
+    });
+  });
+
+  it('returns null without a closed leading block', () => {
+    expect(parseFrontmatter(['# Title', '---', 'a: 1', '---'])).toBeNull();
+    expect(parseFrontmatter(['---', 'a: 1'])).toBeNull();
+  });
+
+  it('keeps plain strings, comments, and quoted keys apart', () => {
+    expect(parseFrontmatter(['---', 'url: http://x.test/a#b # note', '"my key": \'it\'\'s\'', '---'])).toEqual({
+      url: 'http://x.test/a#b',
+      'my key': "it's",
+    });
+  });
+
+  it('keeps a quoted key with an escape JSON cannot decode as written', () => {
+    expect(parseFrontmatter(['---', '"C:\\path": 1', '"\\u12": x', '"tab\\there": y', '---'])).toEqual({
+      'C:\\path': 1,
+      '\\u12': 'x',
+      'tab\there': 'y',
+    });
+  });
+
+  it('records the source lines each entry spans', () => {
+    const entries = getFrontmatterEntries(doc)!;
+    expect(entries.find((entry) => entry.key === 'tags')).toMatchObject({ start: 5, end: 7, style: 'block', itemIndent: '  ' });
+    expect(entries.find((entry) => entry.key === 'summary')).toMatchObject({ start: 10, end: 12, style: 'raw' });
+  });
+});
+
+describe('updateFrontmatter', () => {
+  it('leaves the source untouched when nothing changed', () => {
+    expect(updateFrontmatter(doc, parseFrontmatter(doc))).toEqual(doc);
+  });
+
+  it('rewrites only changed entries, keeping list styles', () => {
+    const data = { ...parseFrontmatter(doc)!, draft: true, tags: ['one', 'three', 'x: y'], aliases: ['z'] };
+    const next = updateFrontmatter(doc, data);
+    expect(next.slice(0, 10)).toEqual([
+      '---',
+      '# Post metadata',
+      'title: "Hello: world"',
+      'draft: true',
+      'rating: 4.5',
+      'tags:',
+      '  - one',
+      '  - three',
+      '  - "x: y"',
+      'aliases: [z]',
+    ]);
+    expect(next.slice(10)).toEqual(doc.slice(9));
+  });
+
+  it('appends new keys before the closing delimiter and drops removed ones', () => {
+    const next = updateFrontmatter(['---', 'a: 1', 'b: 2', '---', 'body'], { a: 1, c: 'yes' });
+    expect(next).toEqual(['---', 'a: 1', 'c: yes', '---', 'body']);
+  });
+
+  it('creates and removes the block', () => {
+    expect(updateFrontmatter(['body'], { title: 'T', tags: ['a'] })).toEqual(['---', 'title: T', 'tags:', '  - a', '---', 'body']);
+    expect(updateFrontmatter([''], { a: 1 })).toEqual(['---', 'a: 1', '---', '']);
+    expect(updateFrontmatter(['---', 'a: 1', '---', 'body'], null)).toEqual(['body']);
+  });
+});
+
+describe('formatScalar', () => {
+  it('quotes strings that would read back as something else', () => {
+    expect(formatScalar('plain text')).toBe('plain text');
+    expect(formatScalar('true')).toBe('"true"');
+    expect(formatScalar('42')).toBe('"42"');
+    expect(formatScalar('- dash')).toBe('"- dash"');
+    expect(formatScalar('a, b', true)).toBe('"a, b"');
+    expect(formatScalar(null)).toBe('null');
+  });
+});
@@ -0,0 +1,24 @@
+import { describe, expect, it } from 'vitest';
+import { analyzeBlocks } from '../blockStructure';
+import { getFoldEnds } from '../HybridMarkdownEditor';
+
+describe('getFoldEnds', () => {
+  it('folds a heading up to the next heading of equal or higher level', () => {
+    const lines = ['# A', 'text', '## B', 'b', '### C', '## D', '# E', '## F'];
+    expect(getFoldEnds(lines)).toEqual([5, null, 4, null, null, null, 7, null]);
+  });
+
+  it('folds a section to the end of the document and skips empty sections', () => {
+    expect(getFoldEnds(['## A', '## B', '', 'b'])).toEqual([null, 3, null, null]);
+  });
+
+  it('folds list items that have nested lines', () => {
+    const lines = ['- a', '  - a1', '    more', '- b', '1. c', '   1. c1'];
+    expect(getFoldEnds(lines)).toEqual([2, 2, null, null, 5, null]);
+  });
+
+  it('ignores heading-like lines inside blocks', () => {
+    const lines = ['# A', '```', '# not a heading', '```', 'after'];
+    expect(getFoldEnds(lines, analyzeBlocks(lines).lineContexts)).toEqual([4, null, null, null, null]);
+  });
+});
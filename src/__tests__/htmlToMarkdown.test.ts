@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { hasMarkdownFormatting, htmlToMarkdown } from '../htmlToMarkdown';
+
+describe('htmlToMarkdown', () => {
+  it('converts headings, paragraphs and inline formatting', () => {
+    const html =
+      '<h2>Title</h2><p>Some <strong>bold</strong>, <em>italic</em>, <del>gone</del>, <code>a`b</code> and ' +
+      '<a href="https://example.com/a b" title="Ex">a link</a>.</p>';
+    expect(htmlToMarkdown(html)).toBe(
+      '## Title\n\nSome **bold**, *italic*, ~~gone~~, ``a`b`` and [a link](https://example.com/a%20b "Ex").'
+    );
+  });
+
+  it('converts nested, ordered and task lists', () => {
+    const html =
+      '<ul><li>one<ul><li>nested</li></ul></li><li><input type="checkbox" checked> done</li>' +
+      '<li><input type="checkbox"> todo</li></ul><ol start="3"><li>third</li><li>fourth</li></ol>';
+    expect(htmlToMarkdown(html)).toBe('- one\n  - nested\n- [x] done\n- [ ] todo\n\n3. third\n4. fourth');
+    expect(htmlToMarkdown('<ul><li>a<ul><li>b</li></ul></li></ul>', { indentSize: 4 })).toBe('- a\n    - b');
+  });
+
+  it('converts blockquotes, code blocks, rules and tables', () => {
+    const html =
+      '<blockquote><p>quoted</p><p>twice</p></blockquote><pre><code class="language-ts">const a = 1;\n</code></pre>' +
+      '<hr><table><tr><th>A</th><th>B|C</th></tr><tr><td>1</td><td>2</td></tr></table>';
+    expect(htmlToMarkdown(html)).toBe(
+      '> quoted\n>\n> twice\n\n```ts\nconst a = 1;\n```\n\n---\n\n| A | B\\|C |\n| --- | --- |\n| 1 | 2 |'
+    );
+  });
+
+  it('escapes text that would otherwise turn into Markdown syntax', () => {
+    expect(htmlToMarkdown('<p># not a heading *or* [link] snake_case _x_</p>')).toBe(
+      '\\# not a heading \\*or\\* \\[link\\] snake_case \\_x\\_'
+    );
+  });
+
+  it('understands word-processor inline styles and ignores non-content tags', () => {
+    const html =
+      '<meta charset="utf-8"><style>p{}</style><b style="font-weight:normal" id="docs-internal-guid-1">' +
+      '<p><span style="font-weight:700">Bold </span><span style="font-style:italic">slanted</span></p></b>' +
+      '<script>alert(1)</script>';
+    expect(htmlToMarkdown(html)).toBe('**Bold** *slanted*');
+  });
+
+  it('drops javascript: links and keeps line breaks', () => {
+    expect(htmlToMarkdown('<p><a href="javascript:alert(1)">x</a><br> next</p>')).toBe('x\nnext');
+  });
+
+  it('keeps whitespace inside white-space: pre content', () => {
+    const html = '<p>Run:</p><div style="white-space: pre"><span>a  b</span>\n<span>    c</span></div>';
+    expect(htmlToMarkdown(html)).toBe('Run:\n\na  b\n    c');
+    expect(htmlToMarkdown('<div style="white-space: pre"><p style="white-space: normal">a  b</p></div>')).toBe('a b');
+  });
+});
+
+describe('hasMarkdownFormatting', () => {
+  it('is false for plain text in span and div wrappers', () => {
+    expect(hasMarkdownFormatting('<meta charset="utf-8"><span>use *args</span>')).toBe(false);
+    expect(
+      hasMarkdownFormatting(
+        '<div style="color: #d4d4d4; white-space: pre;"><div><span>    return a_b * c;</span></div></div>'
+      )
+    ).toBe(false);
+  });
+
+  it('is true for semantic tags and formatting styles', () => {
+    expect(hasMarkdownFormatting('<p>text</p>')).toBe(true);
+    expect(hasMarkdownFormatting('<div><a href="/x">x</a></div>')).toBe(true);
+    expect(hasMarkdownFormatting('<span style="font-weight:700">bold</span>')).toBe(true);
+  });
+});
@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { compileKeymaps, defaultKeymap, matchesKeyChord, parseKeyChord, resolveKeyCommands } from '../keymap';
+
+const key = (k: string, modifiers: Partial<Record<'ctrlKey' | 'metaKey' | 'altKey' | 'shiftKey', boolean>> = {}) => ({
+  key: k,
+  ctrlKey: false,
+  metaKey: false,
+  altKey: false,
+  shiftKey: false,
+  ...modifiers,
+});
+
+describe('parseKeyChord', () => {
+  it('splits modifiers from the key', () => {
+    expect(parseKeyChord('Mod-Shift-z')).toEqual({
+      key: 'z',
+      mod: true,
+      ctrl: false,
+      meta: false,
+      alt: false,
+      shift: true,
+    });
+    expect(parseKeyChord('Ctrl--').key).toBe('-');
+    expect(parseKeyChord('Space').key).toBe(' ');
+  });
+});
+
+describe('matchesKeyChord', () => {
+  it('treats Mod as either Ctrl or Cmd', () => {
+    const chord = parseKeyChord('Mod-b');
+    expect(matchesKeyChord(key('b', { ctrlKey: true }), chord)).toBe(true);
+    expect(matchesKeyChord(key('B', { metaKey: true }), chord)).toBe(true);
+    expect(matchesKeyChord(key('b'), chord)).toBe(false);
+    expect(matchesKeyChord(key('b', { ctrlKey: true, shiftKey: true }), chord)).toBe(false);
+  });
+
+  it('requires exact Ctrl/Meta/Alt state for explicit modifiers', () => {
+    expect(matchesKeyChord(key('k', { ctrlKey: true }), parseKeyChord('Ctrl-k'))).toBe(true);
+    expect(matchesKeyChord(key('k', { metaKey: true }), parseKeyChord('Ctrl-k'))).toBe(false);
+    expect(matchesKeyChord(key('ArrowUp', { altKey: true }), parseKeyChord('ArrowUp'))).toBe(false);
+  });
+
+  it('ignores Shift for punctuation unless the chord names it', () => {
+    expect(matchesKeyChord(key('*', { shiftKey: true }), parseKeyChord('*'))).toBe(true);
+    expect(matchesKeyChord(key('Tab', { shiftKey: true }), parseKeyChord('Tab'))).toBe(false);
+  });
+});
+
+describe('compileKeymaps', () => {
+  it('lets later keymaps replace or remove bindings chord by chord', () => {
+    const keymap = compileKeymaps([defaultKeymap, { Tab: 'custom' }, { 'Mod-b': null, 'Alt-ArrowUp': ['a', 'b'] }]);
+    expect(resolveKeyCommands(keymap, key('Tab'))).toEqual(['custom']);
+    expect(resolveKeyCommands(keymap, key('b', { ctrlKey: true }))).toEqual([]);
+    expect(resolveKeyCommands(keymap, key('ArrowUp', { altKey: true }))).toEqual(['a', 'b']);
+    expect(resolveKeyCommands(keymap, key('Enter'))).toEqual(['insertTableRow', 'splitLine']);
+  });
+});
@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { mapPositionThroughSplice } from '../HybridMarkdownEditor';
+
+describe('mapPositionThroughSplice', () => {
+  it('leaves positions above the splice alone and shifts the ones below', () => {
+    const splice = { start: 2, removed: ['x'], inserted: ['a', 'b', 'c'] };
+    expect(mapPositionThroughSplice({ line: 1, column: 4 }, splice)).toEqual({ line: 1, column: 4 });
+    expect(mapPositionThroughSplice({ line: 3, column: 4 }, splice)).toEqual({ line: 5, column: 4 });
+    expect(mapPositionThroughSplice({ line: 2, column: 0 }, { start: 2, removed: [], inserted: ['new'] })).toEqual({
+      line: 3,
+      column: 0,
+    });
+  });
+
+  it('keeps the caret on the same text when its line changes', () => {
+    const edit = (before: string, after: string, column: number) =>
+      mapPositionThroughSplice({ line: 0, column }, { start: 0, removed: [before], inserted: [after] });
+    expect(edit('hello world', 'hello big world', 3)).toEqual({ line: 0, column: 3 });
+    expect(edit('hello world', 'oh hello world', 3)).toEqual({ line: 0, column: 6 });
+    expect(edit('hello world', 'hello there', 8)).toEqual({ line: 0, column: 11 });
+  });
+
+  it('returns null when the line was deleted', () => {
+    expect(mapPositionThroughSplice({ line: 2, column: 0 }, { start: 1, removed: ['a', 'b'], inserted: ['c'] })).toBeNull();
+    expect(mapPositionThroughSplice({ line: 0, column: 0 }, { start: 1, removed: ['a', 'b'], inserted: ['c'] })).toEqual({
+      line: 0,
+      column: 0,
+    });
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import { getLineBlockEnd, moveLineBlock, moveLineBlockTo } from '../HybridMarkdownEditor';
+
+const list = ['- a', '  - a1', '    - a1x', '  - a2', '- b', '  - b1', 'after'];
+
+describe('getLineBlockEnd', () => {
+  it('spans a list item and its deeper-indented lines', () => {
+    expect(getLineBlockEnd(list, 0)).toBe(3);
+    expect(getLineBlockEnd(list, 1)).toBe(2);
+    expect(getLineBlockEnd(list, 3)).toBe(3);
+    expect(getLineBlockEnd(['- a', '  continued', '', '  - not nested'], 0)).toBe(1);
+  });
+
+  it('treats non-list lines as single lines', () => {
+    expect(getLineBlockEnd(['para', '  indented'], 0)).toBe(0);
+    expect(getLineBlockEnd(['> quote', '  > nested'], 0)).toBe(0);
+  });
+});
+
+describe('moveLineBlock', () => {
+  it('swaps plain lines with their neighbours', () => {
+    expect(moveLineBlock(['a', 'b', 'c'], 1, -1)).toEqual({ lines: ['b', 'a', 'c'], index: 0 });
+    expect(moveLineBlock(['a', 'b', 'c'], 1, 1)).toEqual({ lines: ['a', 'c', 'b'], index: 2 });
+  });
+
+  it('returns null at the document edges', () => {
+    expect(moveLineBlock(['a', 'b'], 0, -1)).toBeNull();
+    expect(moveLineBlock(['- a', '  - a1'], 0, 1)).toBeNull();
+  });
+
+  it('moves a subtree past a sibling subtree', () => {
+    expect(moveLineBlock(list, 4, -1)).toEqual({
+      lines: ['- b', '  - b1', '- a', '  - a1', '    - a1x', '  - a2', 'after'],
+      index: 0,
+    });
+    expect(moveLineBlock(list, 0, 1)).toEqual({
+      lines: ['- b', '  - b1', '- a', '  - a1', '    - a1x', '  - a2', 'after'],
+      index: 2,
+    });
+    expect(moveLineBlock(list, 3, -1)).toEqual({
+      lines: ['- a', '  - a2', '  - a1', '    - a1x', '- b', '  - b1', 'after'],
+      index: 1,
+    });
+  });
+
+  it('crosses a parent or plain line one line at a time', () => {
+    expect(moveLineBlock(list, 4, 1)).toEqual({
+      lines: ['- a', '  - a1', '    - a1x', '  - a2', 'after', '- b', '  - b1'],
+      index: 5,
+    });
+    expect(moveLineBlock(list, 1, -1)).toEqual({
+      lines: ['  - a1', '    - a1x', '- a', '  - a2', '- b', '  - b1', 'after'],
+      index: 0,
+    });
+    expect(moveLineBlock(list, 3, 1)).toEqual({
+      lines: ['- a', '  - a1', '    - a1x', '- b', '  - a2', '  - b1', 'after'],
+      index: 4,
+    });
+  });
+});
+
+describe('moveLineBlockTo', () => {
+  it('moves a unit to an insertion point in the unmoved lines', () => {
+    expect(moveLineBlockTo(['a', 'b', 'c', 'd'], 0, 3)).toEqual({ lines: ['b', 'c', 'a', 'd'], index: 2 });
+    expect(moveLineBlockTo(['a', 'b', 'c', 'd'], 3, 1)).toEqual({ lines: ['a', 'd', 'b', 'c'], index: 1 });
+    expect(moveLineBlockTo(list, 0, 7)).toEqual({
+      lines: ['- b', '  - b1', 'after', '- a', '  - a1', '    - a1x', '  - a2'],
+      index: 3,
+    });
+  });
+
+  it('ignores drops inside the moved unit', () => {
+    expect(moveLineBlockTo(list, 0, 2)).toBeNull();
+    expect(moveLineBlockTo(list, 0, 4)).toBeNull();
+    expect(moveLineBlockTo(['a', 'b'], 1, 1)).toBeNull();
+  });
+});
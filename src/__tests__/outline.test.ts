@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { InlineRule } from '../inlineGrammar';
+import { findOutlineSection, getOutline, slugify } from '../outline';
+
+describe('getOutline', () => {
+  it('lists h1-h4 headings with level, display text, line, and slug', () => {
+    const value = ['# Intro', 'text', '## The **bold** [plan](x)', '#### Deep', '##### too deep', '#nospace'].join('\n');
+    expect(getOutline(value)).toEqual([
+      { level: 1, text: 'Intro', line: 0, slug: 'intro' },
+      { level: 2, text: 'The bold plan', line: 2, slug: 'the-bold-plan' },
+      { level: 4, text: 'Deep', line: 3, slug: 'deep' },
+    ]);
+  });
+
+  it('ignores heading-like lines inside code blocks and frontmatter', () => {
+    const value = ['---', '# comment: x', '---', '```sh', '# not a heading', '```', '# Real'].join('\n');
+    expect(getOutline(value).map((heading) => heading.line)).toEqual([6]);
+  });
+
+  it('reads blocks and inline syntax with the given options', () => {
+    const value = ['$$', '# Inside', '$$', '## See [[Page]]'].join('\n');
+    expect(getOutline(value).map((heading) => heading.text)).toEqual(['See [[Page]]']);
+    const pageRule: InlineRule = {
+      name: 'page',
+      match: (source, from) => {
+        const start = source.indexOf('[[', from);
+        const end = start < 0 ? -1 : source.indexOf(']]', start);
+        return end < 0 ? null : { start, end: end + 2, contentStart: start + 2, contentEnd: end };
+      },
+      render: (_token, children) => children,
+    };
+    expect(getOutline(value, { blocks: { math: false }, inlineRules: [pageRule] })).toEqual([
+      { level: 1, text: 'Inside', line: 1, slug: 'inside' },
+      { level: 2, text: 'See Page', line: 3, slug: 'see-page' },
+    ]);
+  });
+
+  it('makes repeated slugs unique', () => {
+    const value = ['# Notes', '## Notes', '## Notes-1', '# Notes'].join('\n');
+    expect(getOutline(value).map((heading) => heading.slug)).toEqual(['notes', 'notes-1', 'notes-1-1', 'notes-2']);
+  });
+});
+
+describe('slugify', () => {
+  it('keeps letters, digits, dashes, and underscores', () => {
+    expect(slugify(' What’s new in v2.0? ')).toBe('whats-new-in-v20');
+    expect(slugify('Über_café — menu')).toBe('über_café--menu');
+  });
+});
+
+describe('findOutlineSection', () => {
+  it('finds the last heading at or above a line', () => {
+    const outline = getOutline(['intro', '# A', 'a', '## B', 'b'].join('\n'));
+    expect(findOutlineSection(outline, 0)).toBe(-1);
+    expect(findOutlineSection(outline, 1)).toBe(0);
+    expect(findOutlineSection(outline, 2)).toBe(0);
+    expect(findOutlineSection(outline, 4)).toBe(1);
+  });
+});
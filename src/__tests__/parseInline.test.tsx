@@ -0,0 +1,98 @@
+import React from 'react';
+import { describe, expect, it } from 'vitest';
+import { render } from '@testing-library/react';
+import { InlineRule, parseInline, tokenizeInline } from '../inlineGrammar';
+
+const html = (text: string, rules?: InlineRule[]) =>
+  render(<span>{parseInline(text, rules)}</span>).container.innerHTML;
+
+describe('parseInline', () => {
+  it('returns plain text untouched', () => {
+    expect(parseInline('hello world')).toEqual(['hello world']);
+  });
+
+  it('renders the built-in CommonMark/GFM inline syntax', () => {
+    expect(html('**b** *i* ~~s~~ `c` ==h==')).toBe(
+      '<span><strong>b</strong> <em>i</em> <del>s</del> <code>c</code> <mark>h</mark></span>'
+    );
+  });
+
+  it('renders underscore emphasis but ignores intraword underscores', () => {
+    expect(html('__b__ _i_ snake_case_name')).toBe('<span><strong>b</strong> <em>i</em> snake_case_name</span>');
+  });
+
+  it('renders links with nested formatting and a title', () => {
+    expect(html('[**docs**](https://example.com "Docs")')).toBe(
+      '<span><a href="https://example.com" title="Docs" data-role="inline-link"><strong>docs</strong></a></span>'
+    );
+  });
+
+  it('drops unsafe link targets', () => {
+    expect(html('[x](javascript:alert(1))')).not.toContain('href="javascript');
+    expect(html('[x](javascript:void)')).toBe('<span><a data-role="inline-link">x</a></span>');
+  });
+
+  it('renders images without visible text and pending images as their alt text', () => {
+    expect(html('a ![cat](/cat.png "Cat") b')).toBe(
+      '<span>a <img alt="cat" title="Cat" data-role="inline-image" style="max-width: 100%; vertical-align: middle;" src="/cat.png"> b</span>'
+    );
+    expect(html('![Uploading…]()')).toBe(
+      '<span><span data-role="inline-image-pending" style="opacity: 0.6; font-style: italic;">Uploading…</span></span>'
+    );
+    expect(html('![x](javascript:alert)')).not.toContain('src=');
+    expect(html('![x](data:image/png;base64,AAAA)')).toContain('src="data:image/png;base64,AAAA"');
+  });
+
+  it('keeps code span content literal', () => {
+    expect(html('`**not bold**`')).toBe('<span><code>**not bold**</code></span>');
+  });
+
+  it('hides backslash escapes', () => {
+    expect(html('\\*literal\\*')).toBe('<span>*literal*</span>');
+  });
+
+  it('lets custom rules take part in tokenization', () => {
+    const tagRule: InlineRule = {
+      name: 'tag',
+      match: (source, from) => {
+        const pattern = /#(\w+)/g;
+        pattern.lastIndex = from;
+        const match = pattern.exec(source);
+        if (!match) return null;
+        return {
+          start: match.index,
+          end: match.index + match[0].length,
+          contentStart: match.index,
+          contentEnd: match.index + match[0].length,
+        };
+      },
+      render: (_token, children) => <span className="tag">{children}</span>,
+    };
+    expect(html('see #todo now', [tagRule])).toBe('<span>see <span class="tag">#todo</span> now</span>');
+  });
+
+  it('records exact source and content offsets for nested tokens', () => {
+    const [link] = tokenizeInline('[a **b**](u)');
+    expect(link).toMatchObject({ kind: 'link', sourceStart: 0, sourceEnd: 12, contentStart: 1, contentEnd: 8 });
+    expect(link.children.map((token) => [token.kind, token.contentStart, token.contentEnd])).toEqual([
+      ['text', 1, 3],
+      ['bold', 5, 6],
+    ]);
+  });
+
+  it('wraps highlighted source ranges across token boundaries without adding text', () => {
+    const highlight = (start: number, end: number) => ({ start, end, render: (text: string) => <i>{text}</i> });
+    const rendered = render(<span>{parseInline('ab **cd** ef', undefined, [highlight(1, 7), highlight(11, 12)])}</span>);
+    expect(rendered.container.innerHTML).toBe('<span>a<i>b </i><strong><i>cd</i></strong> e<i>f</i></span>');
+    expect(rendered.container.textContent).toBe('ab cd ef');
+  });
+
+  it('ignores rules that report inconsistent offsets', () => {
+    const broken: InlineRule = {
+      name: 'broken',
+      match: () => ({ start: 0, end: 0, contentStart: 0, contentEnd: 0 }),
+      render: () => null,
+    };
+    expect(parseInline('text', [broken])).toEqual(['text']);
+  });
+});
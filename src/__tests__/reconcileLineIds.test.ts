@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { reconcileLineIds } from '../HybridMarkdownEditor';
+
+const idFactory = () => {
+  let counter = 0;
+  return () => `new-${(counter += 1)}`;
+};
+
+describe('reconcileLineIds', () => {
+  it('keeps IDs of lines below an inserted line', () => {
+    expect(reconcileLineIds(['a', 'b'], ['1', '2'], ['x', 'a', 'b'], idFactory())).toEqual(['new-1', '1', '2']);
+  });
+
+  it('keeps the first ID when a line is split or edited', () => {
+    expect(reconcileLineIds(['hello world', 'z'], ['1', '2'], ['hello', ' world', 'z'], idFactory())).toEqual([
+      '1',
+      'new-1',
+      '2',
+    ]);
+    expect(reconcileLineIds(['a', 'b'], ['1', '2'], ['a', 'B'], idFactory())).toEqual(['1', '2']);
+  });
+
+  it('keeps the surviving ID when lines merge', () => {
+    expect(reconcileLineIds(['a', 'b', 'c', 'd'], ['1', '2', '3', '4'], ['a', 'bc', 'd'], idFactory())).toEqual([
+      '1',
+      '2',
+      '4',
+    ]);
+  });
+
+  it('reuses the ID of an identical line that shifts inside the changed range', () => {
+    expect(reconcileLineIds(['a', 'b', 'c'], ['1', '2', '3'], ['x', 'a', 'y'], idFactory())).toEqual([
+      'new-1',
+      '1',
+      '3',
+    ]);
+  });
+
+  it('matches repeated lines in order without reusing an ID', () => {
+    expect(
+      reconcileLineIds(['p', '-', 'q', '-', 'r'], ['1', '2', '3', '4', '5'], ['p', 'x', '-', '-', 'r'], idFactory())
+    ).toEqual(['1', 'new-1', '2', '4', '5']);
+  });
+});
@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { mapDisplayOffsetToSourceIndex } from '../HybridMarkdownEditor';
+import { analyzeBlocks } from '../blockStructure';
+import { defaultInlineRules, tokenizeInline } from '../inlineGrammar';
+import { buildReferenceIndex, createReferenceRules, insertFootnote } from '../references';
+
+const doc = [
+  'See [the docs][Docs] and [Docs][] or [docs], plus a note[^1] and [^missing].',
+  '',
+  '[docs]: https://example.com/docs "Manual"',
+  '[^1]: The footnote text.',
+  '```',
+  '[code]: https://ignored.test',
+  '```',
+];
+
+describe('buildReferenceIndex', () => {
+  it('collects link and footnote definitions outside code by normalized label', () => {
+    const index = buildReferenceIndex(doc, analyzeBlocks(doc).lineContexts);
+    expect([...index.links]).toEqual([['docs', { label: 'docs', url: 'https://example.com/docs', title: 'Manual' }]]);
+    expect([...index.footnotes]).toEqual([['1', { label: '1', text: 'The footnote text.' }]]);
+  });
+
+  it('reads angle-bracket URLs and keeps the first definition of a label', () => {
+    const index = buildReferenceIndex(['[A  b]: <https://a.test/x y>', '[a b]: https://second.test']);
+    expect(index.links.get('a b')).toEqual({ label: 'A  b', url: 'https://a.test/x y' });
+  });
+});
+
+describe('reference rules', () => {
+  const rules = [...createReferenceRules(buildReferenceIndex(doc)), ...defaultInlineRules];
+
+  it('resolves full, collapsed, and shortcut reference links only when defined', () => {
+    const kinds = tokenizeInline(doc[0], rules).filter((token) => token.kind !== 'text');
+    expect(kinds.map((token) => [token.kind, token.text, token.data?.label])).toEqual([
+      ['referenceLink', 'the docs', 'Docs'],
+      ['referenceLink', 'Docs', 'Docs'],
+      ['referenceLink', 'docs', 'docs'],
+      ['footnoteRef', '1', '1'],
+      ['footnoteRef', 'missing', 'missing'],
+    ]);
+    expect(tokenizeInline('[nope][undefined] [x]', rules).map((token) => token.kind)).toEqual(['text']);
+  });
+
+  it('leaves definitions and inline links alone', () => {
+    expect(tokenizeInline('[docs]: https://example.com/docs', rules).map((token) => token.kind)).toEqual(['text']);
+    expect(tokenizeInline('[^1]: text', rules).map((token) => token.kind)).toEqual(['text']);
+    expect(tokenizeInline('[docs](/local)', rules).map((token) => token.kind)).toEqual(['link']);
+  });
+
+  it('maps display offsets past hidden labels', () => {
+    const line = 'a[^12] [x][docs] b';
+    expect(mapDisplayOffsetToSourceIndex(line, 1, rules)).toBe(3);
+    expect(mapDisplayOffsetToSourceIndex(line, 4, rules)).toBe(8);
+    expect(mapDisplayOffsetToSourceIndex(line, 5, rules)).toBe(16);
+  });
+});
+
+describe('insertFootnote', () => {
+  it('numbers after the highest footnote and appends the definition', () => {
+    expect(insertFootnote(['Text[^2] more', '', '[^2]: two'], 0, 13)).toEqual({
+      lines: ['Text[^2] more[^3]', '', '[^2]: two', '[^3]: '],
+      label: '3',
+      definitionLine: 3,
+    });
+  });
+
+  it('separates the first definition from the body with a blank line and replaces the selection', () => {
+    expect(insertFootnote(['Some words'], 0, 5, 10).lines).toEqual(['Some [^1]', '', '[^1]: ']);
+  });
+});
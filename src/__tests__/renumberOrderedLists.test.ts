@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import { analyzeBlocks } from '../blockStructure';
+import { findOrderedListRuns, renumberOrderedLists } from '../HybridMarkdownEditor';
+
+describe('findOrderedListRuns', () => {
+  it('groups siblings per indent across blank lines and nested content', () => {
+    const lines = ['1. a', '   1. a1', '   2. a2', '', '2. b', '   continued', '3. c', 'para', '1. d'];
+    expect(findOrderedListRuns(lines)).toEqual([[0, 4, 6], [1, 2], [8]]);
+  });
+
+  it('ends a run at a bullet item or shallower text', () => {
+    expect(findOrderedListRuns(['1. a', '- b', '1. c'])).toEqual([[0], [2]]);
+    expect(findOrderedListRuns(['1. a', '  2. b', '- c', '  3. d'])).toEqual([[0], [1], [3]]);
+  });
+
+  it('counts a code block once, by its opening line', () => {
+    const lines = ['1. a', '```', '2. not an item', '```', '2. b'];
+    expect(findOrderedListRuns(lines, analyzeBlocks(lines).lineContexts)).toEqual([[0], [4]]);
+  });
+
+  it('scans only the given lines', () => {
+    expect(findOrderedListRuns(['1. a', 'para', '1. b', '1. c', 'para', '1. d'], [], 1, 4)).toEqual([[2, 3]]);
+  });
+});
+
+describe('renumberOrderedLists', () => {
+  it('counts up from the first item of each run', () => {
+    expect(renumberOrderedLists(['3. a', '3. b', '9. c'])).toEqual(['3. a', '4. b', '5. c']);
+    expect(renumberOrderedLists(['1. a', '   5. a1', '   1. a2', '1. b'])).toEqual([
+      '1. a',
+      '   5. a1',
+      '   6. a2',
+      '2. b',
+    ]);
+  });
+
+  it('only touches runs that reach the given range', () => {
+    const lines = ['1. a', '1. b', 'para', '1. c', '1. d'];
+    expect(renumberOrderedLists(lines, 3, 3)).toEqual(['1. a', '1. b', 'para', '1. c', '2. d']);
+    expect(renumberOrderedLists(lines, 2, 2)).toEqual(lines);
+  });
+
+  it('follows a run from before the range through nested content and code', () => {
+    const lines = ['intro', '1. a', '   nested', '   ```', 'code', '   ```', '', '1. b', 'para', '1. c'];
+    const { lineContexts } = analyzeBlocks(lines);
+    expect(renumberOrderedLists(lines, 7, 7, lineContexts)).toEqual([
+      'intro',
+      '1. a',
+      '   nested',
+      '   ```',
+      'code',
+      '   ```',
+      '',
+      '2. b',
+      'para',
+      '1. c',
+    ]);
+  });
+
+  it('only reads the lines between the run-ending lines around the range', () => {
+    const lines = ['9. x', '9. y', 'para', '1. a', '1. b', '- item', '9. z'];
+    const read = new Set<number>();
+    const lineContexts = new Proxy(analyzeBlocks(lines).lineContexts, {
+      get: (target, property, receiver) => {
+        if (typeof property === 'string' && /^\d+$/.test(property)) read.add(Number(property));
+        return Reflect.get(target, property, receiver);
+      },
+    });
+    expect(renumberOrderedLists(lines, 4, 4, lineContexts)).toEqual([
+      '9. x',
+      '9. y',
+      'para',
+      '1. a',
+      '2. b',
+      '- item',
+      '9. z',
+    ]);
+    expect([...read].filter((index) => index < 2 || index > 5)).toEqual([]);
+  });
+
+  it('keeps the marker spacing and item text', () => {
+    expect(renumberOrderedLists(['1.  a', '1.\tb 1. c'])).toEqual(['1.  a', '2.\tb 1. c']);
+  });
+});
@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import {
+  createSearchPattern,
+  findMatches,
+  getAdjacentMatch,
+  replaceAllMatches,
+  replaceMatch,
+} from '../search';
+
+describe('findMatches', () => {
+  const lines = ['Cat cat', 'concat category', 'a.b axb'];
+
+  it('matches plain text case-insensitively by default', () => {
+    expect(findMatches(lines, { text: 'cat' })).toEqual([
+      { line: 0, start: 0, end: 3 },
+      { line: 0, start: 4, end: 7 },
+      { line: 1, start: 3, end: 6 },
+      { line: 1, start: 7, end: 10 },
+    ]);
+    expect(findMatches(lines, { text: 'a.b' })).toEqual([{ line: 2, start: 0, end: 3 }]);
+  });
+
+  it('supports case-sensitive and whole-word search', () => {
+    expect(findMatches(lines, { text: 'Cat', caseSensitive: true })).toEqual([{ line: 0, start: 0, end: 3 }]);
+    expect(findMatches(lines, { text: 'cat', wholeWord: true })).toHaveLength(2);
+    expect(findMatches(['über über_x'], { text: 'über', wholeWord: true })).toEqual([{ line: 0, start: 0, end: 4 }]);
+  });
+
+  it('supports regular expressions and skips empty matches', () => {
+    expect(findMatches(lines, { text: 'a.b', regex: true })).toHaveLength(2);
+    expect(findMatches(['abc'], { text: 'x*', regex: true })).toEqual([]);
+  });
+
+  it('returns nothing for empty or invalid queries', () => {
+    expect(findMatches(lines, { text: '' })).toEqual([]);
+    expect(createSearchPattern({ text: '(', regex: true })).toBeNull();
+    expect(findMatches(lines, { text: '(', regex: true })).toEqual([]);
+    expect(findMatches(['a(b'], { text: '(' })).toEqual([{ line: 0, start: 1, end: 2 }]);
+  });
+});
+
+describe('replaceMatch', () => {
+  it('replaces one match literally unless the query is a regex', () => {
+    expect(replaceMatch(['a cat'], { line: 0, start: 2, end: 5 }, { text: 'cat' }, '$1 dog')).toEqual({
+      lines: ['a $1 dog'],
+      end: 8,
+    });
+    expect(
+      replaceMatch(['key=value'], { line: 0, start: 0, end: 9 }, { text: '(\\w+)=(\\w+)', regex: true }, '$2=$1')
+    ).toEqual({ lines: ['value=key'], end: 9 });
+  });
+
+  it('keeps lookaround context of the full line', () => {
+    expect(replaceMatch(['xa ya'], { line: 0, start: 4, end: 5 }, { text: '(?<=y)a', regex: true }, 'b')).toEqual({
+      lines: ['xa yb'],
+      end: 5,
+    });
+  });
+
+  it('returns null when the match is stale', () => {
+    expect(replaceMatch(['a dog'], { line: 0, start: 2, end: 5 }, { text: 'cat' }, 'x')).toBeNull();
+  });
+});
+
+describe('replaceAllMatches', () => {
+  it('replaces every match on every line', () => {
+    expect(replaceAllMatches(['cat cat', 'no', 'Cat'], { text: 'cat' }, 'dog')).toEqual({
+      lines: ['dog dog', 'no', 'dog'],
+      count: 3,
+    });
+    expect(replaceAllMatches(['a1 b22'], { text: '(\\d+)', regex: true }, '<$1>')).toEqual({
+      lines: ['a<1> b<22>'],
+      count: 2,
+    });
+    expect(replaceAllMatches(['x'], { text: 'y' }, 'z')).toEqual({ lines: ['x'], count: 0 });
+  });
+});
+
+describe('getAdjacentMatch', () => {
+  const matches = [
+    { line: 0, start: 2, end: 3 },
+    { line: 2, start: 0, end: 1 },
+    { line: 2, start: 5, end: 6 },
+  ];
+
+  it('steps forward and backward with wrap-around', () => {
+    expect(getAdjacentMatch(matches, { line: 0, column: 2 }, 1)).toBe(matches[1]);
+    expect(getAdjacentMatch(matches, { line: 0, column: 2 }, 1, true)).toBe(matches[0]);
+    expect(getAdjacentMatch(matches, { line: 2, column: 5 }, 1)).toBe(matches[0]);
+    expect(getAdjacentMatch(matches, { line: 2, column: 5 }, -1)).toBe(matches[1]);
+    expect(getAdjacentMatch(matches, { line: 0, column: 2 }, -1)).toBe(matches[2]);
+    expect(getAdjacentMatch([], { line: 0, column: 0 }, 1)).toBeNull();
+  });
+});
@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { createSlashCommandExtension, defaultSlashCommands, filterSlashCommands } from '../slashCommands';
+
+describe('filterSlashCommands', () => {
+  it('matches labels and keywords case-insensitively', () => {
+    expect(filterSlashCommands(defaultSlashCommands, 'QUO').map((item) => item.id)).toEqual(['quote']);
+    expect(filterSlashCommands(defaultSlashCommands, 'todo').map((item) => item.id)).toEqual(['taskList']);
+    expect(filterSlashCommands(defaultSlashCommands, 'zzz')).toEqual([]);
+    expect(filterSlashCommands(defaultSlashCommands, '')).toHaveLength(defaultSlashCommands.length);
+  });
+
+  it('lists label prefix matches before other matches', () => {
+    const items = [
+      { id: 'a', label: 'Insert list', lines: [''] },
+      { id: 'b', label: 'List of tables', lines: [''] },
+    ];
+    expect(filterSlashCommands(items, 'list').map((item) => item.id)).toEqual(['b', 'a']);
+  });
+});
+
+describe('createSlashCommandExtension', () => {
+  it('appends custom items and replaces defaults with the same id', () => {
+    const date = { id: 'date', label: 'Date', lines: ['2024-01-01'] };
+    const quote = { id: 'quote', label: 'Callout', lines: ['> [!note] '] };
+    const items = createSlashCommandExtension({ items: [date, quote] }).slashCommands!;
+    expect(items).toHaveLength(defaultSlashCommands.length + 1);
+    expect(items[items.length - 1]).toBe(date);
+    expect(items.find((item) => item.id === 'quote')).toBe(quote);
+  });
+
+  it('can leave out the defaults', () => {
+    const date = { id: 'date', label: 'Date', lines: ['2024-01-01'] };
+    expect(createSlashCommandExtension({ items: [date], includeDefaults: false }).slashCommands).toEqual([date]);
+  });
+});
@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest';
+import { buildLineOffsets, getVirtualRange } from '../virtualLines';
+
+describe('buildLineOffsets', () => {
+  it('prefers measured heights over the estimate', () => {
+    expect(buildLineOffsets(['a', 'b', 'c', 'd'], new Map([['b', 40], ['c', 0]]), 20)).toEqual([0, 20, 60, 60, 80]);
+  });
+
+  it('gives hidden lines no height', () => {
+    expect(buildLineOffsets(['a', 'b', 'c', 'd'], new Map([['b', 40]]), 20, new Set([1, 2]))).toEqual([0, 20, 20, 20, 40]);
+  });
+});
+
+describe('getVirtualRange', () => {
+  const offsets = buildLineOffsets(Array.from({ length: 100 }, (_, i) => `line-${i}`), new Map(), 10);
+
+  it('covers the viewport plus overscan on both sides', () => {
+    expect(getVirtualRange(offsets, 200, 300, 5)).toEqual({ start: 15, end: 34 });
+  });
+
+  it('clamps to the document bounds', () => {
+    expect(getVirtualRange(offsets, 0, 50, 10)).toEqual({ start: 0, end: 14 });
+    expect(getVirtualRange(offsets, 950, 5000, 3)).toEqual({ start: 92, end: 99 });
+  });
+
+  it('returns an empty range for an empty document', () => {
+    expect(getVirtualRange([0], 0, 100, 2)).toEqual({ start: 0, end: -1 });
+  });
+});
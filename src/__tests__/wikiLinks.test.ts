@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { mapDisplayOffsetToSourceIndex } from '../HybridMarkdownEditor';
+import { defaultInlineRules, tokenizeInline } from '../inlineGrammar';
+import { createWikiLinkExtension, createWikiLinkRule } from '../wikiLinks';
+
+const rules = [createWikiLinkRule(), ...defaultInlineRules];
+
+describe('wiki link rule', () => {
+  it('tokenizes plain and aliased links with the visible text as content', () => {
+    const [, plain, , aliased] = tokenizeInline('see [[Page One]] and [[Page Two|two]]', rules);
+    expect(plain).toMatchObject({ kind: 'wikiLink', text: 'Page One', sourceStart: 4, contentStart: 6, contentEnd: 14 });
+    expect(plain.data).toEqual({ target: 'Page One' });
+    expect(aliased).toMatchObject({ kind: 'wikiLink', text: 'two', contentStart: 32, contentEnd: 35, sourceEnd: 37 });
+    expect(aliased.data).toEqual({ target: 'Page Two', alias: 'two' });
+  });
+
+  it('leaves unclosed, empty, and nested brackets as text', () => {
+    expect(tokenizeInline('[[open', rules).map((token) => token.kind)).toEqual(['text']);
+    expect(tokenizeInline('[[]]', rules).map((token) => token.kind)).toEqual(['text']);
+    expect(tokenizeInline('[[a [[b]]', rules).map((token) => token.kind)).toEqual(['text', 'wikiLink']);
+  });
+
+  it('maps rendered offsets past hidden brackets and targets', () => {
+    const line = 'x [[Page|alias]] y';
+    expect(mapDisplayOffsetToSourceIndex(line, 2, rules)).toBe(9);
+    expect(mapDisplayOffsetToSourceIndex(line, 7, rules)).toBe(16);
+  });
+});
+
+describe('createWikiLinkExtension', () => {
+  it('offers ranked page completions after [[', async () => {
+    const extension = createWikiLinkExtension({ pageNames: ['Roadmap', 'Project road', 'Notes'] });
+    const [source] = extension.autocomplete!;
+    expect(source.trigger.exec('see [[roa')?.[1]).toBe('roa');
+    const signal = new AbortController().signal;
+    expect(await source.getSuggestions('road', { index: 0, line: '', signal })).toEqual([
+      { id: 'Roadmap', label: 'Roadmap', insertText: '[[Roadmap]]' },
+      { id: 'Project road', label: 'Project road', insertText: '[[Project road]]' },
+    ]);
+  });
+
+  it('only registers completion when page names are given', () => {
+    expect(createWikiLinkExtension().autocomplete).toEqual([]);
+  });
+});
@@ -0,0 +1,47 @@
+export type AutocompleteSuggestion = {
+  id?: string;
+  label: string;
+  description?: string;
+  // Replaces the whole trigger match; defaults to `label`.
+  insertText?: string;
+};
+
+export type AutocompleteSource = {
+  // Tested against the text before the caret and anchored there, e.g. /@(\w*)/ or /(?<=^|\s)#([\w-]*)/.
+  // The whole match is replaced on insertion; capture group 1 is the query.
+  trigger: RegExp;
+  getSuggestions: (
+    query: string,
+    context: { index: number; line: string; signal: AbortSignal }
+  ) => AutocompleteSuggestion[] | Promise<AutocompleteSuggestion[]>;
+  // Accessible name of the suggestion listbox.
+  label?: string;
+};
+
+export type AutocompleteMatch = { source: AutocompleteSource; start: number; end: number; query: string };
+
+const anchoredTriggers = new WeakMap<RegExp, RegExp>();
+
+const anchorTrigger = (trigger: RegExp): RegExp => {
+  let anchored = anchoredTriggers.get(trigger);
+  if (!anchored) {
+    anchored = new RegExp(`(?:${trigger.source})$`, trigger.flags.replace(/[gy]/g, ""));
+    anchoredTriggers.set(trigger, anchored);
+  }
+  return anchored;
+};
+
+// The first source whose trigger ends exactly at `caret`; empty matches never trigger.
+export const matchAutocompleteTrigger = (
+  sources: readonly AutocompleteSource[],
+  line: string,
+  caret: number
+): AutocompleteMatch | null => {
+  const before = line.slice(0, caret);
+  for (const source of sources) {
+    const match = anchorTrigger(source.trigger).exec(before);
+    if (!match || match[0] === "") continue;
+    return { source, start: match.index, end: caret, query: match[1] ?? "" };
+  }
+  return null;
+};
@@ -0,0 +1,94 @@
+import React from "react";
+import type { Block } from "./blockStructure";
+import type { EditorPosition } from "./HybridMarkdownEditor";
+import type { InlineRule } from "./inlineGrammar";
+
+export type BlockRenderer = (source: string) => React.ReactNode;
+
+// Keyed by fenced code language (```` ```mermaid ````), `$$` for display math blocks, or `$` for inline math.
+export type BlockRenderers = Record<string, BlockRenderer>;
+
+// Rendered output stands in for source that is not shown, so none of its text counts as display text.
+export const RENDERED_OUTPUT_SELECTOR = '[data-role="inline-render"]';
+
+// `$…$` with no space inside either delimiter and no digit after the closing one, so prices stay text.
+const INLINE_MATH_REGEX = /(?<![\\$])\$(?![\s$])([^$\n]*?[^\s\\$])\$(?![$\d])/g;
+
+type RenderErrorBoundaryProps = { fallback: React.ReactNode; children?: React.ReactNode };
+
+// Components returned by a renderer throw while React renders them, after the renderer itself has returned.
+class RenderErrorBoundary extends React.Component<RenderErrorBoundaryProps, { failed: boolean }> {
+  state = { failed: false };
+
+  static getDerivedStateFromError() {
+    return { failed: true };
+  }
+
+  render() {
+    return this.state.failed ? this.props.fallback : this.props.children;
+  }
+}
+
+// A renderer that throws shows the source instead of breaking the editor. The boundary is keyed by source, so
+// an edit gives the renderer another try.
+export const renderBlockSource = (render: BlockRenderer, source: string, fallback: React.ReactNode) => {
+  let output: React.ReactNode;
+  try {
+    output = render(source);
+  } catch {
+    return fallback;
+  }
+  return (
+    <RenderErrorBoundary key={source} fallback={fallback}>
+      {output}
+    </RenderErrorBoundary>
+  );
+};
+
+export const getBlockRendererKey = (block: Block): string | null => {
+  if (block.kind === "math") return "$$";
+  if (block.kind === "code" && block.variant === "fenced" && block.language !== "") return block.language;
+  return null;
+};
+
+// The source handed to a renderer, and where the caret goes when its rendered output is clicked.
+export const getRenderedBlockSource = (
+  lines: readonly string[],
+  block: Block
+): { source: string; position: EditorPosition } => {
+  if (block.kind === "math" && block.start === block.end) {
+    const line = lines[block.start];
+    const open = line.indexOf("$$") + 2;
+    const source = line.slice(open, line.lastIndexOf("$$"));
+    return { source: source.trim(), position: { line: block.start, column: open + (source.length - source.trimStart().length) } };
+  }
+  const closed = block.kind !== "code" || block.closed;
+  const body = lines.slice(block.start + 1, closed ? block.end : block.end + 1);
+  return {
+    source: body.join("\n"),
+    position: body.length > 0 ? { line: block.start + 1, column: 0 } : { line: block.start, column: lines[block.start].length },
+  };
+};
+
+// Inline math has no visible source text: the token's content range is empty (like an image), and a click on
+// the output puts the caret just after the opening `$` via `data-source-offset`.
+export const createInlineMathRule = (render: BlockRenderer): InlineRule => ({
+  name: "inlineMath",
+  match: (source, from) => {
+    INLINE_MATH_REGEX.lastIndex = from;
+    const match = INLINE_MATH_REGEX.exec(source);
+    if (!match) return null;
+    return {
+      start: match.index,
+      end: match.index + match[0].length,
+      contentStart: match.index + 1,
+      contentEnd: match.index + 1,
+      data: { source: match[1] },
+    };
+  },
+  render: (token) => (
+    <span data-role="inline-render" data-source-offset={token.sourceStart + 1}>
+      {renderBlockSource(render, token.data?.source ?? "", `$${token.data?.source ?? ""}$`)}
+    </span>
+  ),
+});
@@ -0,0 +1,313 @@
+export type CodeBlock = {
+  kind: "code";
+  variant: "fenced" | "indented";
+  start: number;
+  end: number;
+  fence: string;
+  language: string;
+  closed: boolean;
+};
+
+export type TableAlignment = "left" | "center" | "right" | null;
+
+export type TableBlock = {
+  kind: "table";
+  start: number;
+  end: number;
+  alignments: TableAlignment[];
+};
+
+// A YAML block delimited by `---` on the document's first line and the next `---` or `...` line.
+export type FrontmatterBlock = {
+  kind: "frontmatter";
+  start: number;
+  end: number;
+};
+
+// Display math between `$$` lines, or on a single `$$…$$` line (start === end). Only closed blocks count.
+export type MathBlock = {
+  kind: "math";
+  start: number;
+  end: number;
+};
+
+export type Block = CodeBlock | TableBlock | FrontmatterBlock | MathBlock;
+
+export type BlockRole = "open" | "body" | "close" | "header" | "delimiter";
+
+// Trimmed content range of one table cell; empty cells collapse to a caret position inside the cell.
+export type TableCell = { start: number; end: number };
+
+export type LineBlockContext = { block: Block; role: BlockRole } | null;
+
+export type BlockStructure = {
+  blocks: Block[];
+  lineContexts: LineBlockContext[];
+};
+
+const FENCE_OPEN_REGEX = /^( {0,3})(`{3,}|~{3,})(.*)$/;
+const INDENTED_CODE_REGEX = /^(?: {4}|\t)/;
+const LIST_OR_QUOTE_REGEX = /^\s*(?:[-*]\s|\d+\.\s|>\s)/;
+const MATH_DELIMITER_REGEX = /^ {0,3}\$\$\s*$/;
+const MATH_LINE_REGEX = /^ {0,3}\$\$(.*\S.*)\$\$\s*$/;
+
+const DELIMITER_CELL_REGEX = /^:?-+:?$/;
+
+const isBlank = (line: string) => line.trim() === "";
+
+const isWhitespace = (char: string | undefined) => char === " " || char === "\t";
+
+const isUnescapedPipe = (line: string, index: number) => {
+  if (line[index] !== "|") return false;
+  let backslashes = 0;
+  for (let i = index - 1; i >= 0 && line[i] === "\\"; i -= 1) backslashes += 1;
+  return backslashes % 2 === 0;
+};
+
+export const splitTableRow = (line: string): TableCell[] => {
+  let begin = 0;
+  while (isWhitespace(line[begin])) begin += 1;
+  if (line[begin] === "|") begin += 1;
+  let limit = line.length;
+  while (limit > begin && isWhitespace(line[limit - 1])) limit -= 1;
+  if (limit > begin && isUnescapedPipe(line, limit - 1)) limit -= 1;
+
+  const cells: TableCell[] = [];
+  let cellStart = begin;
+  for (let i = begin; i <= limit; i += 1) {
+    if (i < limit && !isUnescapedPipe(line, i)) continue;
+    let start = cellStart;
+    let end = i;
+    while (start < end && isWhitespace(line[start])) start += 1;
+    while (end > start && isWhitespace(line[end - 1])) end -= 1;
+    if (start === end) {
+      start = Math.min(cellStart + 1, i);
+      end = start;
+    }
+    cells.push({ start, end });
+    cellStart = i + 1;
+  }
+  return cells;
+};
+
+export const getTableCellIndex = (line: string, caret: number): number => {
+  const cells = splitTableRow(line);
+  const leadingPipe = line.trimStart().startsWith("|") ? 1 : 0;
+  let pipes = 0;
+  for (let i = 0; i < Math.min(caret, line.length); i += 1) {
+    if (isUnescapedPipe(line, i)) pipes += 1;
+  }
+  return Math.max(0, Math.min(cells.length - 1, pipes - leadingPipe));
+};
+
+export const createEmptyTableRow = (columnCount: number): string =>
+  `|${"  |".repeat(Math.max(1, columnCount))}`;
+
+const parseDelimiterRow = (line: string): TableAlignment[] | null => {
+  if (!line.includes("|") && !line.includes("-")) return null;
+  const cells = splitTableRow(line).map((cell) => line.slice(cell.start, cell.end));
+  if (cells.length === 0 || !cells.every((cell) => DELIMITER_CELL_REGEX.test(cell))) return null;
+  return cells.map((cell) => {
+    const left = cell.startsWith(":");
+    const right = cell.endsWith(":");
+    if (left && right) return "center";
+    if (right) return "right";
+    if (left) return "left";
+    return null;
+  });
+};
+
+const isTableRow = (line: string) => line.includes("|") && !isBlank(line);
+
+const matchFenceOpen = (line: string): { fence: string; language: string } | null => {
+  const match = line.match(FENCE_OPEN_REGEX);
+  if (!match) return null;
+  const fence = match[2];
+  const info = match[3].trim();
+  // CommonMark: a backtick fence's info string may not contain backticks.
+  if (fence[0] === "`" && info.includes("`")) return null;
+  return { fence, language: info.split(/\s+/)[0] ?? "" };
+};
+
+const isFenceClose = (line: string, fence: string): boolean => {
+  const trimmed = line.replace(/^ {0,3}/, "");
+  if (!trimmed.startsWith(fence[0].repeat(fence.length))) return false;
+  const rest = trimmed.replace(fence[0] === "`" ? /^`+/ : /^~+/, "");
+  return rest.trim() === "";
+};
+
+// Index of the closing delimiter, or null when the document does not open with a closed frontmatter block.
+export const findFrontmatterEnd = (lines: readonly string[]): number | null => {
+  if (lines.length < 2 || lines[0].trimEnd() !== "---") return null;
+  for (let index = 1; index < lines.length; index += 1) {
+    const line = lines[index].trimEnd();
+    if (line === "---" || line === "...") return index;
+  }
+  return null;
+};
+
+// An indented line only starts code after a blank line that does not continue a list or quote.
+const canStartIndentedCode = (lines: string[], index: number): boolean => {
+  if (index > 0 && !isBlank(lines[index - 1])) return false;
+  for (let i = index - 1; i >= 0; i -= 1) {
+    if (isBlank(lines[i])) continue;
+    return !LIST_OR_QUOTE_REGEX.test(lines[i]) && !INDENTED_CODE_REGEX.test(lines[i]);
+  }
+  return true;
+};
+
+export type AnalyzeBlocksOptions = {
+  // Detect `$$` display math blocks; off when nothing renders them, so `$$` lines stay ordinary text. Default true.
+  math?: boolean;
+};
+
+export const analyzeBlocks = (lines: string[], options: AnalyzeBlocksOptions = {}): BlockStructure => {
+  const math = options.math ?? true;
+  const blocks: Block[] = [];
+  const lineContexts: LineBlockContext[] = new Array(lines.length).fill(null);
+  let index = 0;
+
+  const frontmatterEnd = findFrontmatterEnd(lines);
+  if (frontmatterEnd !== null) {
+    const block: FrontmatterBlock = { kind: "frontmatter", start: 0, end: frontmatterEnd };
+    blocks.push(block);
+    lineContexts[0] = { block, role: "open" };
+    for (let i = 1; i < frontmatterEnd; i += 1) lineContexts[i] = { block, role: "body" };
+    lineContexts[frontmatterEnd] = { block, role: "close" };
+    index = frontmatterEnd + 1;
+  }
+
+  while (index < lines.length) {
+    const line = lines[index];
+    const fenceOpen = matchFenceOpen(line);
+
+    if (fenceOpen) {
+      let end = index + 1;
+      while (end < lines.length && !isFenceClose(lines[end], fenceOpen.fence)) end += 1;
+      const closed = end < lines.length;
+      const block: CodeBlock = {
+        kind: "code",
+        variant: "fenced",
+        start: index,
+        end: closed ? end : lines.length - 1,
+        fence: fenceOpen.fence,
+        language: fenceOpen.language,
+        closed,
+      };
+      blocks.push(block);
+      lineContexts[index] = { block, role: "open" };
+      for (let i = index + 1; i <= block.end; i += 1) {
+        lineContexts[i] = { block, role: closed && i === block.end ? "close" : "body" };
+      }
+      index = block.end + 1;
+      continue;
+    }
+
+    if (math && MATH_LINE_REGEX.test(line)) {
+      const block: MathBlock = { kind: "math", start: index, end: index };
+      blocks.push(block);
+      lineContexts[index] = { block, role: "body" };
+      index += 1;
+      continue;
+    }
+
+    if (math && MATH_DELIMITER_REGEX.test(line)) {
+      let end = index + 1;
+      while (end < lines.length && !MATH_DELIMITER_REGEX.test(lines[end])) end += 1;
+      if (end < lines.length) {
+        const block: MathBlock = { kind: "math", start: index, end };
+        blocks.push(block);
+        lineContexts[index] = { block, role: "open" };
+        for (let i = index + 1; i < end; i += 1) lineContexts[i] = { block, role: "body" };
+        lineContexts[end] = { block, role: "close" };
+        index = end + 1;
+        continue;
+      }
+    }
+
+    const alignments =
+      isTableRow(line) && index + 1 < lines.length ? parseDelimiterRow(lines[index + 1]) : null;
+    if (alignments && splitTableRow(line).length === alignments.length) {
+      let end = index + 1;
+      while (end + 1 < lines.length && isTableRow(lines[end + 1]) && !matchFenceOpen(lines[end + 1])) end += 1;
+      const block: TableBlock = { kind: "table", start: index, end, alignments };
+      blocks.push(block);
+      lineContexts[index] = { block, role: "header" };
+      lineContexts[index + 1] = { block, role: "delimiter" };
+      for (let i = index + 2; i <= end; i += 1) lineContexts[i] = { block, role: "body" };
+      index = end + 1;
+      continue;
+    }
+
+    if (
+      INDENTED_CODE_REGEX.test(line) &&
+      !isBlank(line) &&
+      !LIST_OR_QUOTE_REGEX.test(line) &&
+      canStartIndentedCode(lines, index)
+    ) {
+      let end = index;
+      let cursor = index + 1;
+      while (cursor < lines.length && (isBlank(lines[cursor]) || INDENTED_CODE_REGEX.test(lines[cursor]))) {
+        if (!isBlank(lines[cursor])) end = cursor;
+        cursor += 1;
+      }
+      const block: CodeBlock = {
+        kind: "code",
+        variant: "indented",
+        start: index,
+        end,
+        fence: "",
+        language: "",
+        closed: true,
+      };
+      blocks.push(block);
+      for (let i = index; i <= end; i += 1) lineContexts[i] = { block, role: "body" };
+      index = end + 1;
+      continue;
+    }
+
+    index += 1;
+  }
+
+  return { blocks, lineContexts };
+};
+
+const padCell = (text: string, width: number, alignment: TableAlignment) => {
+  const gap = Math.max(0, width - text.length);
+  if (alignment === "right") return " ".repeat(gap) + text;
+  if (alignment === "center") {
+    const left = Math.floor(gap / 2);
+    return " ".repeat(left) + text + " ".repeat(gap - left);
+  }
+  return text + " ".repeat(gap);
+};
+
+const delimiterCell = (width: number, alignment: TableAlignment) => {
+  if (alignment === "center") return `:${"-".repeat(Math.max(1, width - 2))}:`;
+  if (alignment === "right") return `${"-".repeat(Math.max(1, width - 1))}:`;
+  if (alignment === "left") return `:${"-".repeat(Math.max(1, width - 1))}`;
+  return "-".repeat(width);
+};
+
+// Re-pads every row of a table (header, delimiter, body) so the pipes line up. A row with more cells than the
+// delimiter widens the table, so no cell is dropped; the new columns get unaligned delimiter cells.
+export const formatTable = (rows: string[], alignments: TableAlignment[]): string[] => {
+  const rowCells = rows.map((row, rowIndex) => (rowIndex === 1 ? [] : splitTableRow(row)));
+  const columnCount = Math.max(alignments.length, ...rowCells.map((cells) => cells.length));
+  const columnAlignments = Array.from({ length: columnCount }, (_, column) => alignments[column] ?? null);
+  const cellTexts = rowCells.map((cells, rowIndex) =>
+    Array.from({ length: columnCount }, (_, column) =>
+      cells[column] ? rows[rowIndex].slice(cells[column].start, cells[column].end) : ""
+    )
+  );
+  const widths = columnAlignments.map((_, column) =>
+    Math.max(3, ...cellTexts.map((cells) => cells[column].length))
+  );
+  return rows.map((_, rowIndex) => {
+    const cells =
+      rowIndex === 1
+        ? widths.map((width, column) => delimiterCell(width, columnAlignments[column]))
+        : widths.map((width, column) => padCell(cellTexts[rowIndex][column], width, columnAlignments[column]));
+    return `| ${cells.join(" | ")} |`;
+  });
+};
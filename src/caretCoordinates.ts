@@ -0,0 +1,66 @@
+// Textareas do not expose caret geometry, so the text before the caret is laid out in a hidden mirror
+// element with the same box and font metrics and the position of the following character is measured.
+const MIRRORED_PROPERTIES = [
+  "box-sizing",
+  "width",
+  "border-top-width",
+  "border-right-width",
+  "border-bottom-width",
+  "border-left-width",
+  "border-style",
+  "padding-top",
+  "padding-right",
+  "padding-bottom",
+  "padding-left",
+  "font-style",
+  "font-variant",
+  "font-weight",
+  "font-stretch",
+  "font-size",
+  "font-family",
+  "line-height",
+  "letter-spacing",
+  "word-spacing",
+  "text-align",
+  "text-indent",
+  "text-transform",
+  "tab-size",
+];
+
+// Copies the textarea's box and font metrics onto `target`, so text laid out in it wraps like the textarea's.
+export const mirrorTextareaStyle = (textarea: HTMLTextAreaElement, target: HTMLElement) => {
+  const computed = window.getComputedStyle(textarea);
+  for (const property of MIRRORED_PROPERTIES) {
+    target.style.setProperty(property, computed.getPropertyValue(property));
+  }
+  return computed;
+};
+
+// Coordinates relative to the textarea's border box, ignoring its scroll offset.
+export const getCaretCoordinates = (
+  textarea: HTMLTextAreaElement,
+  position: number
+): { top: number; left: number; height: number } => {
+  const mirror = document.createElement("div");
+  const computed = mirrorTextareaStyle(textarea, mirror);
+  mirror.style.position = "absolute";
+  mirror.style.visibility = "hidden";
+  mirror.style.top = "0";
+  mirror.style.left = "-9999px";
+  mirror.style.whiteSpace = "pre-wrap";
+  mirror.style.overflowWrap = "break-word";
+  mirror.textContent = textarea.value.slice(0, position);
+  const marker = document.createElement("span");
+  // A trailing newline or empty remainder would collapse; any character gives the marker a box.
+  marker.textContent = textarea.value.slice(position) || ".";
+  mirror.appendChild(marker);
+  document.body.appendChild(mirror);
+  const fontSize = parseFloat(computed.fontSize) || 16;
+  const coordinates = {
+    top: marker.offsetTop + (parseFloat(computed.borderTopWidth) || 0),
+    left: marker.offsetLeft + (parseFloat(computed.borderLeftWidth) || 0),
+    height: parseFloat(computed.lineHeight) || fontSize * 1.2,
+  };
+  mirror.remove();
+  return coordinates;
+};
@@ -0,0 +1,197 @@
+import { findFrontmatterEnd } from "./blockStructure";
+
+export type FrontmatterScalar = string | number | boolean | null;
+export type FrontmatterValue = FrontmatterScalar | FrontmatterScalar[];
+export type FrontmatterData = Record<string, FrontmatterValue>;
+
+// One top-level key with its continuation lines; `start`/`end` are document line indices.
+export type FrontmatterEntry = {
+  key: string;
+  value: FrontmatterValue;
+  start: number;
+  end: number;
+  // "block" lists put one `- item` per line; "raw" covers nested maps and block scalars, read as text.
+  style: "scalar" | "inline" | "block" | "raw";
+  itemIndent?: string;
+};
+
+const ENTRY_REGEX = /^(?:"((?:[^"\\]|\\.)*)"|'((?:[^']|'')*)'|([^\s#:'"[\]{},-][^:]*?|-[^\s:][^:]*?))\s*:(?=\s|$)\s*(.*)$/;
+const BLOCK_ITEM_REGEX = /^(\s*)-(?:\s+(.*))?$/;
+const NUMBER_REGEX = /^[-+]?(?:\d+(?:\.\d*)?|\.\d+)(?:[eE][-+]?\d+)?$/;
+
+const isEqualValue = (a: FrontmatterValue | undefined, b: FrontmatterValue | undefined): boolean => {
+  if (Array.isArray(a) && Array.isArray(b)) return a.length === b.length && a.every((item, i) => item === b[i]);
+  return a === b;
+};
+
+// Escapes JSON does not know (`\p`, a short `\u`) keep the quoted text as written.
+const decodeDoubleQuoted = (quoted: string): string => {
+  try {
+    return JSON.parse(quoted) as string;
+  } catch {
+    return quoted.slice(1, -1);
+  }
+};
+
+export const parseScalar = (source: string): FrontmatterScalar => {
+  const text = source.trim();
+  const doubleQuoted = text.match(/^"(?:[^"\\]|\\.)*"/);
+  if (doubleQuoted) return decodeDoubleQuoted(doubleQuoted[0]);
+  const singleQuoted = text.match(/^'((?:[^']|'')*)'/);
+  if (singleQuoted) return singleQuoted[1].replace(/''/g, "'");
+  const plain = text.replace(/(?:^|\s+)#.*$/, "");
+  if (plain === "" || plain === "~" || /^null$/i.test(plain)) return null;
+  if (/^(?:true|false)$/i.test(plain)) return plain.toLowerCase() === "true";
+  if (NUMBER_REGEX.test(plain)) return Number(plain);
+  return plain;
+};
+
+// Splits `[a, "b, c", 'd']` on commas outside quotes.
+const parseFlowList = (text: string): FrontmatterScalar[] => {
+  const inner = text.trim().slice(1, -1);
+  if (inner.trim() === "") return [];
+  const items: string[] = [];
+  let current = "";
+  let quote: string | null = null;
+  for (let i = 0; i < inner.length; i += 1) {
+    const char = inner[i];
+    if (quote) {
+      if (char === "\\" && quote === '"') {
+        current += char + (inner[i + 1] ?? "");
+        i += 1;
+        continue;
+      }
+      if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === ",") {
+      items.push(current);
+      current = "";
+      continue;
+    }
+    current += char;
+  }
+  items.push(current);
+  return items.map(parseScalar);
+};
+
+const dedent = (lines: string[]): string[] => {
+  const indents = lines.filter((line) => line.trim() !== "").map((line) => line.match(/^\s*/)![0].length);
+  const shared = indents.length > 0 ? Math.min(...indents) : 0;
+  return lines.map((line) => line.slice(shared));
+};
+
+const parseEntryValue = (rest: string, continuation: string[]): Omit<FrontmatterEntry, "key" | "start" | "end"> => {
+  const inline = rest.replace(/^#.*$/, "").trim();
+  if (/^[|>]/.test(inline)) {
+    const text = dedent(continuation).join(inline.startsWith("|") ? "\n" : " ");
+    return { value: inline.includes("-") ? text.replace(/\s+$/, "") : text.replace(/\s*$/, "\n"), style: "raw" };
+  }
+  if (inline.startsWith("[") && inline.replace(/\s+#.*$/, "").endsWith("]")) {
+    return { value: parseFlowList(inline.replace(/\s+#.*$/, "")), style: "inline" };
+  }
+  if (inline !== "" || continuation.every((line) => line.trim() === "")) {
+    return { value: parseScalar(inline), style: "scalar" };
+  }
+  const items = continuation.filter((line) => line.trim() !== "").map((line) => line.match(BLOCK_ITEM_REGEX));
+  if (items.every((item) => item !== null)) {
+    return {
+      value: items.map((item) => parseScalar(item![2] ?? "")),
+      style: "block",
+      itemIndent: items[0]![1],
+    };
+  }
+  return { value: dedent(continuation).join("\n").replace(/\s+$/, ""), style: "raw" };
+};
+
+// Top-level entries of the frontmatter block, or null when the document has none. Comments and blank
+// lines between entries belong to no entry.
+export const getFrontmatterEntries = (lines: readonly string[]): FrontmatterEntry[] | null => {
+  const end = findFrontmatterEnd(lines);
+  if (end === null) return null;
+  const entries: FrontmatterEntry[] = [];
+  let index = 1;
+  while (index < end) {
+    const match = lines[index].match(ENTRY_REGEX);
+    if (!match) {
+      index += 1;
+      continue;
+    }
+    const key = match[1] !== undefined ? decodeDoubleQuoted(`"${match[1]}"`) : (match[2]?.replace(/''/g, "'") ?? match[3]);
+    let last = index;
+    // Indented lines, and `- item` lines for lists written flush with their key, continue the entry.
+    for (let next = index + 1; next < end; next += 1) {
+      const line = lines[next];
+      if (line.trim() === "") continue;
+      if (!/^\s/.test(line) && !BLOCK_ITEM_REGEX.test(line)) break;
+      last = next;
+    }
+    entries.push({ key, start: index, end: last, ...parseEntryValue(match[4], lines.slice(index + 1, last + 1)) });
+    index = last + 1;
+  }
+  return entries;
+};
+
+export const parseFrontmatter = (lines: readonly string[]): FrontmatterData | null => {
+  const entries = getFrontmatterEntries(lines);
+  return entries ? Object.fromEntries(entries.map((entry) => [entry.key, entry.value])) : null;
+};
+
+export const formatScalar = (value: FrontmatterScalar, inFlowList = false): string => {
+  if (value === null) return "null";
+  if (typeof value !== "string") return String(value);
+  const needsQuotes =
+    value === "" ||
+    value !== value.trim() ||
+    /^[-?:,[\]{}#&*!|>'"%@`]/.test(value) ||
+    /:(?:\s|$)|\s#|[\n\t\\]/.test(value) ||
+    (inFlowList && /[,[\]{}]/.test(value)) ||
+    parseScalar(value) !== value;
+  return needsQuotes ? JSON.stringify(value) : value;
+};
+
+const formatKey = (key: string) => (/^[^\s#:'"[\]{},-][^:#]*$/.test(key) && key === key.trim() ? key : JSON.stringify(key));
+
+const formatEntry = (key: string, value: FrontmatterValue, previous?: FrontmatterEntry): string[] => {
+  const name = formatKey(key);
+  if (!Array.isArray(value)) return [`${name}: ${formatScalar(value)}`];
+  if (value.length === 0 || previous?.style === "inline") {
+    return [`${name}: [${value.map((item) => formatScalar(item, true)).join(", ")}]`];
+  }
+  const indent = previous?.style === "block" ? (previous.itemIndent ?? "  ") : "  ";
+  return [`${name}:`, ...value.map((item) => `${indent}- ${formatScalar(item)}`)];
+};
+
+// Rewrites only the entries whose values changed: untouched entries, comments, and blank lines keep
+// their exact source. New keys are appended before the closing delimiter; null removes the block.
+export const updateFrontmatter = (lines: readonly string[], data: FrontmatterData | null): string[] => {
+  const end = findFrontmatterEnd(lines);
+  if (data === null) {
+    if (end === null) return [...lines];
+    const rest = lines.slice(end + 1);
+    return rest.length > 0 ? rest : [""];
+  }
+  if (end === null) {
+    const keys = Object.keys(data);
+    if (keys.length === 0) return [...lines];
+    const block = ["---", ...keys.flatMap((key) => formatEntry(key, data[key])), "---"];
+    return lines.length === 1 && lines[0] === "" ? [...block, ""] : [...block, ...lines];
+  }
+
+  const entries = getFrontmatterEntries(lines) ?? [];
+  const body: string[] = [];
+  let cursor = 1;
+  for (const entry of entries) {
+    body.push(...lines.slice(cursor, entry.start));
+    cursor = entry.end + 1;
+    if (!Object.prototype.hasOwnProperty.call(data, entry.key)) continue;
+    const value = data[entry.key];
+    body.push(...(isEqualValue(entry.value, value) ? lines.slice(entry.start, entry.end + 1) : formatEntry(entry.key, value, entry)));
+  }
+  body.push(...lines.slice(cursor, end));
+  const existing = new Set(entries.map((entry) => entry.key));
+  for (const [key, value] of Object.entries(data)) {
+    if (!existing.has(key)) body.push(...formatEntry(key, value));
+  }
+  return [lines[0], ...body, ...lines.slice(end)];
+};
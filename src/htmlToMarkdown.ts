@@ -0,0 +1,257 @@
+export type HtmlToMarkdownOptions = {
+  indentSize?: number;
+};
+
+const BLOCK_START_REGEX = /^(#{1,6}\s|>\s?|[-*+]\s|\d+[.)]\s)/gm;
+const IGNORED_TAGS = new Set(["script", "style", "head", "title", "meta", "link", "template", "noscript"]);
+// Wrappers that code editors and terminals put around plain text; on their own they carry no Markdown.
+const PLAIN_TEXT_TAGS = new Set(["html", "head", "body", "meta", "title", "style", "span", "div", "font", "br"]);
+const PARAGRAPH_TAGS = new Set([
+  "div",
+  "section",
+  "article",
+  "header",
+  "footer",
+  "main",
+  "aside",
+  "nav",
+  "figure",
+  "figcaption",
+  "dd",
+  "dt",
+  "address",
+]);
+
+const normalizeBlocks = (markdown: string) =>
+  markdown
+    .split("\n")
+    .map((line) => (line.trim() === "" ? "" : line.replace(/[ \t]+$/, "")))
+    .join("\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .replace(/^\n+|\n+$/g, "");
+
+const block = (markdown: string) => {
+  const normalized = normalizeBlocks(markdown).replace(/^[ \t]+/, "");
+  return normalized === "" ? "" : `\n\n${normalized}\n\n`;
+};
+
+const escapeText = (text: string) =>
+  text
+    .replace(/[\\`*[\]]|~~|==/g, (match) => match.split("").map((char) => `\\${char}`).join(""))
+    .replace(/(^|[^A-Za-z0-9])_|_(?=[^A-Za-z0-9]|$)/g, (match) => match.replace("_", "\\_"));
+
+// Keeps surrounding whitespace outside the delimiters; `** bold **` would not parse as emphasis.
+const wrapInline = (content: string, delimiter: string) => {
+  const match = content.match(/^(\s*)([\s\S]*?)(\s*)$/)!;
+  if (match[2] === "") return content;
+  return `${match[1]}${delimiter}${match[2]}${delimiter}${match[3]}`;
+};
+
+const codeSpan = (text: string) => {
+  const longestRun = Math.max(0, ...(text.match(/`+/g) ?? []).map((run) => run.length));
+  const fence = "`".repeat(longestRun + 1);
+  const padding = text.startsWith("`") || text.endsWith("`") ? " " : "";
+  return `${fence}${padding}${text}${padding}${fence}`;
+};
+
+// Link/image destinations may not contain whitespace or parentheses in the inline grammar.
+export const encodeMarkdownUrl = (url: string) =>
+  url.trim().replace(/\s/g, "%20").replace(/\(/g, "%28").replace(/\)/g, "%29");
+
+const prefixLines = (markdown: string, prefix: string) =>
+  markdown
+    .split("\n")
+    .map((line) => (line === "" ? prefix.trimEnd() : prefix + line))
+    .join("\n");
+
+const isBold = (element: HTMLElement) => {
+  const weight = element.style?.fontWeight;
+  return weight === "bold" || weight === "bolder" || Number(weight) >= 600;
+};
+
+const isStyledSpan = (element: HTMLElement) =>
+  element.tagName.toLowerCase() === "span" &&
+  (isBold(element) || element.style?.fontStyle === "italic" || !!element.style?.textDecoration?.includes("line-through"));
+
+// The innermost declared `white-space` decides; `<pre>` always keeps its whitespace.
+const preservesWhitespace = (node: Node) => {
+  for (let element = node.parentElement; element; element = element.parentElement) {
+    if (element.tagName.toLowerCase() === "pre") return true;
+    const whiteSpace = element.style?.whiteSpace;
+    if (whiteSpace) return whiteSpace.startsWith("pre") || whiteSpace === "break-spaces";
+  }
+  return false;
+};
+
+const convertChildren = (node: Node, options: Required<HtmlToMarkdownOptions>): string =>
+  Array.from(node.childNodes)
+    .map((child) => convertNode(child, options))
+    .join("");
+
+const convertInlineChildren = (node: Node, options: Required<HtmlToMarkdownOptions>) =>
+  normalizeBlocks(convertChildren(node, options)).replace(/\n+/g, " ").trim();
+
+const convertPre = (element: HTMLElement) => {
+  const code = element.querySelector("code") ?? element;
+  const language = (code.className.match(/(?:^|\s)(?:language|lang)-(\S+)/)?.[1] ?? "").replace(/`/g, "");
+  const text = (code.textContent ?? "").replace(/\r\n?/g, "\n").replace(/\n$/, "");
+  const longestRun = Math.max(0, ...(text.match(/^`{3,}/gm) ?? []).map((run) => run.length));
+  const fence = "`".repeat(Math.max(3, longestRun + 1));
+  return `${fence}${language}\n${text}\n${fence}`;
+};
+
+const convertList = (list: HTMLElement, options: Required<HtmlToMarkdownOptions>): string => {
+  const ordered = list.tagName.toLowerCase() === "ol";
+  let number = Number.parseInt(list.getAttribute("start") ?? "1", 10);
+  if (!Number.isFinite(number)) number = 1;
+  const indent = " ".repeat(options.indentSize);
+  const lines: string[] = [];
+
+  for (const item of Array.from(list.children)) {
+    if (item.tagName.toLowerCase() !== "li") continue;
+    const checkbox = Array.from(item.querySelectorAll('input[type="checkbox"]')).find(
+      (input) => input.closest("li") === item
+    ) as HTMLInputElement | undefined;
+    let marker = ordered ? `${number}. ` : "- ";
+    number += 1;
+    if (checkbox) marker += checkbox.checked || checkbox.hasAttribute("checked") ? "[x] " : "[ ] ";
+
+    const nested: string[] = [];
+    const content = item.ownerDocument.createElement("div");
+    for (const child of Array.from(item.childNodes)) {
+      const tag = child.nodeType === Node.ELEMENT_NODE ? child.nodeName.toLowerCase() : "";
+      if (tag === "ul" || tag === "ol") nested.push(convertList(child as HTMLElement, options));
+      else content.appendChild(child.cloneNode(true));
+    }
+
+    const body = normalizeBlocks(convertChildren(content, options)).replace(/\n{2,}/g, "\n").split("\n");
+    lines.push(`${marker}${(body[0] ?? "").trimStart()}`.trimEnd());
+    for (const line of body.slice(1)) lines.push(indent + line);
+    for (const sublist of nested) {
+      if (sublist !== "") lines.push(prefixLines(sublist, indent));
+    }
+  }
+
+  return lines.join("\n");
+};
+
+const convertTable = (table: HTMLElement, options: Required<HtmlToMarkdownOptions>) => {
+  const rows = Array.from(table.querySelectorAll("tr"))
+    .filter((row) => row.closest("table") === table)
+    .map((row) =>
+      Array.from(row.children)
+        .filter((cell) => /^t[hd]$/i.test(cell.tagName))
+        .map((cell) => convertInlineChildren(cell, options).replace(/\|/g, "\\|"))
+    )
+    .filter((cells) => cells.length > 0);
+  if (rows.length === 0) return "";
+  const columnCount = Math.max(...rows.map((cells) => cells.length));
+  const toRow = (cells: string[]) =>
+    `| ${Array.from({ length: columnCount }, (_, column) => cells[column] ?? "").join(" | ")} |`;
+  return [toRow(rows[0]), toRow(new Array(columnCount).fill("---")), ...rows.slice(1).map(toRow)].join("\n");
+};
+
+const convertNode = (node: Node, options: Required<HtmlToMarkdownOptions>): string => {
+  if (node.nodeType === Node.TEXT_NODE) {
+    const raw = node.textContent ?? "";
+    let text = preservesWhitespace(node) ? raw.replace(/\r\n?/g, "\n") : raw.replace(/\s+/g, " ");
+    if (node.previousSibling?.nodeName.toLowerCase() === "br") text = text.trimStart();
+    return escapeText(text);
+  }
+  if (node.nodeType !== Node.ELEMENT_NODE) return "";
+
+  const element = node as HTMLElement;
+  const tag = element.tagName.toLowerCase();
+  if (IGNORED_TAGS.has(tag)) return "";
+
+  const heading = tag.match(/^h([1-6])$/);
+  if (heading) {
+    const text = convertInlineChildren(element, options);
+    return text === "" ? "" : block(`${"#".repeat(Number(heading[1]))} ${text}`);
+  }
+  if (tag === "p") {
+    // Plain text that happens to look like block syntax must stay a paragraph.
+    const paragraph = normalizeBlocks(convertChildren(element, options));
+    return block(paragraph.replace(BLOCK_START_REGEX, (match) => `\\${match}`));
+  }
+  if (PARAGRAPH_TAGS.has(tag)) return block(convertChildren(element, options));
+
+  switch (tag) {
+    case "br":
+      return "\n";
+    case "hr":
+      return block("---");
+    case "blockquote":
+      return block(prefixLines(normalizeBlocks(convertChildren(element, options)), "> "));
+    case "pre":
+      return block(convertPre(element));
+    case "ul":
+    case "ol":
+      return block(convertList(element, options));
+    case "table":
+      return block(convertTable(element, options));
+    case "strong":
+      return wrapInline(convertChildren(element, options), "**");
+    case "b": {
+      const content = convertChildren(element, options);
+      // Google Docs wraps whole documents in <b style="font-weight:normal">.
+      const weight = element.style?.fontWeight;
+      return weight === "normal" || weight === "400" ? content : wrapInline(content, "**");
+    }
+    case "em":
+    case "i":
+      return wrapInline(convertChildren(element, options), "*");
+    case "del":
+    case "s":
+    case "strike":
+      return wrapInline(convertChildren(element, options), "~~");
+    case "mark":
+      return wrapInline(convertChildren(element, options), "==");
+    case "code":
+    case "kbd":
+    case "samp":
+      return codeSpan((element.textContent ?? "").replace(/\s+/g, " "));
+    case "a": {
+      const text = convertChildren(element, options).replace(/\n+/g, " ");
+      const href = element.getAttribute("href");
+      if (!href || text.trim() === "" || href.trim().toLowerCase().startsWith("javascript:")) return text;
+      const title = element.getAttribute("title");
+      return `[${text.trim()}](${encodeMarkdownUrl(href)}${title ? ` "${title.replace(/"/g, "'")}"` : ""})`;
+    }
+    case "img": {
+      const src = element.getAttribute("src");
+      return src ? `![${escapeText(element.getAttribute("alt") ?? "")}](${encodeMarkdownUrl(src)})` : "";
+    }
+    case "input":
+      return "";
+    case "span": {
+      // Word processors express formatting through inline styles rather than tags.
+      let content = convertChildren(element, options);
+      if (!isStyledSpan(element)) return content;
+      if (element.style?.textDecoration?.includes("line-through")) content = wrapInline(content, "~~");
+      if (element.style?.fontStyle === "italic") content = wrapInline(content, "*");
+      if (isBold(element)) content = wrapInline(content, "**");
+      return content;
+    }
+    default:
+      return convertChildren(element, options);
+  }
+};
+
+// Parses with DOMParser, which never executes scripts or fetches images/styles, so conversion stays offline.
+export const htmlToMarkdown = (html: string, options: HtmlToMarkdownOptions = {}): string => {
+  if (typeof DOMParser === "undefined") return "";
+  const documentNode = new DOMParser().parseFromString(html, "text/html");
+  const resolved: Required<HtmlToMarkdownOptions> = { indentSize: Math.max(1, options.indentSize ?? 2) };
+  return normalizeBlocks(convertChildren(documentNode.body, resolved));
+};
+
+// False for HTML that is only plain text in wrappers (a code editor's colored spans, a terminal's divs); pasting
+// the plain-text flavor then keeps the text exactly, where conversion would collapse whitespace and escape it.
+export const hasMarkdownFormatting = (html: string): boolean => {
+  if (typeof DOMParser === "undefined") return false;
+  const documentNode = new DOMParser().parseFromString(html, "text/html");
+  return Array.from(documentNode.querySelectorAll("*")).some(
+    (element) => !PLAIN_TEXT_TAGS.has(element.tagName.toLowerCase()) || isStyledSpan(element as HTMLElement)
+  );
+};
@@ -4,8 +4,68 @@ export {
   mapDisplayOffsetToSourceIndex,
 } from "./HybridMarkdownEditor";
 
+export { default as HybridMarkdownToolbar, defaultToolbarItems } from "./HybridMarkdownToolbar";
+
+export { default as HybridMarkdownOutline } from "./HybridMarkdownOutline";
+
+export { getOutline } from "./outline";
+
+export { useEditorSubscription } from "./useEditorSubscription";
+
+export { defaultInlineRules, parseInline } from "./inlineGrammar";
+
+export { hasMarkdownFormatting, htmlToMarkdown } from "./htmlToMarkdown";
+
+export { defaultKeymap } from "./keymap";
+
+export { createSlashCommandExtension, defaultSlashCommands } from "./slashCommands";
+
+export { createWikiLinkExtension } from "./wikiLinks";
+
+export { parseFrontmatter, updateFrontmatter } from "./frontmatter";
+
+export { buildReferenceIndex } from "./references";
+
 export type {
+  BlockFormat,
+  ChangeOrigin,
+  CommandContext,
+  CommandState,
+  EditorChangeSet,
+  EditorCommand,
   EditorExtension,
+  EditorPosition,
+  EditorSelection,
   ExtensionApi,
+  HybridMarkdownEditorHandle,
   HybridMarkdownEditorProps,
+  LineSplice,
 } from "./HybridMarkdownEditor";
+
+export type { HybridMarkdownToolbarProps, ToolbarItem } from "./HybridMarkdownToolbar";
+
+export type { HybridMarkdownOutlineProps } from "./HybridMarkdownOutline";
+
+export type { OutlineHeading, OutlineOptions } from "./outline";
+
+export type { EditorHandleSource } from "./useEditorSubscription";
+
+export type { InlineHighlight, InlineMatch, InlineRule, InlineToken } from "./inlineGrammar";
+
+export type { HtmlToMarkdownOptions } from "./htmlToMarkdown";
+
+export type { SearchMatch, SearchQuery } from "./search";
+
+export type { Keymap } from "./keymap";
+
+export type { SlashCommandItem, SlashCommandOptions } from "./slashCommands";
+
+export type { AutocompleteSource, AutocompleteSuggestion } from "./autocomplete";
+
+export type { WikiLinkOptions } from "./wikiLinks";
+
+export type { FrontmatterData, FrontmatterScalar, FrontmatterValue } from "./frontmatter";
+
+export type { BlockRenderer, BlockRenderers } from "./blockRenderers";
+
+export type { FootnoteDefinition, LinkDefinition, ReferenceIndex } from "./references";
@@ -0,0 +1,305 @@
+import React from "react";
+
+export type InlineMatch = {
+  start: number;
+  end: number;
+  contentStart: number;
+  contentEnd: number;
+  data?: Record<string, string>;
+};
+
+export type InlineToken = {
+  kind: string;
+  text: string;
+  sourceStart: number;
+  sourceEnd: number;
+  contentStart: number;
+  contentEnd: number;
+  data?: Record<string, string>;
+  children: InlineToken[];
+};
+
+export type InlineRule = {
+  name: string;
+  // Returns the first match starting at or after `from`, or null when the rest of the text has none.
+  match: (source: string, from: number) => InlineMatch | null;
+  // Re-tokenize the visible content so syntax can nest (e.g. a link inside bold).
+  nested?: boolean;
+  // Must render `children` as the only text; extra text would shift display-to-source mapping.
+  render: (token: InlineToken, children: React.ReactNode) => React.ReactNode;
+};
+
+// A source range (relative to the parsed text) wrapped by `render`, which must add no text of its own.
+export type InlineHighlight = {
+  start: number;
+  end: number;
+  render: (text: string) => React.ReactElement;
+};
+
+const SAFE_HREF_REGEX = /^(?:https?:|mailto:|tel:|#|\/|\.{1,2}\/|[^:]*$)/i;
+
+export const sanitizeHref = (href: string): string | undefined => {
+  const trimmed = href.trim();
+  return SAFE_HREF_REGEX.test(trimmed) ? trimmed : undefined;
+};
+
+const SAFE_IMAGE_SRC_REGEX = /^(?:data:image\/|blob:)/i;
+
+export const sanitizeImageSrc = (src: string): string | undefined => {
+  const trimmed = src.trim();
+  return SAFE_IMAGE_SRC_REGEX.test(trimmed) ? trimmed : sanitizeHref(trimmed);
+};
+
+const createRegexMatcher = (
+  pattern: RegExp,
+  getContentStart: (match: RegExpExecArray) => number,
+  getData?: (match: RegExpExecArray) => Record<string, string>
+): InlineRule["match"] => (source, from) => {
+  pattern.lastIndex = from;
+  const match = pattern.exec(source);
+  if (!match) return null;
+  const contentStart = getContentStart(match);
+  return {
+    start: match.index,
+    end: match.index + match[0].length,
+    contentStart,
+    contentEnd: contentStart + match[1].length,
+    data: getData?.(match),
+  };
+};
+
+const delimiterRule = (
+  name: string,
+  pattern: RegExp,
+  delimiterLength: number,
+  render: InlineRule["render"],
+  nested = true
+): InlineRule => ({
+  name,
+  match: createRegexMatcher(pattern, (match) => match.index + delimiterLength),
+  nested,
+  render,
+});
+
+const ESCAPE_REGEX = /\\([!-/:-@[-`{-~])/g;
+const CODE_REGEX = /`([^`]+)`/g;
+const IMAGE_REGEX = /!\[([^[\]]*)\]\(([^()\s]*)(?:\s+"([^"]*)")?\)/g;
+const LINK_REGEX = /\[([^[\]]+)\]\(([^()\s]*)(?:\s+"([^"]*)")?\)/g;
+const BOLD_REGEX = /\*\*([^*]+)\*\*/g;
+const BOLD_UNDERSCORE_REGEX = /(?<![A-Za-z0-9_])__([^_]+)__(?![A-Za-z0-9_])/g;
+const ITALIC_REGEX = /\*([^*\s](?:[^*]*[^*\s])?)\*/g;
+const ITALIC_UNDERSCORE_REGEX = /(?<![A-Za-z0-9_])_([^_\s](?:[^_]*[^_\s])?)_(?![A-Za-z0-9_])/g;
+const STRIKE_REGEX = /~~([^~]+)~~/g;
+const HIGHLIGHT_REGEX = /==([^=]+)==/g;
+
+export const boldRule = delimiterRule("bold", BOLD_REGEX, 2, (_token, children) => <strong>{children}</strong>);
+
+// An image has no visible text, so its content range is empty; a pending image (no URL yet, e.g. an
+// upload placeholder) shows its alt text instead.
+const imageRule: InlineRule = {
+  name: "image",
+  match: (source, from) => {
+    IMAGE_REGEX.lastIndex = from;
+    const match = IMAGE_REGEX.exec(source);
+    if (!match) return null;
+    const contentStart = match.index + 2;
+    const pending = match[2] === "";
+    return {
+      start: match.index,
+      end: match.index + match[0].length,
+      contentStart,
+      contentEnd: pending ? contentStart + match[1].length : contentStart,
+      data: { alt: match[1], src: match[2], ...(match[3] !== undefined ? { title: match[3] } : {}) },
+    };
+  },
+  render: (token, children) =>
+    token.data?.src ? (
+      <img
+        src={sanitizeImageSrc(token.data.src)}
+        alt={token.data.alt}
+        title={token.data.title}
+        data-role="inline-image"
+        style={{ maxWidth: "100%", verticalAlign: "middle" }}
+      />
+    ) : (
+      <span data-role="inline-image-pending" style={{ opacity: 0.6, fontStyle: "italic" }}>
+        {children}
+      </span>
+    ),
+};
+
+export const defaultInlineRules: InlineRule[] = [
+  delimiterRule("escape", ESCAPE_REGEX, 1, (_token, children) => <>{children}</>, false),
+  delimiterRule("code", CODE_REGEX, 1, (_token, children) => <code>{children}</code>, false),
+  imageRule,
+  {
+    name: "link",
+    match: createRegexMatcher(
+      LINK_REGEX,
+      (match) => match.index + 1,
+      (match) => ({ href: match[2], ...(match[3] !== undefined ? { title: match[3] } : {}) })
+    ),
+    nested: true,
+    render: (token, children) => (
+      <a
+        href={sanitizeHref(token.data?.href ?? "")}
+        title={token.data?.title}
+        data-role="inline-link"
+        onClick={(event) => {
+          // A plain click activates the line for editing; modifier-click follows the link.
+          if (!event.ctrlKey && !event.metaKey) event.preventDefault();
+        }}
+      >
+        {children}
+      </a>
+    ),
+  },
+  boldRule,
+  delimiterRule("bold", BOLD_UNDERSCORE_REGEX, 2, (_token, children) => <strong>{children}</strong>),
+  delimiterRule("italic", ITALIC_REGEX, 1, (_token, children) => <em>{children}</em>),
+  delimiterRule("italic", ITALIC_UNDERSCORE_REGEX, 1, (_token, children) => <em>{children}</em>),
+  delimiterRule("strikethrough", STRIKE_REGEX, 2, (_token, children) => <del>{children}</del>),
+  delimiterRule("highlight", HIGHLIGHT_REGEX, 2, (_token, children) => <mark>{children}</mark>),
+];
+
+const textToken = (text: string, start: number, end: number): InlineToken => ({
+  kind: "text",
+  text: text.slice(start, end),
+  sourceStart: start,
+  sourceEnd: end,
+  contentStart: start,
+  contentEnd: end,
+  children: [],
+});
+
+const shiftTokens = (tokens: InlineToken[], offset: number): InlineToken[] =>
+  tokens.map((token) => ({
+    ...token,
+    sourceStart: token.sourceStart + offset,
+    sourceEnd: token.sourceEnd + offset,
+    contentStart: token.contentStart + offset,
+    contentEnd: token.contentEnd + offset,
+    children: shiftTokens(token.children, offset),
+  }));
+
+export const tokenizeInline = (text: string, rules: InlineRule[] = defaultInlineRules): InlineToken[] => {
+  const tokens: InlineToken[] = [];
+  // Each rule's next match is cached until the cursor passes its start, which keeps scanning linear.
+  const upcoming: Array<InlineMatch | null | undefined> = new Array(rules.length);
+  let cursor = 0;
+
+  while (cursor < text.length) {
+    let best: InlineMatch | null = null;
+    let bestRule: InlineRule | null = null;
+
+    for (let r = 0; r < rules.length; r += 1) {
+      let match = upcoming[r];
+      if (match === null) continue;
+      if (match === undefined || match.start < cursor) {
+        match = rules[r].match(text, cursor);
+        const valid =
+          match !== null &&
+          match.start >= cursor &&
+          match.end > match.start &&
+          match.end <= text.length &&
+          match.contentStart >= match.start &&
+          match.contentEnd >= match.contentStart &&
+          match.contentEnd <= match.end;
+        upcoming[r] = valid ? match : null;
+        if (!valid) continue;
+      }
+      if (!best || match!.start < best.start) {
+        best = match!;
+        bestRule = rules[r];
+      }
+    }
+
+    if (!best || !bestRule) break;
+    if (best.start > cursor) tokens.push(textToken(text, cursor, best.start));
+
+    const content = text.slice(best.contentStart, best.contentEnd);
+    let children: InlineToken[] = [];
+    if (content.length > 0) {
+      children = bestRule.nested
+        ? shiftTokens(tokenizeInline(content, rules), best.contentStart)
+        : [textToken(text, best.contentStart, best.contentEnd)];
+    }
+
+    tokens.push({
+      kind: bestRule.name,
+      text: content,
+      sourceStart: best.start,
+      sourceEnd: best.end,
+      contentStart: best.contentStart,
+      contentEnd: best.contentEnd,
+      data: best.data,
+      children,
+    });
+    cursor = best.end;
+  }
+
+  if (cursor < text.length || tokens.length === 0) {
+    tokens.push(textToken(text, cursor, text.length));
+  }
+  return tokens;
+};
+
+export const collectVisibleSourceIndices = (tokens: InlineToken[], offset: number, out: number[]): number[] => {
+  for (const token of tokens) {
+    if (token.kind === "text") {
+      for (let i = 0; i < token.text.length; i += 1) out.push(offset + token.sourceStart + i);
+    } else {
+      collectVisibleSourceIndices(token.children, offset, out);
+    }
+  }
+  return out;
+};
+
+// Splits `text`, which starts at `sourceStart`, around the (sorted) highlights that overlap it.
+export const renderHighlightedText = (
+  text: string,
+  sourceStart: number,
+  highlights: readonly InlineHighlight[]
+): (string | React.ReactElement)[] => {
+  const nodes: (string | React.ReactElement)[] = [];
+  let cursor = 0;
+  for (const highlight of highlights) {
+    const start = Math.max(cursor, highlight.start - sourceStart);
+    const end = Math.min(text.length, highlight.end - sourceStart);
+    if (end <= start) continue;
+    if (start > cursor) nodes.push(text.slice(cursor, start));
+    nodes.push(React.cloneElement(highlight.render(text.slice(start, end)), { key: sourceStart + start }));
+    cursor = end;
+  }
+  if (cursor < text.length || nodes.length === 0) nodes.push(text.slice(cursor));
+  return nodes;
+};
+
+const overlaps = (token: InlineToken, highlights: readonly InlineHighlight[]) =>
+  highlights.some((highlight) => highlight.start < token.sourceEnd && highlight.end > token.sourceStart);
+
+// Tokens only carry their rule name, so the first rule registered under a name renders it.
+const renderTokens = (
+  tokens: InlineToken[],
+  rules: InlineRule[],
+  highlights: readonly InlineHighlight[]
+): (string | React.ReactElement)[] =>
+  tokens.map((token, idx) => {
+    if (token.kind === "text") {
+      if (!overlaps(token, highlights)) return token.text;
+      return <React.Fragment key={idx}>{renderHighlightedText(token.text, token.sourceStart, highlights)}</React.Fragment>;
+    }
+    const rule = rules.find((candidate) => candidate.name === token.kind);
+    const childNodes = renderTokens(token.children, rules, highlights);
+    const children = childNodes.length === 1 ? childNodes[0] : childNodes;
+    const node = rule ? rule.render(token, children) : children;
+    return React.isValidElement(node)
+      ? React.cloneElement(node, { key: idx })
+      : <React.Fragment key={idx}>{node}</React.Fragment>;
+  });
+
+export const parseInline = (
+  text: string,
+  rules: InlineRule[] = defaultInlineRules,
+  highlights: readonly InlineHighlight[] = []
+): (string | React.ReactElement)[] => renderTokens(tokenizeInline(text, rules), rules, highlights);
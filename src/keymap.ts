@@ -0,0 +1,80 @@
+// Chords are `-`-joined modifiers plus a KeyboardEvent.key, e.g. "Mod-b", "Shift-Tab", "Alt-ArrowUp".
+// `Mod` accepts either Ctrl or Cmd. Each chord maps to command names tried in order until one handles
+// the key; null removes a binding inherited from an earlier keymap.
+export type Keymap = Record<string, string | string[] | null>;
+
+export type KeyChord = {
+  key: string;
+  mod: boolean;
+  ctrl: boolean;
+  meta: boolean;
+  alt: boolean;
+  shift: boolean;
+};
+
+type KeyEventLike = Pick<KeyboardEvent, "key" | "ctrlKey" | "metaKey" | "altKey" | "shiftKey">;
+
+export const defaultKeymap: Keymap = {
+  "Mod-z": "undo",
+  "Mod-Shift-z": "redo",
+  "Mod-y": "redo",
+  "Mod-b": "toggleBold",
+  "Mod-i": "toggleItalic",
+  "Mod-e": "toggleInlineCode",
+  "Mod-Shift-x": "toggleStrikethrough",
+  "Mod-f": "openFindPanel",
+  "Alt-ArrowUp": "moveLineUp",
+  "Alt-ArrowDown": "moveLineDown",
+  Enter: ["insertTableRow", "splitLine"],
+  "Shift-Enter": ["insertTableRow", "splitLine"],
+  "Mod-Enter": ["insertTableRow", "splitLine"],
+  Tab: ["nextTableCell", "indentList"],
+  "Shift-Tab": ["previousTableCell", "dedentList"],
+  Backspace: ["joinBackward", "removeListMarker"],
+  ArrowUp: "cursorLineUp",
+  ArrowDown: "cursorLineDown",
+};
+
+export const parseKeyChord = (chord: string): KeyChord => {
+  // A trailing "-" is the minus key itself, as in "Mod--".
+  const parts = chord.split(/-(?!$)/);
+  const key = parts.pop() ?? "";
+  const modifiers = new Set(parts.map((part) => part.toLowerCase()));
+  return {
+    key: key === "Space" ? " " : key,
+    mod: modifiers.has("mod"),
+    ctrl: modifiers.has("ctrl") || modifiers.has("control"),
+    meta: modifiers.has("meta") || modifiers.has("cmd"),
+    alt: modifiers.has("alt") || modifiers.has("option"),
+    shift: modifiers.has("shift"),
+  };
+};
+
+export const matchesKeyChord = (event: KeyEventLike, chord: KeyChord): boolean => {
+  if (event.key.toLowerCase() !== chord.key.toLowerCase()) return false;
+  if (event.altKey !== chord.alt) return false;
+  // Shifted punctuation already shows up in `key` ("*" rather than "8"), so Shift only counts for
+  // letters and named keys unless the chord asks for it.
+  const shiftMatters = chord.shift || chord.key.length > 1 || chord.key.toLowerCase() !== chord.key.toUpperCase();
+  if (shiftMatters && event.shiftKey !== chord.shift) return false;
+  if (chord.mod) return event.ctrlKey || event.metaKey;
+  return event.ctrlKey === chord.ctrl && event.metaKey === chord.meta;
+};
+
+export type CompiledKeymap = Array<{ chord: KeyChord; commands: string[] }>;
+
+// Later keymaps win chord by chord.
+export const compileKeymaps = (keymaps: Array<Keymap | undefined>): CompiledKeymap => {
+  const merged = new Map<string, string[]>();
+  for (const keymap of keymaps) {
+    if (!keymap) continue;
+    for (const [chord, commands] of Object.entries(keymap)) {
+      if (commands === null) merged.delete(chord);
+      else merged.set(chord, Array.isArray(commands) ? commands : [commands]);
+    }
+  }
+  return Array.from(merged, ([chord, commands]) => ({ chord: parseKeyChord(chord), commands }));
+};
+
+export const resolveKeyCommands = (keymap: CompiledKeymap, event: KeyEventLike): string[] =>
+  keymap.flatMap((binding) => (matchesKeyChord(event, binding.chord) ? binding.commands : []));
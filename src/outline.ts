@@ -0,0 +1,64 @@
+import { analyzeBlocks, AnalyzeBlocksOptions } from "./blockStructure";
+import { getMarkdownType } from "./HybridMarkdownEditor";
+import { collectVisibleSourceIndices, InlineRule, tokenizeInline } from "./inlineGrammar";
+
+export type OutlineHeading = {
+  level: 1 | 2 | 3 | 4;
+  // The heading as displayed: no `#` markers and no inline syntax.
+  text: string;
+  line: number;
+  // GitHub-style anchor, suffixed `-1`, `-2`, … when an earlier heading already took it.
+  slug: string;
+};
+
+// How the document is read; an editor's `getOutlineOptions()` returns the ones it renders with.
+export type OutlineOptions = {
+  blocks?: AnalyzeBlocksOptions;
+  inlineRules?: InlineRule[];
+};
+
+// The same marker the editor hides in a heading's preview.
+const HEADING_MARKER_REGEX = /^#{1,4}\s/;
+
+export const slugify = (text: string) =>
+  text
+    .trim()
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s_-]/gu, "")
+    .replace(/\s/g, "-");
+
+// Headings as the editor classifies them; `#` lines inside code blocks, math, or frontmatter are not headings.
+export const getOutline = (value: string, options: OutlineOptions = {}): OutlineHeading[] => {
+  const lines = value.split("\n");
+  const { lineContexts } = analyzeBlocks(lines, options.blocks);
+  const slugs = new Set<string>();
+  const outline: OutlineHeading[] = [];
+  lines.forEach((line, index) => {
+    if (lineContexts[index]) return;
+    const type = getMarkdownType(line);
+    if (type !== "h1" && type !== "h2" && type !== "h3" && type !== "h4") return;
+    const source = line.replace(HEADING_MARKER_REGEX, "");
+    const text = collectVisibleSourceIndices(tokenizeInline(source, options.inlineRules), 0, [])
+      .map((sourceIndex) => source[sourceIndex])
+      .join("")
+      .trim();
+    const base = slugify(text);
+    let slug = base;
+    for (let suffix = 1; slugs.has(slug); suffix += 1) slug = `${base}-${suffix}`;
+    slugs.add(slug);
+    outline.push({
+      level: Number(type[1]) as OutlineHeading["level"],
+      text,
+      line: index,
+      slug,
+    });
+  });
+  return outline;
+};
+
+// Index of the heading whose section contains `line`: the last heading at or above it, or -1 before the first.
+export const findOutlineSection = (outline: readonly OutlineHeading[], line: number): number => {
+  let found = -1;
+  for (let i = 0; i < outline.length && outline[i].line <= line; i += 1) found = i;
+  return found;
+};
@@ -0,0 +1,149 @@
+import React from "react";
+import type { LineBlockContext } from "./blockStructure";
+import { InlineRule, sanitizeHref } from "./inlineGrammar";
+
+export type FootnoteDefinition = { label: string; text: string };
+export type LinkDefinition = { label: string; url: string; title?: string };
+
+// Definitions keyed by normalized label; the first definition of a label wins.
+export type ReferenceIndex = {
+  footnotes: Map<string, FootnoteDefinition>;
+  links: Map<string, LinkDefinition>;
+};
+
+const FOOTNOTE_DEFINITION_REGEX = /^ {0,3}\[\^([^[\]\s]+)\]:[ \t]?(.*)$/;
+const LINK_DEFINITION_REGEX =
+  /^ {0,3}\[([^\]^][^\]]*)\]:\s*(?:<([^>]*)>|(\S+))(?:\s+(?:"([^"]*)"|'([^']*)'|\(([^)]*)\)))?\s*$/;
+// `[^label]`, but not the `[^label]:` that starts a definition. The label stops at `[`, so an unclosed `[^` does
+// not scan past the next one.
+const FOOTNOTE_REF_REGEX = /\[\^([^[\]\s]+)\](?!:)/g;
+// `[text][label]`, collapsed `[text][]`, or shortcut `[text]`; never a definition or an inline link.
+const REFERENCE_LINK_REGEX = /\[([^[\]]+)\](?:\[([^[\]]*)\])?(?![(:])/g;
+
+export const normalizeReferenceLabel = (label: string) => label.trim().replace(/\s+/g, " ").toLowerCase();
+
+// Definitions inside code blocks, tables, math, or frontmatter are ignored.
+export const buildReferenceIndex = (
+  lines: readonly string[],
+  lineContexts: readonly LineBlockContext[] = []
+): ReferenceIndex => {
+  const index: ReferenceIndex = { footnotes: new Map(), links: new Map() };
+  lines.forEach((line, lineIndex) => {
+    if (lineContexts[lineIndex]) return;
+    const footnote = line.match(FOOTNOTE_DEFINITION_REGEX);
+    if (footnote) {
+      const key = normalizeReferenceLabel(footnote[1]);
+      if (!index.footnotes.has(key)) index.footnotes.set(key, { label: footnote[1], text: footnote[2].trim() });
+      return;
+    }
+    const link = line.match(LINK_DEFINITION_REGEX);
+    if (!link) return;
+    const key = normalizeReferenceLabel(link[1]);
+    const title = link[4] ?? link[5] ?? link[6];
+    if (key !== "" && !index.links.has(key)) {
+      index.links.set(key, { label: link[1], url: link[2] ?? link[3], ...(title !== undefined ? { title } : {}) });
+    }
+  });
+  return index;
+};
+
+export const isSameReferenceIndex = (a: ReferenceIndex, b: ReferenceIndex) =>
+  JSON.stringify([...a.footnotes, ...a.links]) === JSON.stringify([...b.footnotes, ...b.links]);
+
+// Footnote references always render (marked when undefined); reference links only when their label is defined.
+export const createReferenceRules = (index: ReferenceIndex): InlineRule[] => [
+  {
+    name: "footnoteRef",
+    match: (source, from) => {
+      FOOTNOTE_REF_REGEX.lastIndex = from;
+      const match = FOOTNOTE_REF_REGEX.exec(source);
+      if (!match) return null;
+      return {
+        start: match.index,
+        end: match.index + match[0].length,
+        contentStart: match.index + 2,
+        contentEnd: match.index + 2 + match[1].length,
+        data: { label: match[1] },
+      };
+    },
+    render: (token, children) => {
+      const definition = index.footnotes.get(normalizeReferenceLabel(token.data?.label ?? ""));
+      return (
+        <sup
+          data-role="footnote-ref"
+          data-label={token.data?.label}
+          data-missing={definition ? undefined : "true"}
+          title={definition?.text}
+        >
+          {children}
+        </sup>
+      );
+    },
+  },
+  {
+    name: "referenceLink",
+    match: (source, from) => {
+      REFERENCE_LINK_REGEX.lastIndex = from;
+      for (let match = REFERENCE_LINK_REGEX.exec(source); match; match = REFERENCE_LINK_REGEX.exec(source)) {
+        const label = match[2] ? match[2] : match[1];
+        if (index.links.has(normalizeReferenceLabel(label))) {
+          return {
+            start: match.index,
+            end: match.index + match[0].length,
+            contentStart: match.index + 1,
+            contentEnd: match.index + 1 + match[1].length,
+            data: { label },
+          };
+        }
+        REFERENCE_LINK_REGEX.lastIndex = match.index + 1;
+      }
+      return null;
+    },
+    nested: true,
+    render: (token, children) => {
+      const definition = index.links.get(normalizeReferenceLabel(token.data?.label ?? ""));
+      return (
+        <a
+          href={sanitizeHref(definition?.url ?? "")}
+          title={definition?.title ?? definition?.url}
+          data-role="inline-link"
+          data-reference={token.data?.label}
+          onClick={(event) => {
+            // A plain click activates the line for editing; modifier-click follows the link.
+            if (!event.ctrlKey && !event.metaKey) event.preventDefault();
+          }}
+        >
+          {children}
+        </a>
+      );
+    },
+  },
+];
+
+// Adds `[^n]` (one more than the highest numeric label in use) in place of the selection on `line`, and its
+// empty definition at the end of the document, after a blank line unless footnotes already end it.
+export const insertFootnote = (
+  lines: readonly string[],
+  line: number,
+  selectionStart: number,
+  selectionEnd = selectionStart,
+  lineContexts: readonly LineBlockContext[] = []
+): { lines: string[]; label: string; definitionLine: number } => {
+  const numbered = /\[\^(\d+)\]/g;
+  let highest = 0;
+  lines.forEach((text, lineIndex) => {
+    if (lineContexts[lineIndex]) return;
+    numbered.lastIndex = 0;
+    for (let match = numbered.exec(text); match; match = numbered.exec(text)) {
+      highest = Math.max(highest, Number(match[1]));
+    }
+  });
+  const label = String(highest + 1);
+  const next = [...lines];
+  const current = next[line];
+  next[line] = `${current.slice(0, selectionStart)}[^${label}]${current.slice(selectionEnd)}`;
+  const last = next[next.length - 1];
+  if (last.trim() !== "" && !FOOTNOTE_DEFINITION_REGEX.test(last)) next.push("");
+  next.push(`[^${label}]: `);
+  return { lines: next, label, definitionLine: next.length - 1 };
+};
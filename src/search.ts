@@ -0,0 +1,125 @@
+export type SearchQuery = {
+  text: string;
+  caseSensitive?: boolean;
+  wholeWord?: boolean;
+  regex?: boolean;
+};
+
+// Source coordinates on one line; matches never span lines.
+export type SearchMatch = { line: number; start: number; end: number };
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+// Null for an empty query or an invalid regular expression.
+export const createSearchPattern = (query: SearchQuery): RegExp | null => {
+  if (query.text === "") return null;
+  let source = query.regex ? query.text : escapeRegExp(query.text);
+  // \b only knows ASCII word characters, so whole-word mode uses Unicode-aware lookarounds.
+  if (query.wholeWord) source = `(?<![\\p{L}\\p{N}_])(?:${source})(?![\\p{L}\\p{N}_])`;
+  try {
+    return new RegExp(source, `g${query.caseSensitive ? "" : "i"}${query.wholeWord ? "u" : ""}`);
+  } catch {
+    return null;
+  }
+};
+
+// Empty matches (e.g. `^` or `a*`) are skipped: there is nothing to highlight or select.
+export const findMatches = (lines: readonly string[], query: SearchQuery): SearchMatch[] => {
+  const pattern = createSearchPattern(query);
+  if (!pattern) return [];
+  const matches: SearchMatch[] = [];
+  lines.forEach((line, index) => {
+    pattern.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(line))) {
+      if (match[0] === "") {
+        pattern.lastIndex += 1;
+        continue;
+      }
+      matches.push({ line: index, start: match.index, end: match.index + match[0].length });
+    }
+  });
+  return matches;
+};
+
+// Re-runs the pattern at `start` against the full line so lookarounds and `$1`-style references see
+// the same context the match was found in.
+const expandReplacement = (
+  line: string,
+  start: number,
+  pattern: RegExp,
+  query: SearchQuery,
+  replacement: string
+): { end: number; text: string } | null => {
+  const sticky = new RegExp(pattern.source, `${pattern.flags.replace("g", "")}y`);
+  sticky.lastIndex = start;
+  const found = sticky.exec(line);
+  if (!found || found[0] === "") return null;
+  const end = start + found[0].length;
+  if (!query.regex) return { end, text: replacement };
+  sticky.lastIndex = start;
+  const replaced = line.replace(sticky, replacement);
+  return { end, text: replaced.slice(start, replaced.length - (line.length - end)) };
+};
+
+// Null when the match no longer exists at that position, e.g. after an edit.
+export const replaceMatch = (
+  lines: readonly string[],
+  match: SearchMatch,
+  query: SearchQuery,
+  replacement: string
+): { lines: string[]; end: number } | null => {
+  const pattern = createSearchPattern(query);
+  const line = lines[match.line];
+  if (!pattern || line === undefined) return null;
+  const expanded = expandReplacement(line, match.start, pattern, query, replacement);
+  if (!expanded || expanded.end !== match.end) return null;
+  const next = [...lines];
+  next[match.line] = line.slice(0, match.start) + expanded.text + line.slice(expanded.end);
+  return { lines: next, end: match.start + expanded.text.length };
+};
+
+export const replaceAllMatches = (
+  lines: readonly string[],
+  query: SearchQuery,
+  replacement: string
+): { lines: string[]; count: number } => {
+  const pattern = createSearchPattern(query);
+  const matches = findMatches(lines, query);
+  if (!pattern || matches.length === 0) return { lines: [...lines], count: 0 };
+  const next = [...lines];
+  let cursor = 0;
+  let parts: string[] = [];
+  matches.forEach((match, index) => {
+    const line = lines[match.line];
+    const expanded = expandReplacement(line, match.start, pattern, query, replacement);
+    parts.push(line.slice(cursor, match.start), expanded ? expanded.text : line.slice(match.start, match.end));
+    cursor = match.end;
+    if (matches[index + 1]?.line !== match.line) {
+      next[match.line] = parts.join("") + line.slice(cursor);
+      cursor = 0;
+      parts = [];
+    }
+  });
+  return { lines: next, count: matches.length };
+};
+
+// The first match after `position` (or the last one before it), wrapping around the document.
+// `inclusive` also accepts a match starting exactly at `position` when searching forward.
+export const getAdjacentMatch = (
+  matches: readonly SearchMatch[],
+  position: { line: number; column: number },
+  direction: 1 | -1,
+  inclusive = false
+): SearchMatch | null => {
+  if (matches.length === 0) return null;
+  const isAfter = (match: SearchMatch) =>
+    match.line > position.line ||
+    (match.line === position.line && (inclusive ? match.start >= position.column : match.start > position.column));
+  if (direction === 1) return matches.find(isAfter) ?? matches[0];
+  for (let index = matches.length - 1; index >= 0; index -= 1) {
+    const match = matches[index];
+    if (match.line < position.line || (match.line === position.line && match.start < position.column)) return match;
+  }
+  return matches[matches.length - 1];
+};
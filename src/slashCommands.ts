@@ -0,0 +1,61 @@
+import type { EditorExtension, EditorPosition } from "./HybridMarkdownEditor";
+
+export type SlashCommandItem = {
+  id: string;
+  label: string;
+  description?: string;
+  // Extra search terms; the label always matches.
+  keywords?: string[];
+  // Lines that replace the `/query` line. The caret lands at `caret`, relative to the first inserted
+  // line, or at the end of the last line.
+  lines: string[];
+  caret?: EditorPosition;
+};
+
+export type SlashCommandOptions = {
+  // Added after the defaults; an item with a default's `id` replaces it in place.
+  items?: SlashCommandItem[];
+  includeDefaults?: boolean;
+};
+
+export const defaultSlashCommands: SlashCommandItem[] = [
+  { id: "heading1", label: "Heading 1", keywords: ["h1", "title"], lines: ["# "] },
+  { id: "heading2", label: "Heading 2", keywords: ["h2", "subtitle"], lines: ["## "] },
+  { id: "heading3", label: "Heading 3", keywords: ["h3"], lines: ["### "] },
+  { id: "heading4", label: "Heading 4", keywords: ["h4"], lines: ["#### "] },
+  { id: "bulletList", label: "Bulleted list", keywords: ["ul", "unordered"], lines: ["- "] },
+  { id: "orderedList", label: "Numbered list", keywords: ["ol", "ordered"], lines: ["1. "] },
+  { id: "taskList", label: "Task list", keywords: ["todo", "checkbox"], lines: ["- [ ] "] },
+  { id: "quote", label: "Quote", keywords: ["blockquote"], lines: ["> "] },
+  {
+    id: "codeBlock",
+    label: "Code block",
+    keywords: ["fence", "pre"],
+    lines: ["```", "", "```"],
+    caret: { line: 1, column: 0 },
+  },
+  { id: "divider", label: "Divider", keywords: ["hr", "rule", "separator"], lines: ["---", ""] },
+];
+
+// Case-insensitive substring match on the label and keywords; label prefix matches sort first.
+export const filterSlashCommands = (items: readonly SlashCommandItem[], query: string): SlashCommandItem[] => {
+  const needle = query.toLowerCase();
+  const matches = items.filter((item) =>
+    [item.label, ...(item.keywords ?? [])].some((term) => term.toLowerCase().includes(needle))
+  );
+  const prefixed = matches.filter((item) => item.label.toLowerCase().startsWith(needle));
+  return [...prefixed, ...matches.filter((item) => !prefixed.includes(item))];
+};
+
+export const createSlashCommandExtension = ({
+  items = [],
+  includeDefaults = true,
+}: SlashCommandOptions = {}): EditorExtension => {
+  const merged = includeDefaults ? [...defaultSlashCommands] : [];
+  for (const item of items) {
+    const existing = merged.findIndex((candidate) => candidate.id === item.id);
+    if (existing === -1) merged.push(item);
+    else merged[existing] = item;
+  }
+  return { slashCommands: merged };
+};
@@ -77,4 +77,28 @@ describe('mapDisplayOffsetToSourceIndex', () => {
     expect(mapDisplayOffsetToSourceIndex('# hello', 10)).toBe(7);
     expect(mapDisplayOffsetToSourceIndex('**hello**', 10)).toBe(9);
   });
+
+  it('maps every built-in inline token kind exactly', () => {
+    // "*it* and `co`" -> display "it and co"
+    expect(mapDisplayOffsetToSourceIndex('*it* and `co`', 0)).toBe(1);
+    expect(mapDisplayOffsetToSourceIndex('*it* and `co`', 2)).toBe(4);
+    expect(mapDisplayOffsetToSourceIndex('*it* and `co`', 7)).toBe(10);
+
+    // "~~s~~ ==h==" -> display "s h"
+    expect(mapDisplayOffsetToSourceIndex('~~s~~ ==h==', 0)).toBe(2);
+    expect(mapDisplayOffsetToSourceIndex('~~s~~ ==h==', 2)).toBe(8);
+
+    // "[**go**](u) x" -> display "go x"
+    expect(mapDisplayOffsetToSourceIndex('[**go**](u) x', 0)).toBe(3);
+    expect(mapDisplayOffsetToSourceIndex('[**go**](u) x', 2)).toBe(11);
+    expect(mapDisplayOffsetToSourceIndex('[**go**](u) x', 3)).toBe(12);
+
+    // "\*a" -> display "*a"
+    expect(mapDisplayOffsetToSourceIndex('\\*a', 0)).toBe(1);
+  });
+
+  it('maps with a caller-supplied rule set', () => {
+    expect(mapDisplayOffsetToSourceIndex('*a*', 0, [])).toBe(0);
+    expect(mapDisplayOffsetToSourceIndex('*a*', 0)).toBe(1);
+  });
 });
@@ -29,4 +29,16 @@ describe('ReDoS Vulnerability Test', () => {
     expect(duration).toBeLessThan(1000);
     expect(result.container).toBeDefined();
   });
+
+  it('should process a line of unclosed footnote references without timing out', () => {
+    // Each `[^` starts a footnote reference whose label must not run on past the next `[^`
+    const maliciousString = '[^a'.repeat(16666);
+
+    const startTime = performance.now();
+    const result = render(React.createElement(HybridMarkdownEditor, { value: maliciousString }));
+    const duration = performance.now() - startTime;
+
+    expect(duration).toBeLessThan(1000);
+    expect(result.container.textContent).toBe(maliciousString);
+  });
 });
@@ -0,0 +1,30 @@
+import React, { useEffect, useState } from "react";
+import type { HybridMarkdownEditorHandle } from "./HybridMarkdownEditor";
+
+// A ref to the editor, or the handle itself (e.g. kept in state by a callback ref).
+export type EditorHandleSource = React.RefObject<HybridMarkdownEditorHandle | null> | HybridMarkdownEditorHandle | null;
+
+export const resolveEditorHandle = (editor: EditorHandleSource): HybridMarkdownEditorHandle | null =>
+  editor && "current" in editor ? editor.current : editor;
+
+// Re-renders the caller whenever the editor notifies. A ref is re-read after every render, so an editor that
+// mounts after the caller is picked up on the caller's next render; a handle passed directly is picked up at once.
+export const useEditorSubscription = (editor: EditorHandleSource): HybridMarkdownEditorHandle | null => {
+  const [, setVersion] = useState(0);
+  const [subscribed, setSubscribed] = useState<HybridMarkdownEditorHandle | null>(null);
+  const handle = resolveEditorHandle(editor);
+
+  useEffect(() => {
+    const current = resolveEditorHandle(editor);
+    if (current !== subscribed) setSubscribed(current);
+  });
+
+  useEffect(() => {
+    if (!subscribed) return;
+    const unsubscribe = subscribed.subscribe(() => setVersion((version) => version + 1));
+    setVersion((version) => version + 1);
+    return unsubscribe;
+  }, [subscribed]);
+
+  return handle;
+};
@@ -0,0 +1,46 @@
+export type VirtualRange = { start: number; end: number };
+
+// offsets[i] is the top of line i; offsets[ids.length] is the total height. Heights are keyed by line ID
+// so measurements follow their line when lines are inserted or removed above it. Lines in `hidden` (folded away)
+// take no height.
+export const buildLineOffsets = (
+  ids: readonly string[],
+  measuredHeights: ReadonlyMap<string, number>,
+  estimatedHeight: number,
+  hidden?: ReadonlySet<number>
+): number[] => {
+  const offsets = new Array<number>(ids.length + 1);
+  offsets[0] = 0;
+  for (let i = 0; i < ids.length; i += 1) {
+    offsets[i + 1] = offsets[i] + (hidden?.has(i) ? 0 : (measuredHeights.get(ids[i]) ?? estimatedHeight));
+  }
+  return offsets;
+};
+
+// First line whose bottom edge lies below `position`.
+const findLineAt = (offsets: number[], position: number): number => {
+  let low = 0;
+  let high = offsets.length - 2;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (offsets[mid + 1] <= position) low = mid + 1;
+    else high = mid;
+  }
+  return Math.max(0, low);
+};
+
+export const getVirtualRange = (
+  offsets: number[],
+  viewportTop: number,
+  viewportBottom: number,
+  overscan: number
+): VirtualRange => {
+  const count = offsets.length - 1;
+  if (count <= 0) return { start: 0, end: -1 };
+  const first = findLineAt(offsets, Math.max(0, viewportTop));
+  const last = findLineAt(offsets, Math.max(viewportTop, viewportBottom - 1));
+  return {
+    start: Math.max(0, first - overscan),
+    end: Math.min(count - 1, last + overscan),
+  };
+};
@@ -0,0 +1,104 @@
+import React from "react";
+import type { AutocompleteSource } from "./autocomplete";
+import type { EditorExtension } from "./HybridMarkdownEditor";
+import type { InlineRule } from "./inlineGrammar";
+
+export type WikiLinkOptions = {
+  // Whether `target` names an existing page; links are treated as existing when omitted.
+  resolveWikiLink?: (target: string) => boolean;
+  // Ctrl/Cmd+click on a rendered link.
+  onNavigate?: (target: string, link: { exists: boolean; alias?: string }) => void;
+  // Completion candidates offered after `[[`.
+  pageNames?: string[] | ((query: string) => string[] | Promise<string[]>);
+  maxSuggestions?: number;
+  classNames?: { link?: string; missingLink?: string };
+  styles?: { link?: React.CSSProperties; missingLink?: React.CSSProperties };
+};
+
+// `[[target]]` or `[[target|alias]]`; the alias, when present, is the visible text.
+const WIKI_LINK_REGEX = /\[\[([^[\]|\n]+)(?:\|([^[\]\n]+))?\]\]/g;
+const WIKI_LINK_TRIGGER_REGEX = /\[\[([^[\]|\n]*)/;
+const DEFAULT_MAX_SUGGESTIONS = 20;
+
+const cx = (...classes: Array<string | false | undefined>) => classes.filter(Boolean).join(" ");
+
+export const createWikiLinkRule = ({
+  resolveWikiLink,
+  onNavigate,
+  classNames,
+  styles,
+}: Pick<WikiLinkOptions, "resolveWikiLink" | "onNavigate" | "classNames" | "styles"> = {}): InlineRule => ({
+  name: "wikiLink",
+  match: (source, from) => {
+    WIKI_LINK_REGEX.lastIndex = from;
+    const match = WIKI_LINK_REGEX.exec(source);
+    if (!match) return null;
+    const [, target, alias] = match;
+    const contentStart = match.index + 2 + (alias !== undefined ? target.length + 1 : 0);
+    return {
+      start: match.index,
+      end: match.index + match[0].length,
+      contentStart,
+      contentEnd: contentStart + (alias ?? target).length,
+      data: { target: target.trim(), ...(alias !== undefined ? { alias } : {}) },
+    };
+  },
+  render: (token, children) => {
+    const target = token.data?.target ?? "";
+    const exists = resolveWikiLink ? resolveWikiLink(target) : true;
+    return (
+      <a
+        role="link"
+        data-role="wiki-link"
+        data-target={target}
+        data-missing={exists ? undefined : "true"}
+        title={target}
+        className={cx(classNames?.link, !exists && classNames?.missingLink)}
+        style={{
+          cursor: "pointer",
+          textDecoration: "underline",
+          ...(exists ? null : { opacity: 0.6, textDecorationStyle: "dashed" }),
+          ...styles?.link,
+          ...(exists ? null : styles?.missingLink),
+        }}
+        onClick={(event) => {
+          // A plain click activates the line for editing, like any other link.
+          if (!event.ctrlKey && !event.metaKey) return;
+          event.preventDefault();
+          onNavigate?.(target, { exists, alias: token.data?.alias });
+        }}
+      >
+        {children}
+      </a>
+    );
+  },
+});
+
+// Case-insensitive substring match; prefix matches sort first.
+const rankPageNames = (names: readonly string[], query: string, limit: number): string[] => {
+  const needle = query.trim().toLowerCase();
+  const matches = names.filter((name) => name.toLowerCase().includes(needle));
+  const prefixed = matches.filter((name) => name.toLowerCase().startsWith(needle));
+  return [...prefixed, ...matches.filter((name) => !prefixed.includes(name))].slice(0, limit);
+};
+
+export const createWikiLinkExtension = (options: WikiLinkOptions = {}): EditorExtension => {
+  const { pageNames, maxSuggestions = DEFAULT_MAX_SUGGESTIONS } = options;
+  const autocomplete: AutocompleteSource[] = pageNames
+    ? [
+        {
+          trigger: WIKI_LINK_TRIGGER_REGEX,
+          label: "Pages",
+          getSuggestions: async (query) => {
+            const names = typeof pageNames === "function" ? await pageNames(query) : pageNames;
+            return rankPageNames(names, query, maxSuggestions).map((name) => ({
+              id: name,
+              label: name,
+              insertText: `[[${name}]]`,
+            }));
+          },
+        },
+      ]
+    : [];
+  return { inlineRules: [createWikiLinkRule(options)], autocomplete };
+};